@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+
+import { ALLERGEN_GROUPS, findAllergenGroups, isInAllergenGroup } from "../ingredients/allergens.js";
+
+describe("allergen taxonomy", () => {
+  it.each([
+    "Chicken Meal",
+    "Chicken Fat (preserved with mixed tocopherols)",
+    "Chicken Liver",
+    "Hydrolyzed Chicken Protein",
+    "Dried Egg Product",
+    "Deboned Turkey",
+    "Poultry By-Product Meal",
+    "Natural Chicken Flavor",
+    "Duck Broth",
+  ])("puts %s in the poultry group", (ingredient) => {
+    expect(isInAllergenGroup(ingredient, ALLERGEN_GROUPS.poultry)).toBe(true);
+  });
+
+  it.each(["Salmon", "Brown Rice", "Eggplant", "Beef Tallow"])("keeps %s out of the poultry group", (ingredient) => {
+    expect(isInAllergenGroup(ingredient, ALLERGEN_GROUPS.poultry)).toBe(false);
+  });
+
+  it("covers fish species, oils and dairy derivatives", () => {
+    expect(isInAllergenGroup("Menhaden Fish Oil", ALLERGEN_GROUPS.fish)).toBe(true);
+    expect(isInAllergenGroup("Sardines", ALLERGEN_GROUPS.fish)).toBe(true);
+    expect(isInAllergenGroup("Dried Whey", ALLERGEN_GROUPS.dairy)).toBe(true);
+    expect(isInAllergenGroup("Corn Gluten Meal", ALLERGEN_GROUPS.corn)).toBe(true);
+  });
+
+  it("reports which requested groups a product's ingredients hit", () => {
+    const ingredients = ["Lamb", "Brown Rice", "Salmon Oil", "Taurine"];
+
+    expect(
+      findAllergenGroups(ingredients, [ALLERGEN_GROUPS.poultry, ALLERGEN_GROUPS.fish, ALLERGEN_GROUPS.lamb])
+    ).toEqual(["fish", "lamb"]);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import { jsonBodyMiddleware, responseSizeMiddleware } from "../api/middleware.js";
+import { composePipeline, sendRequest, type ApiMiddleware, type ApiRequest } from "../api/pipeline.js";
+import { AgentApiClient } from "../client.js";
+import {
+  AgentApiError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ResponseSizeError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from "../errors.js";
+
+const baseRequest: ApiRequest = {
+  route: "test",
+  method: "GET",
+  url: new URL("https://api.example.com/agent/test"),
+  headers: {},
+  resource: { name: "Product", id: "abc" },
+};
+
+const noRetry = { retryPolicy: { maxAttempts: 1 } };
+
+describe("sendRequest", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    [400, ValidationError],
+    [404, NotFoundError],
+    [429, RateLimitError],
+    [503, ServerError],
+    [418, AgentApiError],
+  ])("maps HTTP %i to a typed error", async (status, ErrorClass) => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("nope", { status }));
+
+    await expect(sendRequest(baseRequest)).rejects.toBeInstanceOf(ErrorClass);
+  });
+
+  it("uses the route resource in NotFoundError messages", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("", { status: 404 }));
+
+    await expect(sendRequest(baseRequest)).rejects.toThrow("Product not found: abc");
+  });
+
+  it("parses Retry-After seconds on 429", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response("", { status: 429, headers: { "Retry-After": "7" } })
+    );
+
+    const error = await sendRequest(baseRequest).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(7_000);
+  });
+
+  it("maps fetch failures to NetworkError", async () => {
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new TypeError("fetch failed"));
+
+    await expect(sendRequest(baseRequest)).rejects.toBeInstanceOf(NetworkError);
+  });
+});
+
+describe("composePipeline", () => {
+  it("runs middleware outermost-first around the terminal handler", async () => {
+    const calls: string[] = [];
+    const tracer =
+      (label: string): ApiMiddleware =>
+      async (request, next) => {
+        calls.push(`${label}:before`);
+        const response = await next(request);
+        calls.push(`${label}:after`);
+        return response;
+      };
+
+    const handler = composePipeline([tracer("outer"), tracer("inner")], async () => {
+      calls.push("terminal");
+      return { status: 200, headers: new Headers(), raw: new Response("{}") };
+    });
+
+    await handler(baseRequest);
+    expect(calls).toEqual(["outer:before", "inner:before", "terminal", "inner:after", "outer:after"]);
+  });
+});
+
+describe("responseSizeMiddleware", () => {
+  const chunkedResponse = (chunks: string[]) => {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        controller.close();
+      },
+    });
+    return new Response(stream, { status: 200 });
+  };
+
+  const pipelineFor = (response: Response, maxBytes: number) =>
+    composePipeline([jsonBodyMiddleware(), responseSizeMiddleware(maxBytes)], async () => ({
+      status: response.status,
+      headers: response.headers,
+      raw: response,
+    }));
+
+  it("aborts a chunked body without Content-Length once the limit is crossed", async () => {
+    const handler = pipelineFor(chunkedResponse(['{"items":[', '"aaaaaaaaaa",', '"bbbbbbbbbb"]}']), 16);
+
+    const error = await handler(baseRequest).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ResponseSizeError);
+    expect((error as ResponseSizeError).maxSizeBytes).toBe(16);
+  });
+
+  it("rejects a declared Content-Length over the limit before reading the body", async () => {
+    const response = new Response("{}", { status: 200, headers: { "Content-Length": "5000" } });
+    const handler = pipelineFor(response, 1000);
+
+    await expect(handler(baseRequest)).rejects.toBeInstanceOf(ResponseSizeError);
+  });
+
+  it("passes bodies within the limit through unchanged", async () => {
+    const handler = pipelineFor(chunkedResponse(['{"ok":', "true}"]), 1000);
+
+    const response = await handler(baseRequest);
+    expect(response.data).toEqual({ ok: true });
+  });
+});
+
+describe("AgentApiClient pipeline", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sends identity headers and JSON bodies for POST routes", async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(new Response(JSON.stringify({ products: [], compared: 0, requested: 2 }), { status: 200 }));
+
+    const client = new AgentApiClient(noRetry);
+    await client.compareProducts(["a", "b"]);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toContain("/agent/products/compare");
+    expect(init?.method).toBe("POST");
+    expect(init?.body).toBe(JSON.stringify({ productIds: ["a", "b"] }));
+
+    const headers = init?.headers as Record<string, string>;
+    expect(headers["Content-Type"]).toBe("application/json");
+    expect(headers["X-API-Version"]).toBe("v1");
+    expect(headers["User-Agent"]).toContain("bowlly-mcp/");
+  });
+
+  it("reports the calling MCP session in the User-Agent", async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(
+        async () => new Response(JSON.stringify({ products: [], compared: 0, requested: 2 }), { status: 200 })
+      );
+
+    const client = new AgentApiClient(noRetry);
+    await client.compareProducts(["a", "b"], { sessionId: "session-a" });
+    await client.compareProducts(["a", "b"]);
+
+    const userAgents = fetchMock.mock.calls.map(([, init]) => (init?.headers as Record<string, string>)["User-Agent"]);
+    expect(userAgents[0]).toMatch(/\(session=session-a\)$/);
+    expect(userAgents[1]).toMatch(/\(session=[0-9a-f-]{36}\)$/);
+  });
+
+  it("fetches product lists with a single GET (no HEAD preflight)", async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(
+        new Response(JSON.stringify({ items: [], meta: { total: 0, offset: 0, limit: 10 } }), { status: 200 })
+      );
+
+    const client = new AgentApiClient(noRetry);
+    await client.getProducts({ limit: "10" });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1]?.method).toBe("GET");
+  });
+
+  it("translates aborted requests into TimeoutError", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new DOMException("The operation timed out.", "TimeoutError"));
+
+    const client = new AgentApiClient(noRetry);
+    await expect(client.getCuration("slow")).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it("runs custom middleware for every request", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ slugs: ["a"], count: 1, meta: { apiVersion: "1", timestamp: "t" } }), {
+        status: 200,
+      })
+    );
+
+    const seen: string[] = [];
+    const client = new AgentApiClient({
+      ...noRetry,
+      middleware: [
+        async (request, next) => {
+          seen.push(`${request.route} ${request.url.pathname}`);
+          return next(request);
+        },
+      ],
+    });
+
+    const result = await client.listCurations();
+    expect(result.slugs).toEqual(["a"]);
+    expect(seen).toEqual(["listCurations /agent/curation"]);
+  });
+});
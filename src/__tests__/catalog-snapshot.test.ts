@@ -0,0 +1,345 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { loadCatalogSnapshot } from "../catalog/snapshot.js";
+import { AgentApiClient } from "../client.js";
+import { NotFoundError } from "../errors.js";
+import type { CatalogProduct, CatalogSnapshot } from "../schemas/catalog-snapshot.js";
+import { createServer } from "../server.js";
+
+const CHICKEN_ID = "01HZX0000000000000000CHKN1";
+const SALMON_ID = "01HZX0000000000000000SLMN1";
+const TURKEY_ID = "01HZX0000000000000000TRKY1";
+
+const product = (overrides: Partial<CatalogProduct> & Pick<CatalogProduct, "id" | "name">): CatalogProduct => ({
+  brand: "Test Brand",
+  detailUrl: `https://bowlly.net/products/${overrides.id}`,
+  imageUrl: `https://bowlly.net/images/${overrides.id}.jpg`,
+  form: "dry",
+  lifeStageTags: ["adult"],
+  conditionTags: [],
+  ingredientsPreview: [],
+  ingredientsFull: [],
+  hasOffer: false,
+  ...overrides,
+});
+
+const snapshot: CatalogSnapshot = {
+  manifest: {
+    formatVersion: 1,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    apiVersion: "1.4.0",
+    counts: { products: 3, curations: 1 },
+  },
+  products: [
+    product({
+      id: CHICKEN_ID,
+      name: "Chicken Delight",
+      conditionTags: ["sensitive", "indoor"],
+      ingredientsPreview: ["chicken", "rice"],
+      ingredientsFull: ["chicken", "rice", "chicken fat", "taurine"],
+      nutrition: { protein: 38, fat: 16, fiber: 3, moisture: 10 },
+      derivedMetrics: { meatScore: 70, carbEstimated: 24 },
+    }),
+    product({
+      id: SALMON_ID,
+      name: "Salmon Feast",
+      form: "wet",
+      conditionTags: ["urinary"],
+      ingredientsPreview: ["salmon", "fish broth"],
+      ingredientsFull: ["salmon", "fish broth", "guar gum"],
+      nutrition: { protein: 11, fat: 5, fiber: 1, moisture: 80 },
+      derivedMetrics: { meatScore: 85, carbEstimated: 3 },
+    }),
+    product({
+      id: TURKEY_ID,
+      name: "Turkey Formula",
+      brand: "Other Brand",
+      conditionTags: ["sensitive"],
+      ingredientsPreview: ["turkey", "peas"],
+      ingredientsFull: ["turkey", "peas", "salmon oil"],
+      nutrition: { protein: 42, fat: 18, fiber: 4, moisture: 10 },
+    }),
+  ],
+  curations: [
+    {
+      slug: "low-carb-cat-food",
+      title: "Best Low-Carb Cat Food",
+      description: "Low-carb picks",
+      tldr: ["Wet food wins"],
+      criteria: ["Under 10% carbs"],
+      methodology: "DMB comparison",
+      recommendedProductIds: [SALMON_ID],
+      updatedAt: "2026-01-01",
+      canonicalUrl: "https://bowlly.net/best/low-carb-cat-food",
+      meta: { apiVersion: "1.4.0", timestamp: "2026-01-01T00:00:00.000Z" },
+    },
+  ],
+};
+
+describe("loadCatalogSnapshot", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bowlly-snapshot-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads a JSON snapshot", () => {
+    const path = join(dir, "catalog.json");
+    writeFileSync(path, JSON.stringify(snapshot));
+
+    expect(loadCatalogSnapshot(path)).toEqual(snapshot);
+  });
+
+  it("loads an NDJSON snapshot", () => {
+    const path = join(dir, "catalog.ndjson");
+    const lines = [
+      { type: "manifest", data: snapshot.manifest },
+      ...snapshot.products.map((data) => ({ type: "product", data })),
+      ...snapshot.curations.map((data) => ({ type: "curation", data })),
+    ];
+    writeFileSync(path, lines.map((line) => JSON.stringify(line)).join("\n") + "\n");
+
+    expect(loadCatalogSnapshot(path)).toEqual(snapshot);
+  });
+
+  it("rejects records that do not match the Agent API schemas", () => {
+    const path = join(dir, "catalog.ndjson");
+    const broken = { ...snapshot.products[0], hasOffer: undefined };
+    writeFileSync(
+      path,
+      [{ type: "manifest", data: snapshot.manifest }, { type: "product", data: broken }]
+        .map((line) => JSON.stringify(line))
+        .join("\n")
+    );
+
+    expect(() => loadCatalogSnapshot(path)).toThrow(/Invalid catalog snapshot .*line 2/);
+  });
+
+  it("rejects NDJSON without a manifest", () => {
+    const path = join(dir, "catalog.jsonl");
+    writeFileSync(path, JSON.stringify({ type: "product", data: snapshot.products[0] }));
+
+    expect(() => loadCatalogSnapshot(path)).toThrow(/missing manifest/);
+  });
+});
+
+describe("AgentApiClient in snapshot mode", () => {
+  let fetchMock: ReturnType<typeof vi.spyOn<typeof globalThis, "fetch">>;
+  const client = () => new AgentApiClient({ snapshot });
+  const ids = (response: { items: Array<{ id: string }> }) => response.items.map((item) => item.id);
+
+  beforeEach(() => {
+    fetchMock = vi.spyOn(globalThis, "fetch");
+  });
+
+  afterEach(() => {
+    expect(fetchMock).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+
+  it("reports the snapshot as its data source", () => {
+    expect(client().getHealth().dataSource).toBe("snapshot");
+  });
+
+  it.each([
+    [{ search: "salmon" }, [SALMON_ID, TURKEY_ID]],
+    [{ search: "test brand chicken" }, [CHICKEN_ID]],
+    [{ form: "wet" }, [SALMON_ID]],
+    [{ conditions: "sensitive,indoor" }, [CHICKEN_ID]],
+    [{ minProtein: "40" }, [TURKEY_ID]],
+    [{ maxCarbs: "10" }, [SALMON_ID]],
+  ])("filters products by %o", async (params, expected) => {
+    expect(ids(await client().getProducts(params))).toEqual(expected);
+  });
+
+  it("pages with limit and offset", async () => {
+    const page = await client().getProducts({ limit: "2", offset: "1" });
+
+    expect(ids(page)).toEqual([SALMON_ID, TURKEY_ID]);
+    expect(page.meta).toEqual({ total: 3, offset: 1, limit: 2, hasMore: false });
+  });
+
+  it("serves product detail and compare from the snapshot", async () => {
+    const detail = await client().getProductDetail(CHICKEN_ID);
+    expect(detail.product.ingredientsFull).toContain("taurine");
+
+    const compared = await client().compareProducts([CHICKEN_ID, "missing"]);
+    expect(compared).toMatchObject({ compared: 1, requested: 2 });
+  });
+
+  it("throws NotFoundError for unknown products and curations", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(client().getProductDetail("missing")).rejects.toBeInstanceOf(NotFoundError);
+    await expect(client().getCuration("missing")).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it("lists curations with the snapshot API version", async () => {
+    const list = await client().listCurations();
+
+    expect(list).toEqual({
+      slugs: ["low-carb-cat-food"],
+      count: 1,
+      meta: { apiVersion: "1.4.0", timestamp: "2026-01-01T00:00:00.000Z" },
+    });
+  });
+});
+
+describe("tools in snapshot mode", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("answers every tool without touching the network", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch");
+    const { server } = createServer({ apiClient: new AgentApiClient({ snapshot }) });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const mcpClient = new Client({ name: "snapshot-test", version: "1.0.0" });
+    await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+
+    const calls: Array<[string, Record<string, unknown>]> = [
+      ["search_products", { query: "chicken", limit: 5 }],
+      [
+        "search_products",
+        {
+          filter: {
+            all: [{ ingredient: "chicken", withinFirst: 3 }, { any: [{ form: "wet" }, { not: { brand: "X" } }] }],
+          },
+        },
+      ],
+      ["get_product_detail", { productId: CHICKEN_ID }],
+      ["compare_products", { productIds: [CHICKEN_ID, SALMON_ID] }],
+      ["find_similar_products", { productId: CHICKEN_ID }],
+      ["analyze_nutrition", { productId: SALMON_ID }],
+      ["calculate_feeding", { productId: SALMON_ID, catWeightKg: 4.5, catAgeMonths: 48, neutered: true }],
+      [
+        "plan_mixed_feeding",
+        { productIds: [CHICKEN_ID, SALMON_ID], catWeightKg: 4.5, catAgeMonths: 48, neutered: true, wetCaloriePercent: 60 },
+      ],
+      ["get_curation_list", { slug: "low-carb-cat-food" }],
+    ];
+
+    const { tools } = await mcpClient.listTools();
+    expect(tools.find((tool) => tool.name === "search_products")?.inputSchema.properties).toHaveProperty("filter");
+
+    for (const [name, args] of calls) {
+      const result = await mcpClient.callTool({ name, arguments: args });
+      expect(result.isError, name).toBeFalsy();
+    }
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    await mcpClient.close();
+  });
+
+  it("flags an adult-only food as unsuitable for a kitten", async () => {
+    const { server } = createServer({ apiClient: new AgentApiClient({ snapshot }) });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const mcpClient = new Client({ name: "snapshot-test", version: "1.0.0" });
+    await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+
+    const result = await mcpClient.callTool({
+      name: "get_product_detail",
+      arguments: { productId: CHICKEN_ID, catAgeMonths: 4 },
+    });
+    const content = result.content as Array<{ type: "text"; text: string }>;
+    const { data } = JSON.parse(content[0].text);
+
+    expect(data.lifeStages).toEqual(["adult"]);
+    expect(data.lifeStageCheck).toMatchObject({ catLifeStage: "kitten", verdict: "unsuitable" });
+    await mcpClient.close();
+  });
+
+  it("carries extended guaranteed-analysis fields through detail and compare", async () => {
+    const extended = {
+      protein: 38,
+      fat: 16,
+      fiber: 3,
+      moisture: 10,
+      ash: 7,
+      calcium: 1.1,
+      phosphorus: 0.9,
+      omega6: 2.5,
+    };
+    const products = snapshot.products.map((item) => (item.id === CHICKEN_ID ? { ...item, nutrition: extended } : item));
+    const { server } = createServer({ apiClient: new AgentApiClient({ snapshot: { ...snapshot, products } }) });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const mcpClient = new Client({ name: "snapshot-test", version: "1.0.0" });
+    await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+
+    const call = async (name: string, args: Record<string, unknown>) => {
+      const result = await mcpClient.callTool({ name, arguments: args });
+      const content = result.content as Array<{ type: "text"; text: string }>;
+      return JSON.parse(content[0].text).data;
+    };
+
+    const detail = await call("get_product_detail", { productId: CHICKEN_ID });
+    expect(detail.nutrition).toEqual(extended);
+    const compared = await call("compare_products", { productIds: [CHICKEN_ID, SALMON_ID] });
+    expect(compared.products[0].nutrition).toEqual(extended);
+    await mcpClient.close();
+  });
+
+  it("ranks similar products with reasons and honors exclusions", async () => {
+    const { server } = createServer({ apiClient: new AgentApiClient({ snapshot }) });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const mcpClient = new Client({ name: "snapshot-test", version: "1.0.0" });
+    await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+
+    const call = async (args: Record<string, unknown>) => {
+      const result = await mcpClient.callTool({ name: "find_similar_products", arguments: args });
+      const content = result.content as Array<{ type: "text"; text: string }>;
+      return JSON.parse(content[0].text).data;
+    };
+
+    const similar = await call({ productId: CHICKEN_ID });
+    expect(similar.product).toEqual({ id: CHICKEN_ID, name: "Chicken Delight", brand: "Test Brand" });
+    expect(similar.candidatesCompared).toBe(2);
+    expect(similar.limitations).toEqual([]);
+    expect(similar.items.map((item: { id: string }) => item.id)).toEqual([TURKEY_ID, SALMON_ID]);
+    expect(similar.items[0].ingredientCheck).toBe("full");
+    expect(similar.items[0].reasons).toEqual(
+      expect.arrayContaining(["Same form (dry)", "Also tagged for: sensitive"])
+    );
+
+    const withoutFish = await call({ productId: CHICKEN_ID, excludeProteinSources: ["fish"] });
+    expect(withoutFish.items).toEqual([]);
+    expect(withoutFish.excluded).toEqual({ sameBrand: 0, proteinSources: 2 });
+
+    const otherBrands = await call({ productId: SALMON_ID, excludeSameBrand: true });
+    expect(otherBrands.items.map((item: { id: string }) => item.id)).toEqual([TURKEY_ID]);
+    expect(otherBrands.excluded).toEqual({ sameBrand: 1, proteinSources: 0 });
+    await mcpClient.close();
+  });
+
+  it("says when the catalog is larger than the similar-products candidate cap", async () => {
+    const fillers = Array.from({ length: 650 }, (_, i) =>
+      product({ id: `01HZX00000000000000000${String(i).padStart(4, "0")}`, name: `Filler ${i}` })
+    );
+    const large = { ...snapshot, products: [...snapshot.products, ...fillers] };
+    const { server } = createServer({ apiClient: new AgentApiClient({ snapshot: large }) });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const mcpClient = new Client({ name: "snapshot-test", version: "1.0.0" });
+    await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+
+    const call = async (args: Record<string, unknown>) => {
+      const result = await mcpClient.callTool({ name: "find_similar_products", arguments: args });
+      const content = result.content as Array<{ type: "text"; text: string }>;
+      return JSON.parse(content[0].text).data;
+    };
+
+    const similar = await call({ productId: CHICKEN_ID });
+    expect(similar.candidatesCompared).toBe(599);
+    expect(similar.limitations).toEqual([expect.stringContaining("first 600 catalog products")]);
+    await mcpClient.close();
+  });
+});
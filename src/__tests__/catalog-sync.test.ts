@@ -0,0 +1,186 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { loadCatalogSnapshot } from "../catalog/snapshot.js";
+import { partialPathFor, runCatalogSync, type CatalogSyncClient } from "../cli/sync-catalog.js";
+import { NotFoundError, ServerError } from "../errors.js";
+import type { CatalogProduct } from "../schemas/catalog-snapshot.js";
+
+const product = (id: string, protein = 40): CatalogProduct => ({
+  id,
+  name: `Food ${id}`,
+  brand: "Test Brand",
+  detailUrl: `https://bowlly.net/products/${id}`,
+  imageUrl: `https://bowlly.net/images/${id}.jpg`,
+  form: "dry",
+  lifeStageTags: ["adult"],
+  conditionTags: [],
+  nutrition: { protein },
+  ingredientsPreview: ["chicken"],
+  ingredientsFull: ["chicken", "rice"],
+  hasOffer: false,
+});
+
+const curation = (slug: string) => ({
+  slug,
+  title: slug,
+  description: "",
+  tldr: [],
+  criteria: [],
+  methodology: "",
+  recommendedProductIds: [],
+  updatedAt: "2026-01-01",
+  canonicalUrl: `https://bowlly.net/best/${slug}`,
+  meta: { apiVersion: "2.1.0", timestamp: "2026-01-01T00:00:00.000Z" },
+});
+
+/**
+ * In-memory Agent API: list items carry the fields the detail reports
+ */
+function createFakeClient(catalog: CatalogProduct[]) {
+  const client = {
+    getProducts: vi.fn(async (params?: Record<string, string>) => {
+      const limit = Number(params?.limit);
+      const offset = Number(params?.offset);
+      const items = catalog.slice(offset, offset + limit).map(({ hasOffer: _hasOffer, ...item }) => item);
+      return { items, meta: { total: catalog.length, offset, limit } };
+    }),
+    getProductDetail: vi.fn(async (id: string) => {
+      const found = catalog.find((p) => p.id === id);
+      if (!found) throw new NotFoundError("Product", id);
+      return { product: found };
+    }),
+    listCurations: vi.fn(async () => ({
+      slugs: ["best-dry"],
+      count: 1,
+      meta: { apiVersion: "2.1.0", timestamp: "2026-01-01T00:00:00.000Z" },
+    })),
+    getCuration: vi.fn(async (slug: string) => curation(slug)),
+  };
+  return client satisfies CatalogSyncClient;
+}
+
+describe("runCatalogSync", () => {
+  let dir: string;
+  let outputPath: string;
+  const quiet = { log: () => {}, pageSize: 2, requestsPerMinute: 10_000 };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bowlly-sync-"));
+    outputPath = join(dir, "catalog.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.useRealTimers();
+  });
+
+  it("pages through products and writes a snapshot with a manifest", async () => {
+    const client = createFakeClient([product("a"), product("b"), product("c")]);
+
+    const result = await runCatalogSync({ ...quiet, outputPath, client });
+
+    expect(client.getProducts).toHaveBeenCalledTimes(2);
+    expect(client.getProductDetail).toHaveBeenCalledTimes(3);
+    expect(result.manifest).toMatchObject({
+      formatVersion: 1,
+      apiVersion: "2.1.0",
+      counts: { products: 3, curations: 1 },
+    });
+
+    const snapshot = loadCatalogSnapshot(outputPath);
+    expect(snapshot.products.map((p) => p.id)).toEqual(["a", "b", "c"]);
+    expect(snapshot.curations.map((c) => c.slug)).toEqual(["best-dry"]);
+    expect(existsSync(partialPathFor(outputPath))).toBe(false);
+  });
+
+  it("writes NDJSON when the path asks for it", async () => {
+    const ndjsonPath = join(dir, "catalog.ndjson");
+    await runCatalogSync({ ...quiet, outputPath: ndjsonPath, client: createFakeClient([product("a")]) });
+
+    const lines = readFileSync(ndjsonPath, "utf8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).type)).toEqual(["manifest", "product", "curation"]);
+  });
+
+  it("resumes an interrupted run without refetching saved details", async () => {
+    const catalog = [product("a"), product("b"), product("c")];
+    const failing = createFakeClient(catalog);
+    failing.getProductDetail.mockImplementation(async (id: string) => {
+      if (id === "b") throw new ServerError(503);
+      return { product: catalog.find((p) => p.id === id)! };
+    });
+
+    await expect(runCatalogSync({ ...quiet, outputPath, client: failing })).rejects.toBeInstanceOf(ServerError);
+    expect(existsSync(outputPath)).toBe(false);
+    expect(existsSync(partialPathFor(outputPath))).toBe(true);
+
+    const client = createFakeClient(catalog);
+    const result = await runCatalogSync({ ...quiet, outputPath, client });
+
+    expect(result).toMatchObject({ resumed: 1, fetched: 2 });
+    expect(client.getProductDetail.mock.calls.map(([id]) => id)).toEqual(["b", "c"]);
+    expect(loadCatalogSnapshot(outputPath).products).toHaveLength(3);
+    expect(existsSync(partialPathFor(outputPath))).toBe(false);
+  });
+
+  it("refreshes incrementally: reuses unchanged details, fetches new or changed, drops delisted", async () => {
+    await runCatalogSync({ ...quiet, outputPath, client: createFakeClient([product("a"), product("b"), product("c")]) });
+
+    const client = createFakeClient([product("a"), product("b", 45), product("d")]);
+    const result = await runCatalogSync({ ...quiet, outputPath, client });
+
+    expect(result).toMatchObject({ reused: 1, fetched: 2, removed: 1 });
+    expect(client.getProductDetail.mock.calls.map(([id]) => id)).toEqual(["b", "d"]);
+
+    const snapshot = loadCatalogSnapshot(outputPath);
+    expect(snapshot.products.map((p) => [p.id, p.nutrition?.protein])).toEqual([
+      ["a", 40],
+      ["b", 45],
+      ["d", 40],
+    ]);
+  });
+
+  it("refetches every detail with full", async () => {
+    await runCatalogSync({ ...quiet, outputPath, client: createFakeClient([product("a"), product("b")]) });
+
+    const client = createFakeClient([product("a"), product("b")]);
+    const result = await runCatalogSync({ ...quiet, outputPath, client, full: true });
+
+    expect(result).toMatchObject({ reused: 0, fetched: 2 });
+  });
+
+  it("skips products delisted between the list and detail calls", async () => {
+    const client = createFakeClient([product("a"), product("b")]);
+    client.getProductDetail.mockImplementation(async (id: string) => {
+      if (id === "b") throw new NotFoundError("Product", id);
+      return { product: product(id) };
+    });
+
+    const result = await runCatalogSync({ ...quiet, outputPath, client });
+
+    expect(result.manifest.counts.products).toBe(1);
+  });
+
+  it("waits for request budget instead of exceeding the rate limit", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const sleep = vi.fn(async (ms: number) => {
+      vi.setSystemTime(Date.now() + ms);
+    });
+
+    // 3 products at 2/min: list (1) + details (3) + curations (2) = 6 requests
+    await runCatalogSync({
+      ...quiet,
+      pageSize: 10,
+      requestsPerMinute: 2,
+      outputPath,
+      client: createFakeClient([product("a"), product("b"), product("c")]),
+      sleep,
+    });
+
+    expect(sleep).toHaveBeenCalled();
+    expect(sleep.mock.calls.every(([ms]) => ms === 30_000)).toBe(true);
+  });
+});
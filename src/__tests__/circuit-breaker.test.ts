@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { CircuitBreaker, type CircuitBreakerOptions } from "../circuit-breaker.js";
+import { AgentApiClient } from "../client.js";
+import { CircuitOpenError, NotFoundError, RateLimitError, ServerError } from "../errors.js";
+
+describe("CircuitBreaker", () => {
+  let now: number;
+
+  const createBreaker = (overrides: Partial<CircuitBreakerOptions> = {}) =>
+    new CircuitBreaker({
+      failureRateThreshold: 0.5,
+      minimumRequests: 4,
+      windowSize: 10,
+      openDurationMs: 30_000,
+      halfOpenMaxProbes: 1,
+      now: () => now,
+      ...overrides,
+    });
+
+  const fail = () => Promise.reject(new ServerError(503));
+  const succeed = () => Promise.resolve("ok");
+
+  beforeEach(() => {
+    now = 1_000_000;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("stays closed below the minimum request count", async () => {
+    const breaker = createBreaker();
+
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerError);
+    }
+
+    expect(breaker.getStatus().state).toBe("closed");
+  });
+
+  it("opens once the failure rate crosses the threshold", async () => {
+    const breaker = createBreaker();
+
+    await breaker.execute(succeed);
+    await breaker.execute(succeed);
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerError);
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerError);
+
+    const status = breaker.getStatus();
+    expect(status.state).toBe("open");
+    expect(status.failureRate).toBe(0.5);
+    expect(status.retryAfterMs).toBe(30_000);
+  });
+
+  it("fails fast while open without calling the operation", async () => {
+    const breaker = createBreaker({ minimumRequests: 1 });
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerError);
+
+    const operation = vi.fn(succeed);
+    await expect(breaker.execute(operation)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it("does not count client errors as upstream failures", async () => {
+    const breaker = createBreaker({ minimumRequests: 1 });
+
+    await expect(breaker.execute(() => Promise.reject(new NotFoundError("Product", "x")))).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+
+    expect(breaker.getStatus().state).toBe("closed");
+    expect(breaker.getStatus().failureRate).toBe(0);
+  });
+
+  it("does not record calls cancelled by the caller", async () => {
+    const breaker = createBreaker({ minimumRequests: 1 });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(breaker.execute(fail, controller.signal)).rejects.toBeInstanceOf(ServerError);
+
+    expect(breaker.getStatus().recentRequests).toBe(0);
+  });
+
+  it("does not open on upstream rate limiting", async () => {
+    const breaker = createBreaker({ minimumRequests: 2 });
+    const rateLimited = () => Promise.reject(new RateLimitError(1000));
+
+    for (let i = 0; i < 4; i++) {
+      await expect(breaker.execute(rateLimited)).rejects.toBeInstanceOf(RateLimitError);
+    }
+
+    expect(breaker.getStatus().state).toBe("closed");
+    expect(breaker.getStatus().failureRate).toBe(0);
+  });
+
+  it("half-opens after the open duration and closes on a successful probe", async () => {
+    const breaker = createBreaker({ minimumRequests: 1 });
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerError);
+
+    now += 30_000;
+    expect(breaker.getStatus().state).toBe("half-open");
+
+    await expect(breaker.execute(succeed)).resolves.toBe("ok");
+    expect(breaker.getStatus().state).toBe("closed");
+  });
+
+  it("re-opens when the half-open probe fails", async () => {
+    const breaker = createBreaker({ minimumRequests: 1 });
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerError);
+
+    now += 30_000;
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerError);
+
+    const status = breaker.getStatus();
+    expect(status.state).toBe("open");
+    expect(status.retryAfterMs).toBe(30_000);
+  });
+
+  it("limits concurrent probes while half-open", async () => {
+    const breaker = createBreaker({ minimumRequests: 1 });
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerError);
+    now += 30_000;
+
+    let releaseProbe: (value: string) => void = () => {};
+    const probe = breaker.execute(() => new Promise<string>((resolve) => (releaseProbe = resolve)));
+
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    releaseProbe("ok");
+    await expect(probe).resolves.toBe("ok");
+    expect(breaker.getStatus().state).toBe("closed");
+  });
+});
+
+describe("AgentApiClient circuit breaker", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("stops calling the API once the circuit opens and reports it in health", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("", { status: 503 }));
+
+    const client = new AgentApiClient({
+      retryPolicy: { maxAttempts: 1 },
+      circuitBreaker: { minimumRequests: 2, failureRateThreshold: 0.5 },
+    });
+
+    await expect(client.getCuration("a")).rejects.toBeInstanceOf(ServerError);
+    await expect(client.getCuration("b")).rejects.toBeInstanceOf(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await expect(client.getCuration("c")).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    expect(client.getHealth().circuitBreaker.state).toBe("open");
+  });
+});
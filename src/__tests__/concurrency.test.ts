@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+
+import { allSettledWithLimit } from "../utils/concurrency.js";
+
+describe("allSettledWithLimit", () => {
+  it("runs at most `limit` tasks at a time and settles in input order", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await allSettledWithLimit([1, 2, 3, 4, 5, 6], 2, async (n) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      if (n === 3) throw new Error("boom");
+      return n * 10;
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map((r) => (r.status === "fulfilled" ? r.value : "rejected"))).toEqual([
+      10,
+      20,
+      "rejected",
+      40,
+      50,
+      60,
+    ]);
+  });
+
+  it("handles an empty list", async () => {
+    await expect(allSettledWithLimit([], 4, async () => 1)).resolves.toEqual([]);
+  });
+});
@@ -4,7 +4,7 @@ import { AgentApiClient } from "../client.js";
 import { NotFoundError } from "../errors.js";
 import { TokenBucketManager } from "../rate-limit.js";
 // Import after mocking
-import { registerCurationTool, clearProductCache } from "../tools/get-curation-list.js";
+import { registerCurationTool } from "../tools/get-curation-list.js";
 
 const mockCurationPage = {
   slug: "low-carb-cat-food",
@@ -62,7 +62,6 @@ describe("get_curation_list tool", () => {
     bucketManager = new TokenBucketManager(100, 60000);
     capturedHandler = null;
     vi.clearAllMocks();
-    clearProductCache();
 
     // Default: curation lookup succeeds (individual tests may override)
     vi.spyOn(client, "getCuration").mockResolvedValue(mockCurationPage);
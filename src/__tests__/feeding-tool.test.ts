@@ -0,0 +1,323 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { AgentApiClient } from "../client.js";
+import { NotFoundError } from "../errors.js";
+import { TokenBucketManager } from "../rate-limit.js";
+import { registerFeedingTool } from "../tools/calculate-feeding.js";
+import { registerMixedFeedingTool } from "../tools/plan-mixed-feeding.js";
+import {
+  calculateEnergyRequirement,
+  calculateRER,
+  defaultMealsPerDay,
+  describeEnergyRequirement,
+  targetWeightError,
+} from "../utils/feeding.js";
+import { calculateCarbEstimated, calculateDMB } from "../utils/nutrition.js";
+
+const PRODUCT_ID = "01HZX0000000000000000CHKN1";
+const WET_ID = "01HZX0000000000000000SLMN1";
+
+const detail = (overrides: Record<string, unknown> = {}) => ({
+  product: {
+    id: PRODUCT_ID,
+    name: "Chicken Delight",
+    brand: "Test Brand",
+    detailUrl: `https://bowlly.net/products/${PRODUCT_ID}`,
+    imageUrl: `https://bowlly.net/images/${PRODUCT_ID}.jpg`,
+    form: "dry",
+    lifeStageTags: ["adult"],
+    conditionTags: [],
+    nutrition: { protein: 36, fat: 16, fiber: 3, moisture: 10 },
+    ingredientsPreview: ["chicken"],
+    ingredientsFull: ["chicken"],
+    energyKcalPerKg: 3600,
+    hasOffer: false,
+    ...overrides,
+  },
+});
+
+describe("energy requirement", () => {
+  it("computes RER from body weight", () => {
+    expect(calculateRER(1)).toBe(70);
+    expect(Math.round(calculateRER(4.5))).toBe(216);
+  });
+
+  it("applies MER factors by life stage, neuter status, activity and goal", () => {
+    const adult = { catWeightKg: 4.5, catAgeMonths: 48, neutered: true };
+
+    expect(calculateEnergyRequirement(adult)).toEqual({
+      lifeStage: "adult",
+      rerKcalPerDay: 216,
+      merFactor: 1.2,
+      merBasis: "neutered adult",
+      kcalPerDay: 260,
+    });
+    expect(calculateEnergyRequirement({ ...adult, neutered: false }).merFactor).toBe(1.4);
+    expect(calculateEnergyRequirement({ ...adult, activityLevel: "low" }).merFactor).toBe(1.0);
+    expect(calculateEnergyRequirement({ ...adult, activityLevel: "high" }).merFactor).toBe(1.6);
+    expect(calculateEnergyRequirement({ ...adult, weightGoal: "lose", activityLevel: "high" }).merFactor).toBe(0.8);
+    expect(calculateEnergyRequirement({ ...adult, weightGoal: "gain" }).merFactor).toBe(1.4);
+  });
+
+  it("calculates weight loss energy at the target weight when given", () => {
+    const overweight = { catWeightKg: 6, catAgeMonths: 60, neutered: true, weightGoal: "lose" as const };
+    const atTarget = { ...overweight, targetWeightKg: 4.5 };
+
+    // 0.8 × RER(4.5 kg), not 0.8 × RER(6 kg) = 215
+    expect(calculateEnergyRequirement(atTarget)).toMatchObject({ rerKcalPerDay: 216, kcalPerDay: 173 });
+    expect(describeEnergyRequirement(atTarget, calculateEnergyRequirement(atTarget)).assumptions[0]).toBe(
+      "Resting energy requirement 70 × 4.5 kg^0.75 = 216 kcal/day"
+    );
+
+    const { limitations } = describeEnergyRequirement(overweight, calculateEnergyRequirement(overweight));
+    expect(limitations).toContainEqual(expect.stringContaining("calculated from the current weight"));
+
+    // A target weight only applies to weight loss
+    expect(calculateEnergyRequirement({ ...atTarget, weightGoal: "maintain" }).rerKcalPerDay).toBe(268);
+  });
+
+  it("rejects target weights that contradict the weight goal", () => {
+    const cat = { catWeightKg: 5, catAgeMonths: 60, neutered: true };
+
+    expect(targetWeightError({ ...cat, weightGoal: "lose", targetWeightKg: 4.5 })).toBeUndefined();
+    expect(targetWeightError({ ...cat, weightGoal: "lose", targetWeightKg: 6 })).toBe(
+      "targetWeightKg must be below catWeightKg when weightGoal is lose"
+    );
+    expect(targetWeightError({ ...cat, weightGoal: "gain", targetWeightKg: 5.5 })).toBeUndefined();
+    expect(targetWeightError({ ...cat, weightGoal: "gain", targetWeightKg: 4 })).toContain("must be above");
+    expect(targetWeightError({ ...cat, targetWeightKg: 5 })).toBeUndefined();
+    expect(targetWeightError({ ...cat, weightGoal: "maintain", targetWeightKg: 4 })).toContain("set weightGoal");
+
+    const gaining = { ...cat, weightGoal: "gain" as const, targetWeightKg: 5.5 };
+    expect(describeEnergyRequirement(gaining, calculateEnergyRequirement(gaining)).limitations).toContainEqual(
+      expect.stringContaining("Weight gain energy was calculated from the current weight")
+    );
+  });
+
+  it("uses growth factors for kittens whatever the goal", () => {
+    expect(calculateEnergyRequirement({ catWeightKg: 1.5, catAgeMonths: 3, neutered: false }).merFactor).toBe(3.0);
+    expect(
+      calculateEnergyRequirement({ catWeightKg: 2.5, catAgeMonths: 8, neutered: true, weightGoal: "lose" })
+    ).toMatchObject({ lifeStage: "kitten", merFactor: 2.5 });
+  });
+
+  it("suggests more meals for younger kittens", () => {
+    expect([3, 8, 24].map(defaultMealsPerDay)).toEqual([4, 3, 2]);
+  });
+});
+
+describe("calculate_feeding tool", () => {
+  let client: AgentApiClient;
+  let bucketManager: TokenBucketManager;
+  let capturedHandler: ((args: unknown) => Promise<{ content: Array<{ type: "text"; text: string }> }>) | null =
+    null;
+
+  const mockServer = {
+    tool: (name: string, _description: string, _schema: unknown, handler: unknown) => {
+      if (name === "calculate_feeding") {
+        capturedHandler = handler as typeof capturedHandler;
+      }
+    },
+  };
+
+  const call = async (args: Record<string, unknown>) => {
+    registerFeedingTool(
+      mockServer as unknown as Parameters<typeof registerFeedingTool>[0],
+      client,
+      bucketManager,
+      () => "test-client"
+    );
+    if (!capturedHandler) throw new Error("Tool handler was not registered");
+    const result = await capturedHandler(args);
+    return JSON.parse(result.content[0].text);
+  };
+
+  beforeEach(() => {
+    client = new AgentApiClient();
+    bucketManager = new TokenBucketManager(100, 60000);
+    capturedHandler = null;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns grams, cups and meals for an adult cat", async () => {
+    vi.spyOn(client, "getProductDetail").mockResolvedValue(detail({ energyKcalPerCup: 400 }));
+
+    const { data } = await call({ productId: PRODUCT_ID, catWeightKg: 4.5, catAgeMonths: 48, neutered: true });
+
+    expect(data.energyRequirement).toMatchObject({ kcalPerDay: 260, merBasis: "neutered adult" });
+    expect(data.productEnergy).toEqual({ kcalPerKg: 3600, source: "reported" });
+    expect(data.daily).toEqual({ grams: 72, cups: 0.65 });
+    expect(data.meals).toEqual({ perDay: 2, gramsPerMeal: 36 });
+    expect(data.assumptions[0]).toBe("Resting energy requirement 70 × 4.5 kg^0.75 = 216 kcal/day");
+    expect(data.disclaimer).toContain("not veterinary advice");
+  });
+
+  it("estimates calorie content from nutrition and counts cans for wet food", async () => {
+    vi.spyOn(client, "getProductDetail").mockResolvedValue(
+      detail({
+        form: "wet",
+        energyKcalPerKg: undefined,
+        energyKcalPerCan: 85,
+        nutrition: { protein: 11, fat: 5, fiber: 1, moisture: 80 },
+      })
+    );
+
+    const { data } = await call({
+      productId: PRODUCT_ID,
+      catWeightKg: 1.5,
+      catAgeMonths: 3,
+      neutered: false,
+      weightGoal: "lose",
+    });
+
+    // 11 * 3.5 + 5 * 8.5 + 0.5 * 3.5 (carbs with 2.5% default ash) = 82.75 kcal/100g
+    expect(data.productEnergy).toEqual({ kcalPerKg: 828, source: "estimated" });
+    expect(data.energyRequirement).toMatchObject({ merFactor: 3, kcalPerDay: 285 });
+    expect(data.daily).toEqual({ grams: 344, cans: 3.35 });
+    expect(data.meals).toEqual({ perDay: 4, gramsPerMeal: 86 });
+    expect(data.assumptions.some((item: string) => item.startsWith("Calorie content not reported"))).toBe(true);
+    expect(data.limitations).toContain("Weight goals are not applied to growing kittens; consult a veterinarian");
+  });
+
+  it("reports missing calorie data instead of guessing", async () => {
+    vi.spyOn(client, "getProductDetail").mockResolvedValue(detail({ energyKcalPerKg: undefined, nutrition: {} }));
+
+    const { data } = await call({ productId: PRODUCT_ID, catWeightKg: 4, catAgeMonths: 60, neutered: true });
+
+    expect(data.productEnergy).toBeUndefined();
+    expect(data.daily).toEqual({});
+    expect(data.limitations).toContain(
+      "Calorie content unavailable and cannot be estimated; grams per day not calculated"
+    );
+  });
+
+  it("rejects a weight loss target above the current weight", async () => {
+    const detailSpy = vi.spyOn(client, "getProductDetail").mockResolvedValue(detail());
+
+    const response = await call({
+      productId: PRODUCT_ID,
+      catWeightKg: 4.5,
+      catAgeMonths: 48,
+      neutered: true,
+      weightGoal: "lose",
+      targetWeightKg: 6,
+    });
+
+    expect(response.error).toMatchObject({
+      type: "VALIDATION",
+      message: "targetWeightKg must be below catWeightKg when weightGoal is lose",
+    });
+    expect(detailSpy).not.toHaveBeenCalled();
+  });
+
+  it("returns not found for unknown products", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(client, "getProductDetail").mockRejectedValue(new NotFoundError("Product", PRODUCT_ID));
+
+    const response = await call({ productId: PRODUCT_ID, catWeightKg: 4, catAgeMonths: 60, neutered: true });
+
+    expect(response.error.type).toBe("NOT_FOUND");
+  });
+});
+
+describe("plan_mixed_feeding tool", () => {
+  let client: AgentApiClient;
+  let capturedHandler: ((args: unknown) => Promise<{ content: Array<{ type: "text"; text: string }> }>) | null =
+    null;
+
+  const wet = detail({
+    id: WET_ID,
+    name: "Salmon Feast",
+    form: "wet",
+    nutrition: { protein: 11, fat: 5, fiber: 1, moisture: 80 },
+    energyKcalPerKg: 1000,
+    energyKcalPerCan: 85,
+  });
+  const cat = { catWeightKg: 4.5, catAgeMonths: 48, neutered: true };
+
+  const call = async (args: Record<string, unknown>) => {
+    const mockServer = {
+      tool: (name: string, _description: string, _schema: unknown, handler: unknown) => {
+        if (name === "plan_mixed_feeding") capturedHandler = handler as typeof capturedHandler;
+      },
+    };
+    registerMixedFeedingTool(
+      mockServer as unknown as Parameters<typeof registerMixedFeedingTool>[0],
+      client,
+      new TokenBucketManager(100, 60000),
+      () => "test-client"
+    );
+    if (!capturedHandler) throw new Error("Tool handler was not registered");
+    const result = await capturedHandler(args);
+    return JSON.parse(result.content[0].text);
+  };
+
+  beforeEach(() => {
+    client = new AgentApiClient();
+    capturedHandler = null;
+    vi.spyOn(client, "getProductDetail").mockImplementation(async (id) => (id === WET_ID ? wet : detail()));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("portions wet and dry food by the wet calorie share", async () => {
+    const { data } = await call({ productIds: [PRODUCT_ID, WET_ID], ...cat, wetCaloriePercent: 50 });
+
+    expect(data.energyRequirement.kcalPerDay).toBe(260);
+    expect(data.portions).toMatchObject([
+      { productId: PRODUCT_ID, caloriePercent: 50, kcalPerDay: 130, gramsPerDay: 36 },
+      { productId: WET_ID, caloriePercent: 50, kcalPerDay: 130, gramsPerDay: 130, cansPerDay: 1.53 },
+    ]);
+    expect(data.blend.totalGramsPerDay).toBe(166);
+    // Weighted by grams, the wet food dominates the as-fed profile
+    expect(data.blend.asFed).toEqual({ protein: 16.4, fat: 7.4, fiber: 1.4, moisture: 64.8 });
+    expect(data.blend.dmb.protein).toBe(46.7);
+    expect(data.blend.carbohydrates.isEstimated).toBe(true);
+  });
+
+  it("matches single-product analysis when one food gets all the calories", async () => {
+    const { data } = await call({ productIds: [PRODUCT_ID, WET_ID], ...cat, calorieSplit: [100, 0] });
+
+    const nutrition = detail().product.nutrition;
+    const carb = calculateCarbEstimated(nutrition, { form: "dry" });
+    expect(data.portions[1].gramsPerDay).toBe(0);
+    expect(data.blend.asFed).toEqual(nutrition);
+    expect(data.blend.carbohydrates.asFed).toBe(carb.value);
+    expect(data.blend.dmb).toEqual(calculateDMB(nutrition, carb.value));
+  });
+
+  it.each([
+    [{ calorieSplit: [60, 30] }, "calorieSplit needs one percentage per product, adding up to 100"],
+    [{ calorieSplit: [50, 50], wetCaloriePercent: 50 }, "Pass either calorieSplit or wetCaloriePercent, not both"],
+    [{ productIds: [PRODUCT_ID, PRODUCT_ID] }, "Each product can only be listed once"],
+    [{ targetWeightKg: 3.5 }, "targetWeightKg differs from catWeightKg; set weightGoal to lose or gain"],
+  ])("rejects an invalid plan %o", async (args, message) => {
+    const response = await call({ productIds: [PRODUCT_ID, WET_ID], ...cat, ...args });
+
+    expect(response.error).toMatchObject({ type: "VALIDATION", message });
+  });
+
+  it("names the products that were not found", async () => {
+    vi.mocked(client.getProductDetail).mockImplementation(async (id) => {
+      if (id === WET_ID) throw new NotFoundError("Product", id);
+      return detail();
+    });
+
+    const response = await call({ productIds: [PRODUCT_ID, WET_ID], ...cat });
+
+    expect(response.error).toMatchObject({ type: "NOT_FOUND", message: `Product not found: ${WET_ID}` });
+  });
+
+  it("needs a wet product for a wet calorie share", async () => {
+    vi.mocked(client.getProductDetail).mockResolvedValue(detail());
+
+    const response = await call({ productIds: [PRODUCT_ID, WET_ID], ...cat, wetCaloriePercent: 30 });
+
+    expect(response.error.message).toContain("wetCaloriePercent needs both wet and dry products");
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { AgentApiClient } from "../client.js";
+
+const curationList = (slugs: string[]) => ({
+  slugs,
+  count: slugs.length,
+  meta: { apiVersion: "1.0.0", timestamp: "2026-01-01T00:00:00.000Z" },
+});
+
+const jsonResponse = (body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status: 200, headers });
+
+describe("AgentApiClient response cache", () => {
+  let now: number;
+  let fetchMock: ReturnType<typeof vi.spyOn<typeof globalThis, "fetch">>;
+
+  const createClient = (ttlMs = 60_000, maxEntries = 10) =>
+    new AgentApiClient({
+      retryPolicy: { maxAttempts: 1 },
+      cache: { now: () => now, maxEntries, ttlByRoute: { listCurations: ttlMs, getCuration: ttlMs } },
+    });
+
+  const requestHeaders = (call: number) => fetchMock.mock.calls[call][1]?.headers as Record<string, string>;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    fetchMock = vi.spyOn(globalThis, "fetch");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("serves repeated GETs from cache within the route TTL", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(curationList(["a"])));
+    const client = createClient();
+
+    await client.listCurations();
+    const second = await client.listCurations();
+
+    expect(second.slugs).toEqual(["a"]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(client.getHealth().cache).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+  });
+
+  it("refetches once the TTL has expired", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(curationList(["a"])))
+      .mockResolvedValueOnce(jsonResponse(curationList(["b"])));
+    const client = createClient(1_000);
+
+    await client.listCurations();
+    now += 1_001;
+    const refreshed = await client.listCurations();
+
+    expect(refreshed.slugs).toEqual(["b"]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("honours Cache-Control max-age over the route TTL", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(curationList(["a"]), { "Cache-Control": "max-age=5" }));
+    const client = createClient(60_000);
+
+    await client.listCurations();
+    now += 5_001;
+    await client.listCurations();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not store no-store responses", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(curationList(["a"]), { "Cache-Control": "no-store" }));
+    const client = createClient();
+
+    await client.listCurations();
+    await client.listCurations();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("revalidates stale entries with If-None-Match and reuses them on 304", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(curationList(["a"]), { ETag: '"v1"', "Last-Modified": "Mon, 01 Jan 2026" }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const client = createClient(1_000);
+
+    await client.listCurations();
+    now += 1_001;
+    const revalidated = await client.listCurations();
+
+    expect(revalidated.slugs).toEqual(["a"]);
+    expect(requestHeaders(1)["If-None-Match"]).toBe('"v1"');
+    expect(requestHeaders(1)["If-Modified-Since"]).toBe("Mon, 01 Jan 2026");
+    expect(client.getHealth().cache.revalidations).toBe(1);
+
+    // The 304 refreshed the entry, so the next call is a plain hit
+    await client.listCurations();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("keys entries by URL and evicts the least recently used", async () => {
+    fetchMock.mockImplementation(async (url) => {
+      const slug = String(url).split("/").pop() ?? "";
+      return jsonResponse({
+        slug,
+        title: slug,
+        description: "",
+        tldr: [],
+        criteria: [],
+        methodology: "",
+        recommendedProductIds: [],
+        updatedAt: "2026-01-01",
+        canonicalUrl: `/best/${slug}`,
+        meta: { apiVersion: "1.0.0", timestamp: "2026-01-01T00:00:00.000Z" },
+      });
+    });
+    const client = createClient(60_000, 2);
+
+    await client.getCuration("a");
+    await client.getCuration("b");
+    await client.getCuration("a"); // touch a, b becomes least recently used
+    await client.getCuration("c"); // evicts b
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(client.getHealth().cache.entries).toBe(2);
+
+    await client.getCuration("b");
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("never caches POST requests", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({ products: [], compared: 0, requested: 2 }));
+    const client = new AgentApiClient({ retryPolicy: { maxAttempts: 1 } });
+
+    await client.compareProducts(["a", "b"]);
+    await client.compareProducts(["a", "b"]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,236 @@
+import http from "node:http";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { describe, it, expect, afterEach } from "vitest";
+import { z } from "zod";
+
+import { startHttpServer, type HttpServerHandle, type HttpServerOptions } from "../transports/http.js";
+
+const initializeRequest = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test-client", version: "1.0.0" },
+  },
+};
+
+const mcpHeaders = {
+  "Content-Type": "application/json",
+  Accept: "application/json, text/event-stream",
+};
+
+describe("HTTP transport", () => {
+  let handle: HttpServerHandle | null = null;
+  const createdSessions: string[] = [];
+  const createdServers: McpServer[] = [];
+
+  const start = async (options: Partial<HttpServerOptions> = {}) => {
+    handle = await startHttpServer({
+      host: "127.0.0.1",
+      port: 0,
+      createSessionServer: (sessionId) => {
+        createdSessions.push(sessionId);
+        const server = new McpServer({ name: "test", version: "0.0.0" });
+        server.tool("echo", { text: z.string() }, async ({ text }) => ({ content: [{ type: "text", text }] }));
+        createdServers.push(server);
+        return server;
+      },
+      ...options,
+    });
+    return `http://127.0.0.1:${handle.port}`;
+  };
+
+  // fetch() does not let the caller set Host, so header checks use node:http
+  const postWithHeaders = (baseUrl: string, headers: Record<string, string>) =>
+    new Promise<number>((resolve, reject) => {
+      const req = http.request(`${baseUrl}/mcp`, { method: "POST", headers: { ...mcpHeaders, ...headers } }, (res) => {
+        res.resume();
+        res.on("end", () => resolve(res.statusCode ?? 0));
+      });
+      req.on("error", reject);
+      req.end(JSON.stringify(initializeRequest));
+    });
+
+  const initialize = async (baseUrl: string) => {
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: mcpHeaders,
+      body: JSON.stringify(initializeRequest),
+    });
+    await res.text();
+    return res;
+  };
+
+  afterEach(async () => {
+    await handle?.close();
+    handle = null;
+    createdSessions.length = 0;
+    createdServers.length = 0;
+  });
+
+  it("assigns a distinct session ID to each connection", async () => {
+    const baseUrl = await start();
+
+    const res1 = await initialize(baseUrl);
+    const res2 = await initialize(baseUrl);
+
+    expect(res1.status).toBe(200);
+    expect(res2.status).toBe(200);
+
+    const id1 = res1.headers.get("mcp-session-id");
+    const id2 = res2.headers.get("mcp-session-id");
+    expect(id1).toBeTruthy();
+    expect(id2).toBeTruthy();
+    expect(id1).not.toBe(id2);
+
+    // The McpServer for each session was created with the same ID the client sees
+    expect(createdSessions).toEqual([id1, id2]);
+    expect(handle?.sessionCount).toBe(2);
+  });
+
+  it("rejects non-initialize requests without a session ID", async () => {
+    const baseUrl = await start();
+
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: mcpHeaders,
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(res.status).toBe(400);
+    expect(createdSessions).toHaveLength(0);
+  });
+
+  it("returns 404 for an unknown session ID", async () => {
+    const baseUrl = await start();
+
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { ...mcpHeaders, "mcp-session-id": "does-not-exist" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(res.status).toBe(404);
+  });
+
+  it("closes a session on DELETE", async () => {
+    const baseUrl = await start();
+
+    const res = await initialize(baseUrl);
+    const sessionId = res.headers.get("mcp-session-id") ?? "";
+    expect(handle?.sessionCount).toBe(1);
+
+    const del = await fetch(`${baseUrl}/mcp`, {
+      method: "DELETE",
+      headers: { ...mcpHeaders, "mcp-session-id": sessionId },
+    });
+    await del.text();
+
+    expect(del.status).toBe(200);
+    expect(handle?.sessionCount).toBe(0);
+  });
+
+  it("reports each closed session", async () => {
+    const closed: string[] = [];
+    const baseUrl = await start({ onSessionClosed: (sessionId) => closed.push(sessionId) });
+
+    const res = await initialize(baseUrl);
+    const sessionId = res.headers.get("mcp-session-id") ?? "";
+    const del = await fetch(`${baseUrl}/mcp`, {
+      method: "DELETE",
+      headers: { ...mcpHeaders, "mcp-session-id": sessionId },
+    });
+    await del.text();
+
+    expect(closed).toEqual([sessionId]);
+  });
+
+  it("closes all sessions on shutdown", async () => {
+    const baseUrl = await start();
+
+    await initialize(baseUrl);
+    await initialize(baseUrl);
+    expect(handle?.sessionCount).toBe(2);
+
+    await handle?.close();
+    expect(handle?.sessionCount).toBe(0);
+    handle = null;
+  });
+
+  it("rejects requests for hosts or origins that are not allowed", async () => {
+    const baseUrl = await start();
+
+    expect(await postWithHeaders(baseUrl, { Host: "evil.example:80" })).toBe(403);
+    expect(await postWithHeaders(baseUrl, { Origin: "http://evil.example" })).toBe(403);
+    expect(await postWithHeaders(baseUrl, { Origin: "http://localhost:5173" })).toBe(200);
+    expect(createdSessions).toHaveLength(1);
+  });
+
+  it("accepts configured hosts and origins", async () => {
+    const baseUrl = await start({ allowedHosts: ["mcp.example"], allowedOrigins: ["https://app.example"] });
+
+    expect(await postWithHeaders(baseUrl, { Host: "mcp.example" })).toBe(200);
+    expect(await postWithHeaders(baseUrl, { Host: "mcp.example", Origin: "https://app.example" })).toBe(200);
+    expect(await postWithHeaders(baseUrl, { Host: "mcp.example", Origin: "http://mcp.example" })).toBe(403);
+    expect(await postWithHeaders(baseUrl, {})).toBe(403);
+  });
+
+  it("rejects request bodies over the size limit with 413", async () => {
+    const baseUrl = await start();
+
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: mcpHeaders,
+      body: JSON.stringify({ ...initializeRequest, padding: "x".repeat(1024 * 1024) }),
+    });
+    await res.text();
+
+    expect(res.status).toBe(413);
+    expect(createdSessions).toHaveLength(0);
+  });
+
+  it("closes the session server when the handshake fails", async () => {
+    const baseUrl = await start();
+
+    // Without text/event-stream in Accept the transport refuses the initialize request
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify(initializeRequest),
+    });
+    await res.text();
+
+    expect(res.status).toBe(406);
+    expect(createdServers).toHaveLength(1);
+    expect(createdServers[0].isConnected()).toBe(false);
+    expect(handle?.sessionCount).toBe(0);
+  });
+
+  it("closes sessions that stay idle past the timeout", async () => {
+    const baseUrl = await start({ sessionIdleTimeoutMs: 50 });
+
+    await initialize(baseUrl);
+    expect(handle?.sessionCount).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(handle?.sessionCount).toBe(0);
+  });
+
+  it("serves tool calls over the legacy SSE endpoints", async () => {
+    const baseUrl = await start();
+    const client = new Client({ name: "sse-test", version: "1.0.0" });
+
+    await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+    expect(handle?.sessionCount).toBe(1);
+
+    const result = await client.callTool({ name: "echo", arguments: { text: "hello" } });
+    expect(result.content).toEqual([{ type: "text", text: "hello" }]);
+
+    await client.close();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+
+import { AgentApiClient } from "../client.js";
+import { IngredientIndex } from "../search/ingredient-index.js";
+
+describe("IngredientIndex", () => {
+  it("finds products by any ingredient in their full list", () => {
+    const index = new IngredientIndex();
+    index.add("a", ["Chicken", "Rice", "Corn Gluten Meal"]);
+    index.add("b", ["Salmon", "Peas"]);
+
+    expect(index.findProducts((ingredient) => ingredient.includes("corn"))).toEqual(new Set(["a"]));
+    expect(index.get("a")).toEqual(["chicken", "rice", "corn gluten meal"]);
+    expect(index.has("c")).toBe(false);
+  });
+
+  it("replaces a product's entries when it is re-indexed", () => {
+    const index = new IngredientIndex();
+    index.add("a", ["chicken", "corn"]);
+    index.add("a", ["chicken", "peas"]);
+
+    expect(index.findProducts((ingredient) => ingredient === "corn").size).toBe(0);
+    expect(index.findProducts((ingredient) => ingredient === "peas")).toEqual(new Set(["a"]));
+    expect(index.size).toBe(1);
+  });
+
+  it("keeps label order and repeated entries for position checks", () => {
+    const index = new IngredientIndex();
+    index.add("a", ["Chicken", "chicken", "Rice", "Chicken Fat"]);
+
+    expect(index.get("a")).toEqual(["chicken", "chicken", "rice", "chicken fat"]);
+    expect(index.findProducts((ingredient) => ingredient === "rice")).toEqual(new Set(["a"]));
+
+    index.remove("a");
+    expect(index.findProducts(() => true).size).toBe(0);
+  });
+
+  it("evicts the least recently used product beyond maxProducts", () => {
+    const index = new IngredientIndex({ maxProducts: 2 });
+    index.add("a", ["chicken"]);
+    index.add("b", ["salmon"]);
+    index.get("a");
+    index.add("c", ["turkey"]);
+
+    expect(index.size).toBe(2);
+    expect(index.has("a")).toBe(true);
+    expect(index.has("b")).toBe(false);
+    expect(index.findProducts((ingredient) => ingredient === "salmon").size).toBe(0);
+  });
+
+  it("is fed by the client from snapshot products, along with the name index", () => {
+    const client = new AgentApiClient({
+      snapshot: {
+        manifest: { formatVersion: 1, createdAt: "", apiVersion: "1", counts: { products: 1, curations: 0 } },
+        products: [
+          {
+            id: "a",
+            name: "A",
+            brand: "B",
+            detailUrl: "",
+            imageUrl: "",
+            form: "dry",
+            lifeStageTags: [],
+            conditionTags: [],
+            ingredientsPreview: ["chicken"],
+            ingredientsFull: ["chicken", "fish oil"],
+            hasOffer: false,
+          },
+        ],
+        curations: [],
+      },
+    });
+
+    expect(client.ingredientIndex.get("a")).toEqual(["chicken", "fish oil"]);
+    expect(client.nameIndex.products()).toEqual([{ id: "a", name: "A", brand: "B" }]);
+  });
+});
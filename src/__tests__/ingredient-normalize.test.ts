@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  ingredientMatches,
+  ingredientMentions,
+  normalizeIngredient,
+  resolveIngredient,
+} from "../ingredients/normalize.js";
+
+describe("normalizeIngredient", () => {
+  it.each([
+    ["Chicken Fat (preserved with mixed tocopherols)", "chicken fat"],
+    ["Poultry By-Product Meal", "poultry by product meal"],
+    ["Dried Potatoes", "dried potato"],
+    ["Cranberries", "cranberry"],
+    ["Green Peas", "green pea"],
+    ["Vitamin E Supplement [stabilized]", "vitamin e supplement"],
+    ["Menhaden Fish Oil", "menhaden fish oil"],
+  ])("normalizes %s", (input, expected) => {
+    expect(normalizeIngredient(input)).toBe(expected);
+  });
+});
+
+describe("resolveIngredient", () => {
+  it.each([
+    ["Deboned Chicken", "chicken"],
+    ["chicken meal", "chicken"],
+    ["Deboned Fowl", "poultry"],
+    ["Chicken Liver", "chicken organs"],
+    ["Brown Rice Flour", "rice"],
+    ["Salmon Oil", "fish oil"],
+    ["Natural Chicken Flavor", "chicken flavor"],
+  ])("resolves %s to %s", (input, canonical) => {
+    expect(resolveIngredient(input).canonical?.name).toBe(canonical);
+  });
+
+  it("leaves unknown ingredients unresolved", () => {
+    expect(resolveIngredient("Chicory Root Extract").canonical).toBeUndefined();
+  });
+});
+
+describe("ingredientMatches", () => {
+  it("does not treat chicken fat as chicken", () => {
+    expect(ingredientMatches("chicken", "Chicken Fat")).toBe(false);
+    expect(ingredientMatches("chicken", "Chicken Meal")).toBe(true);
+  });
+
+  it("matches broader terms against specific forms", () => {
+    expect(ingredientMatches("poultry", "Deboned Fowl")).toBe(true);
+    expect(ingredientMatches("poultry", "Poultry By-Product Meal")).toBe(true);
+    expect(ingredientMatches("poultry", "Chicken Liver")).toBe(true);
+    expect(ingredientMatches("fish", "Salmon Meal")).toBe(true);
+    expect(ingredientMatches("salmon", "Ocean Fish Meal")).toBe(false);
+  });
+
+  it("handles plurals and hyphens in both term and ingredient", () => {
+    expect(ingredientMatches("pea", "Green Peas")).toBe(true);
+    expect(ingredientMatches("by-product", "Chicken By-Products")).toBe(true);
+  });
+
+  it("matches generic terms wherever they appear as whole words", () => {
+    for (const liver of ["Chicken Liver", "Beef Liver", "Pork Liver"]) {
+      expect(ingredientMatches("liver", liver)).toBe(true);
+    }
+    expect(ingredientMatches("flavor", "Natural Chicken Flavor")).toBe(true);
+    expect(ingredientMatches("chicken", "Natural Chicken Flavor")).toBe(true);
+    expect(ingredientMatches("chicken", "Chicken Fat")).toBe(false);
+  });
+
+  it("keeps varieties apart while matching their broader term", () => {
+    expect(ingredientMatches("brown rice", "White Rice")).toBe(false);
+    expect(ingredientMatches("brown rice", "Brown Rice Flour")).toBe(true);
+    expect(ingredientMatches("rice", "Brewers Rice")).toBe(true);
+  });
+
+  it("falls back to whole-word matching for unknown ingredients", () => {
+    expect(ingredientMatches("chicory", "Dried Chicory Root")).toBe(true);
+    expect(ingredientMatches("corn", "Acorn Squash")).toBe(false);
+  });
+});
+
+describe("ingredientMentions", () => {
+  it("catches fats and other mentions of an excluded protein", () => {
+    expect(ingredientMentions("chicken", "Chicken Fat")).toBe(true);
+    expect(ingredientMentions("chicken", "Poultry Fat")).toBe(true);
+    expect(ingredientMentions("chicken", "Chicken Meal")).toBe(true);
+    expect(ingredientMentions("poultry", "Chicken Liver")).toBe(true);
+  });
+
+  it("still needs the term as whole words", () => {
+    expect(ingredientMentions("chicken", "Salmon Oil")).toBe(false);
+    expect(ingredientMentions("pea", "Chickpeas")).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+
+import { checkLifeStage, lifeStageForAge, normalizeLifeStages, suitsLifeStage } from "../utils/life-stage.js";
+
+describe("life stages", () => {
+  it("normalizes raw tags", () => {
+    expect(normalizeLifeStages(["Adult Maintenance", "Senior 7+", "kittens"])).toEqual(["kitten", "adult", "senior"]);
+    expect(normalizeLifeStages(["All Life Stages"])).toEqual(["all-life-stages"]);
+    expect(normalizeLifeStages(["Growth & Reproduction", "indoor"])).toEqual(["kitten"]);
+    expect(normalizeLifeStages(undefined)).toEqual([]);
+  });
+
+  it("keeps every stage named in a combined tag", () => {
+    expect(normalizeLifeStages(["Adult & Senior"])).toEqual(["adult", "senior"]);
+    expect(normalizeLifeStages(["Kitten/Adult"])).toEqual(["kitten", "adult"]);
+    expect(normalizeLifeStages(["Mature Adult"])).toEqual(["adult", "senior"]);
+    expect(suitsLifeStage(normalizeLifeStages(["Adult & Senior"]), "adult")).toBe(true);
+    expect(checkLifeStage(["Kitten/Adult"], 36).verdict).toBe("suitable");
+    expect(checkLifeStage(["Kitten/Adult"], 6).verdict).toBe("suitable");
+  });
+
+  it("treats all-life-stages foods as suitable for every stage", () => {
+    expect(suitsLifeStage(["all-life-stages"], "kitten")).toBe(true);
+    expect(suitsLifeStage(["adult"], "all-life-stages")).toBe(false);
+    expect(suitsLifeStage(["adult"], "kitten")).toBe(false);
+  });
+
+  it("maps ages to life stages", () => {
+    expect(lifeStageForAge(6)).toBe("kitten");
+    expect(lifeStageForAge(12)).toBe("adult");
+    expect(lifeStageForAge(11 * 12)).toBe("senior");
+  });
+
+  it("flags products that do not suit the cat's age", () => {
+    expect(checkLifeStage(["adult"], 3).verdict).toBe("unsuitable");
+    expect(checkLifeStage(["all life stages"], 3).verdict).toBe("suitable");
+    expect(checkLifeStage(["kitten"], 36).verdict).toBe("caution");
+    expect(checkLifeStage(["senior"], 24).verdict).toBe("caution");
+    expect(checkLifeStage(["senior 7+"], 8 * 12).verdict).toBe("suitable");
+    expect(checkLifeStage(["adult"], 14 * 12).verdict).toBe("suitable");
+    expect(checkLifeStage([], 24).verdict).toBe("unknown");
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+
+import { defaultNutrientProfiles, evaluateNutrientProfile } from "../utils/nutrient-profiles.js";
+
+describe("nutrient profiles", () => {
+  it("compares per 1000 kcal when the energy density is known", () => {
+    const report = evaluateNutrientProfile("aafco_adult", {
+      nutrients: { protein: 20, fat: 20 },
+      moisture: 10,
+      kcalPerKg: 3500,
+      form: "dry",
+    });
+
+    // 20% protein at 3500 kcal/kg is 57.1 g/1000 kcal, short of 65 g (though 22.22% DMB)
+    expect(report.checks.find((check) => check.nutrient === "protein")).toEqual({
+      nutrient: "protein",
+      verdict: "fail",
+      dmb: 22.22,
+      per1000Kcal: 57.14,
+      minimumDmb: 26,
+      minimumPer1000Kcal: 65,
+    });
+    expect(report.checks.find((check) => check.nutrient === "fat")?.verdict).toBe("pass");
+    expect(report.verdict).toBe("fails");
+  });
+
+  it("falls back to dry matter when the energy density is unknown", () => {
+    const report = evaluateNutrientProfile("fediaf_adult", { nutrients: { protein: 30 }, moisture: 10 });
+
+    expect(report.checks[0]).toMatchObject({
+      nutrient: "protein",
+      verdict: "pass",
+      dmb: 33.33,
+      note: "Energy density unknown; compared on a dry-matter basis",
+    });
+  });
+
+  it("reports unstated nutrients as unknown, never as passing", () => {
+    const report = evaluateNutrientProfile("aafco_growth", {
+      nutrients: { protein: 40, fat: 20 },
+      moisture: 10,
+      kcalPerKg: 4000,
+    });
+
+    expect(report.summary).toEqual({ pass: 2, fail: 0, unknown: 6 });
+    expect(report.verdict).toBe("undetermined");
+    expect(report.checks.find((check) => check.nutrient === "calcium")).toMatchObject({
+      verdict: "unknown",
+      note: "Not stated in the guaranteed analysis",
+    });
+  });
+
+  it("uses the higher taurine minimum for wet food", () => {
+    const wet = evaluateNutrientProfile("aafco_adult", {
+      nutrients: { taurine: 0.04 },
+      moisture: 80,
+      kcalPerKg: 1000,
+      form: "wet",
+    });
+    const dry = evaluateNutrientProfile("aafco_adult", {
+      nutrients: { taurine: 0.04 },
+      moisture: 10,
+      kcalPerKg: 1000,
+      form: "dry",
+    });
+
+    const taurine = (report: typeof wet) => report.checks.find((check) => check.nutrient === "taurine");
+    expect(taurine(wet)).toMatchObject({ verdict: "fail", per1000Kcal: 0.4, minimumPer1000Kcal: 0.5 });
+    expect(taurine(dry)).toMatchObject({ verdict: "pass", minimumPer1000Kcal: 0.25 });
+  });
+
+  it("defaults to growth profiles for kitten foods", () => {
+    expect(defaultNutrientProfiles(true)).toEqual(["aafco_growth", "fediaf_growth"]);
+    expect(defaultNutrientProfiles(false)).toEqual(["aafco_adult", "fediaf_adult"]);
+  });
+});
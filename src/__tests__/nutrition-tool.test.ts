@@ -114,6 +114,167 @@ describe("analyze_nutrition tool", () => {
     expect(Array.isArray(content.data.limitations)).toBe(true);
   });
 
+  it("breaks down metabolizable energy by macronutrient", async () => {
+    vi.spyOn(client, "getProductDetail").mockResolvedValue({
+      id: "prod-123",
+      name: "Premium Cat Food",
+      form: "dry",
+      nutrition: { protein: 40, fat: 20, fiber: 3, moisture: 10, ash: 8 },
+      energyKcalPerKg: 3700,
+      energyKcalPerCup: 420,
+      ingredientsFull: ["chicken"],
+    });
+
+    registerAnalyzeNutritionTool(
+      createMockServer() as Parameters<typeof registerAnalyzeNutritionTool>[0],
+      client,
+      bucketManager,
+      getClientId
+    );
+    const { data } = JSON.parse((await getHandler()({ productId: "prod-123" })).content[0].text);
+
+    // 40 * 3.5 + 20 * 8.5 + 19 * 3.5 = 376.5 kcal/100g
+    expect(data.energy).toEqual({
+      estimatedKcalPerKg: 3765,
+      reportedKcalPerKg: 3700,
+      kcalPerCup: 420,
+      caloriesFrom: { protein: 37.2, fat: 45.2, carbohydrate: 17.7 },
+      discrepancyPercent: 1.8,
+    });
+    expect(data.assumptions).toContain(
+      "Metabolizable energy estimated with modified Atwater factors (protein 3.5, fat 8.5, carbohydrate 3.5 kcal/g)"
+    );
+    expect(data.limitations.some((item: string) => item.includes("kcal/kg"))).toBe(false);
+  });
+
+  it("flags a large gap between estimated and reported energy", async () => {
+    vi.spyOn(client, "getProductDetail").mockResolvedValue({
+      id: "prod-123",
+      name: "Premium Cat Food",
+      form: "dry",
+      nutrition: { protein: 40, fat: 20, fiber: 3, moisture: 10, ash: 8 },
+      energyKcalPerKg: 3000,
+    });
+
+    registerAnalyzeNutritionTool(
+      createMockServer() as Parameters<typeof registerAnalyzeNutritionTool>[0],
+      client,
+      bucketManager,
+      getClientId
+    );
+    const { data } = JSON.parse((await getHandler()({ productId: "prod-123" })).content[0].text);
+
+    expect(data.energy.discrepancyPercent).toBe(25.5);
+    expect(data.limitations).toContain(
+      "Estimated energy (3765 kcal/kg) differs from the reported 3000 kcal/kg by 25.5%; guaranteed analysis values are minimums/maximums, so the calorie distribution is approximate"
+    );
+  });
+
+  it("checks kitten foods against growth nutrient profiles", async () => {
+    vi.spyOn(client, "getProductDetail").mockResolvedValue({
+      id: "prod-123",
+      name: "Kitten Formula",
+      form: "dry",
+      lifeStageTags: ["kitten"],
+      nutrition: { protein: 40, fat: 20, fiber: 3, moisture: 10, ash: 8 },
+      energyKcalPerKg: 3700,
+    });
+
+    registerAnalyzeNutritionTool(
+      createMockServer() as Parameters<typeof registerAnalyzeNutritionTool>[0],
+      client,
+      bucketManager,
+      getClientId
+    );
+    const { data } = JSON.parse((await getHandler()({ productId: "prod-123" })).content[0].text);
+
+    expect(data.nutrientAdequacy.map((report: { profile: string }) => report.profile)).toEqual([
+      "aafco_growth",
+      "fediaf_growth",
+    ]);
+    // 40% protein at 3700 kcal/kg is 108.11 g/1000 kcal
+    expect(data.nutrientAdequacy[0].checks[0]).toMatchObject({
+      nutrient: "protein",
+      verdict: "pass",
+      per1000Kcal: 108.11,
+    });
+    expect(data.nutrientAdequacy[0]).toMatchObject({
+      verdict: "undetermined",
+      summary: { pass: 2, fail: 0, unknown: 6 },
+    });
+    expect(data.limitations).toContain(
+      "Nutrient adequacy undetermined for calcium, phosphorus, magnesium, sodium, taurine, linoleicAcid: not stated in the available guaranteed analysis"
+    );
+  });
+
+  it("checks only the requested nutrient profiles", async () => {
+    vi.spyOn(client, "getProductDetail").mockResolvedValue({
+      id: "prod-123",
+      name: "Kitten Formula",
+      form: "dry",
+      lifeStageTags: ["kitten"],
+      nutrition: { protein: 20, fat: 8, moisture: 10 },
+      energyKcalPerKg: 3500,
+    });
+
+    registerAnalyzeNutritionTool(
+      createMockServer() as Parameters<typeof registerAnalyzeNutritionTool>[0],
+      client,
+      bucketManager,
+      getClientId
+    );
+    const { data } = JSON.parse(
+      (await getHandler()({ productId: "prod-123", nutrientProfiles: ["aafco_adult"] })).content[0].text
+    );
+
+    expect(data.nutrientAdequacy).toHaveLength(1);
+    expect(data.nutrientAdequacy[0]).toMatchObject({ profile: "aafco_adult", verdict: "fails" });
+  });
+
+  it("carries minerals and fatty acids into the analysis", async () => {
+    vi.spyOn(client, "getProductDetail").mockResolvedValue({
+      id: "prod-123",
+      name: "Complete Adult",
+      form: "dry",
+      lifeStageTags: ["adult"],
+      nutrition: {
+        protein: 32,
+        fat: 15,
+        fiber: 3,
+        moisture: 10,
+        ash: 7,
+        calcium: 1.2,
+        phosphorus: 1.0,
+        magnesium: 0.09,
+        sodium: 0.4,
+        taurine: 0.2,
+        omega3: 0.5,
+        omega6: 3.0,
+      },
+      energyKcalPerKg: 3800,
+    });
+
+    registerAnalyzeNutritionTool(
+      createMockServer() as Parameters<typeof registerAnalyzeNutritionTool>[0],
+      client,
+      bucketManager,
+      getClientId
+    );
+    const { data } = JSON.parse((await getHandler()({ productId: "prod-123" })).content[0].text);
+
+    expect(data.asFed).toMatchObject({ ash: 7, calcium: 1.2, phosphorus: 1.0, omega3: 0.5, omega6: 3.0 });
+    expect(data.carbohydrates.isEstimated).toBe(false);
+    // 1% phosphorus at 3800 kcal/kg is 2.63 g/1000 kcal
+    expect(data.minerals).toEqual({ calciumPhosphorusRatio: 1.2, phosphorusDmb: 1.11, phosphorusPer1000Kcal: 2.63 });
+    expect(data.nutrientAdequacy[0]).toMatchObject({
+      profile: "aafco_adult",
+      verdict: "meets",
+      summary: { pass: 8, fail: 0, unknown: 0 },
+    });
+    expect(data.assumptions).toContain("Omega-6 fatty acids checked against the linoleic acid minimum");
+    expect(data.limitations.some((item: string) => item.startsWith("Nutrient adequacy undetermined"))).toBe(false);
+  });
+
   it("handles missing nutrition data", async () => {
     // Mock product with partial nutrition (no ash)
     vi.spyOn(client, "getProductDetail").mockResolvedValue({
@@ -252,6 +413,38 @@ describe("analyze_nutrition tool", () => {
     expect(unknown.categories).toContain("other");
   });
 
+  it("classifies label spellings through the ingredient vocabulary", async () => {
+    vi.spyOn(client, "getProductDetail").mockResolvedValue({
+      id: "prod-790",
+      name: "Label Spellings",
+      nutrition: { protein: 35, moisture: 10 },
+      ingredientsFull: [
+        "Deboned Fowl",
+        "Chicken Fat (preserved with mixed tocopherols)",
+        "Poultry By-Product Meal",
+        "Dried Potatoes",
+      ],
+    });
+
+    const mockServer = createMockServer();
+    registerAnalyzeNutritionTool(
+      mockServer as Parameters<typeof registerAnalyzeNutritionTool>[0],
+      client,
+      bucketManager,
+      getClientId
+    );
+
+    const result = await getHandler()({ productId: "prod-790" });
+    const content = JSON.parse(result.content[0].text);
+
+    expect(content.data.ingredients.topIngredients).toEqual([
+      { name: "Deboned Fowl", canonicalName: "poultry", categories: ["animalProtein"] },
+      { name: "Chicken Fat (preserved with mixed tocopherols)", canonicalName: "chicken fat", categories: ["other"] },
+      { name: "Poultry By-Product Meal", canonicalName: "poultry by-product", categories: ["animalProtein"] },
+      { name: "Dried Potatoes", canonicalName: "potato", categories: ["grainStarch"] },
+    ]);
+  });
+
   it("includes rate limit info in response", async () => {
     vi.spyOn(client, "getProductDetail").mockResolvedValue({
       id: "prod-123",
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
-import { TokenBucket, TokenBucketManager } from "../rate-limit.js";
+import { resolveClientId, TokenBucket, TokenBucketManager, withRateLimit } from "../rate-limit.js";
+import { createSuccessResponse } from "../utils/response-helpers.js";
 
 describe("TokenBucket", () => {
   beforeEach(() => {
@@ -74,6 +75,23 @@ describe("TokenBucket", () => {
     vi.useRealTimers();
   });
 
+  it("needs a whole token, not a fractional refill", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now());
+
+    const bucket = new TokenBucket(60, 60_000);
+    for (let i = 0; i < 60; i++) bucket.consume();
+
+    // Half a second refills half a token
+    vi.advanceTimersByTime(500);
+    expect(bucket.consume().allowed).toBe(false);
+
+    vi.advanceTimersByTime(500);
+    expect(bucket.consume()).toMatchObject({ allowed: true, remaining: 0 });
+
+    vi.useRealTimers();
+  });
+
   it("resetEpochMs is approximately lastRefill + windowMs", () => {
     vi.useFakeTimers();
     const now = Date.now();
@@ -199,4 +217,56 @@ describe("TokenBucketManager", () => {
 
     vi.useRealTimers();
   });
+
+  it("drops a client's bucket on remove", () => {
+    const manager = new TokenBucketManager(5, 60_000);
+
+    manager.consume("session:a");
+    manager.consume("session:b");
+    expect(manager.size).toBe(2);
+
+    manager.remove("session:a");
+    expect(manager.size).toBe(1);
+    expect(manager.consume("session:a").remaining).toBe(4);
+  });
+});
+
+describe("resolveClientId", () => {
+  it("prefers the authenticated principal", () => {
+    expect(resolveClientId({ sessionId: "s-1", authInfo: { clientId: "agent-42" } }, "fallback")).toBe(
+      "principal:agent-42"
+    );
+  });
+
+  it("uses the MCP session when no principal is present", () => {
+    expect(resolveClientId({ sessionId: "s-1" }, "fallback")).toBe("session:s-1");
+  });
+
+  it("falls back to the server session, then a default", () => {
+    expect(resolveClientId(undefined, "fallback")).toBe("session:fallback");
+    expect(resolveClientId({})).toBe("default-client");
+  });
+});
+
+describe("withRateLimit (per-client)", () => {
+  it("tracks each MCP session in its own bucket", async () => {
+    const manager = new TokenBucketManager(2, 60_000);
+    const handler = withRateLimit(
+      manager,
+      (context) => resolveClientId(context),
+      async (_args: Record<string, never>, rateLimit) => createSuccessResponse({}, rateLimit)
+    );
+
+    const parse = (res: { content: Array<{ text: string }> }) => JSON.parse(res.content[0].text);
+
+    // Session A spends its whole budget
+    expect(parse(await handler({}, { sessionId: "a" })).rateLimit.remaining).toBe(1);
+    expect(parse(await handler({}, { sessionId: "a" })).rateLimit.remaining).toBe(0);
+    expect((await handler({}, { sessionId: "a" })).isError).toBe(true);
+
+    // Session B reports its own untouched bucket
+    const resultB = parse(await handler({}, { sessionId: "b" }));
+    expect(resultB.rateLimit.remaining).toBe(1);
+    expect(resultB.rateLimit.limit).toBe(2);
+  });
 });
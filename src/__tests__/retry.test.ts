@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { AgentApiClient } from "../client.js";
+import { NotFoundError, RateLimitError, ServerError, TimeoutError } from "../errors.js";
+import { computeBackoffDelay, withRetry, type RetryPolicy } from "../retry.js";
+
+const policy: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 100,
+  maxDelayMs: 1_000,
+  deadlineMs: 10_000,
+  jitterRatio: 0,
+};
+
+const mockProductResponse = {
+  product: {
+    id: "01HQXYZ1234567890ABCDEFGHJ",
+    name: "Test Food",
+    brand: "Test Brand",
+    detailUrl: "https://bowlly.net/products/test?src=agent",
+    imageUrl: "https://bowlly.net/images/test.jpg",
+    form: "dry",
+    lifeStageTags: [],
+    conditionTags: [],
+    ingredientsPreview: [],
+    ingredientsFull: [],
+    hasOffer: false,
+  },
+};
+
+describe("computeBackoffDelay", () => {
+  it("doubles the delay per retry up to maxDelayMs", () => {
+    expect(computeBackoffDelay(1, policy)).toBe(100);
+    expect(computeBackoffDelay(2, policy)).toBe(200);
+    expect(computeBackoffDelay(3, policy)).toBe(400);
+    expect(computeBackoffDelay(5, policy)).toBe(1_000);
+  });
+
+  it("randomizes the jittered fraction of the delay", () => {
+    const jittered = { ...policy, jitterRatio: 0.5 };
+    expect(computeBackoffDelay(2, jittered, () => 0)).toBe(100);
+    expect(computeBackoffDelay(2, jittered, () => 1)).toBe(200);
+  });
+});
+
+describe("withRetry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("retries retryable errors with exponential backoff", async () => {
+    const operation = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new ServerError(503))
+      .mockRejectedValueOnce(new TimeoutError(8_000))
+      .mockResolvedValue("ok");
+
+    const promise = withRetry(operation, policy);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(operation).toHaveBeenCalledTimes(3);
+
+    await expect(promise).resolves.toBe("ok");
+  });
+
+  it("does not retry non-retryable errors", async () => {
+    const operation = vi.fn<() => Promise<string>>().mockRejectedValue(new NotFoundError("Product", "x"));
+
+    await expect(withRetry(operation, policy)).rejects.toBeInstanceOf(NotFoundError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops after maxAttempts and throws the last error", async () => {
+    const operation = vi.fn<() => Promise<string>>().mockRejectedValue(new ServerError(502));
+
+    const promise = withRetry(operation, policy);
+    const assertion = expect(promise).rejects.toBeInstanceOf(ServerError);
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    expect(operation).toHaveBeenCalledTimes(4);
+  });
+
+  it("honours Retry-After from RateLimitError", async () => {
+    const operation = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new RateLimitError(3_000))
+      .mockResolvedValue("ok");
+
+    const promise = withRetry(operation, policy);
+
+    // Backoff alone would retry after 100ms; Retry-After wins
+    await vi.advanceTimersByTimeAsync(2_999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+
+    await expect(promise).resolves.toBe("ok");
+  });
+
+  it("stops waiting as soon as the signal aborts during a backoff delay", async () => {
+    const operation = vi.fn<() => Promise<string>>().mockRejectedValueOnce(new ServerError(503)).mockResolvedValue("ok");
+    const controller = new AbortController();
+
+    const promise = withRetry(operation, { ...policy, baseDelayMs: 5_000 }, undefined, controller.signal);
+    const assertion = expect(promise).rejects.toMatchObject({ name: "AbortError" });
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await assertion;
+
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up when the next delay would exceed the deadline", async () => {
+    const operation = vi.fn<() => Promise<string>>().mockRejectedValue(new RateLimitError(60_000));
+
+    await expect(withRetry(operation, policy)).rejects.toBeInstanceOf(RateLimitError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("AgentApiClient retries", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("retries getProductDetail on 503 using the injected clock", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(new Response("unavailable", { status: 503 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockProductResponse), { status: 200 }));
+
+    const sleeps: number[] = [];
+    const client = new AgentApiClient({
+      retryPolicy: { ...policy },
+      retryClock: {
+        now: () => 0,
+        sleep: async (ms) => {
+          sleeps.push(ms);
+        },
+        random: () => 0,
+      },
+    });
+
+    const result = await client.getProductDetail(mockProductResponse.product.id);
+
+    expect(result.product.name).toBe("Test Food");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sleeps).toEqual([100]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+
+import { decodeSearchCursor, encodeSearchCursor, searchFingerprint } from "../search/cursor.js";
+
+describe("search cursors", () => {
+  const secret = "test-secret";
+  const cursor = { query: searchFingerprint({ form: "dry" }), offset: 40, skip: 3, returned: 13 };
+
+  it("round-trips through an opaque token", () => {
+    const token = encodeSearchCursor(cursor, secret);
+
+    expect(token).not.toContain("40");
+    expect(decodeSearchCursor(token, secret)).toEqual(cursor);
+  });
+
+  it("rejects tokens that were modified or signed with another secret", () => {
+    const token = encodeSearchCursor(cursor, secret);
+    const [, signature] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ v: 1, q: cursor.query, o: 0, s: 0, r: 0 })).toString("base64url");
+
+    expect(decodeSearchCursor(`${forged}.${signature}`, secret)).toBeUndefined();
+    expect(decodeSearchCursor(token, "other-secret")).toBeUndefined();
+    expect(decodeSearchCursor("10", secret)).toBeUndefined();
+    expect(decodeSearchCursor(`${token}.extra`, secret)).toBeUndefined();
+  });
+
+  it("fingerprints searches independently of key order and omitted parameters", () => {
+    expect(searchFingerprint({ form: "dry", sortBy: "protein_desc", query: undefined })).toBe(
+      searchFingerprint({ sortBy: "protein_desc", form: "dry" })
+    );
+    expect(searchFingerprint({ form: "dry" })).not.toBe(searchFingerprint({ form: "wet" }));
+  });
+
+  it("fingerprints nested filters independently of key order", () => {
+    const filter = { all: [{ metric: "carbs", max: 10, basis: "dmb" }, { not: { ingredient: "pea" } }] };
+    const reordered = { all: [{ basis: "dmb", max: 10, metric: "carbs" }, { not: { ingredient: "pea" } }] };
+
+    expect(searchFingerprint({ form: "dry", filter })).toBe(searchFingerprint({ filter: reordered, form: "dry" }));
+    expect(searchFingerprint({ filter: { all: [{ form: "dry" }, { form: "wet" }] } })).not.toBe(
+      searchFingerprint({ filter: { all: [{ form: "wet" }, { form: "dry" }] } })
+    );
+  });
+});
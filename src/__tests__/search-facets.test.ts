@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+
+import { computeFacets } from "../search/facets.js";
+import type { AgentProductItem } from "../types/agent-api.js";
+
+const product = (overrides: Partial<AgentProductItem>): AgentProductItem => ({
+  id: "p",
+  name: "Formula",
+  brand: "Brand A",
+  detailUrl: "https://fitpick.com/products/p",
+  ...overrides,
+});
+
+describe("computeFacets", () => {
+  const facets = computeFacets([
+    product({ form: "dry", conditionTags: ["urinary", "indoor"], nutrition: { protein: 42 } }),
+    product({ form: "dry", conditionTags: ["urinary"], brand: "Brand B", derivedMetrics: { carbEstimated: 8 } }),
+    product({
+      form: "wet",
+      lifeStageTags: ["Growth"],
+      nutrition: { protein: 11 },
+      derivedMetrics: { carbEstimated: 2 },
+    }),
+  ]);
+
+  it("counts values most frequent first", () => {
+    expect(facets.form).toEqual([
+      { value: "dry", count: 2 },
+      { value: "wet", count: 1 },
+    ]);
+    expect(facets.conditionTags).toEqual([
+      { value: "urinary", count: 2 },
+      { value: "indoor", count: 1 },
+    ]);
+    expect(facets.lifeStage).toEqual([{ value: "kitten", count: 1 }]);
+    expect(facets.brand[0]).toEqual({ value: "Brand A", count: 2 });
+  });
+
+  it("estimates carbs from the guaranteed analysis like the carbs sort", () => {
+    const nutrition = { protein: 40, fat: 18, fiber: 3, moisture: 10, ash: 7 };
+
+    expect(computeFacets([product({ form: "dry", nutrition })]).carbs).toEqual([
+      { label: "20-30%", min: 20, max: 30, count: 1 },
+    ]);
+  });
+
+  it("buckets nutrient ranges with bounds and an unknown bucket", () => {
+    expect(facets.protein).toEqual([
+      { label: "10-20%", min: 10, max: 20, count: 1 },
+      { label: "40-50%", min: 40, max: 50, count: 1 },
+      { label: "unknown", count: 1 },
+    ]);
+    expect(facets.carbs).toEqual([
+      { label: "under 5%", max: 5, count: 1 },
+      { label: "5-10%", min: 5, max: 10, count: 1 },
+      { label: "unknown", count: 1 },
+    ]);
+  });
+});
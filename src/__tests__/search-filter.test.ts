@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  compileFilter,
+  evaluateFilter,
+  mergeApiParams,
+  SearchFilterSchema,
+  type SearchFilter,
+} from "../search/filter.js";
+import type { AgentProductItem } from "../types/agent-api.js";
+
+const wetChicken: AgentProductItem = {
+  id: "wet-chicken",
+  name: "Chicken Pate",
+  brand: "Acme",
+  form: "wet",
+  detailUrl: "https://fitpick.com/products/wet-chicken",
+  conditionTags: ["urinary"],
+  lifeStageTags: ["kitten", "adult"],
+  ingredientsPreview: ["water", "deboned chicken", "chicken liver"],
+  nutrition: { protein: 11, fat: 6, fiber: 1, moisture: 78 },
+  derivedMetrics: { carbEstimated: 2, meatScore: 90 },
+};
+
+const context = { ingredients: (product: AgentProductItem) => product.ingredientsPreview ?? [] };
+const matches = (filter: SearchFilter, product = wetChicken) => evaluateFilter(filter, product, context);
+
+describe("search filter", () => {
+  it("validates node shapes, ranges and size", () => {
+    expect(SearchFilterSchema.safeParse({ all: [{ form: "wet" }, { not: { brand: "Acme" } }] }).success).toBe(true);
+    expect(SearchFilterSchema.safeParse({ form: "wet", brand: "Acme" }).success).toBe(false);
+    expect(SearchFilterSchema.safeParse({ metric: "fat" }).success).toBe(false);
+    expect(SearchFilterSchema.safeParse({ metric: "ash", min: 1 }).success).toBe(false);
+
+    let deep: SearchFilter = { form: "wet" };
+    for (let i = 0; i < 7; i++) deep = { not: deep };
+    expect(SearchFilterSchema.safeParse(deep).success).toBe(false);
+  });
+
+  it("composes with all, any and not", () => {
+    expect(matches({ any: [{ form: "dry" }, { conditionTag: "URINARY" }] })).toBe(true);
+    expect(matches({ all: [{ lifeStageTag: "kitten" }, { not: { brand: "acme" } }] })).toBe(false);
+  });
+
+  it("applies ranges as fed or on a dry-matter basis and excludes missing values", () => {
+    expect(matches({ metric: "protein", min: 40 })).toBe(false);
+    // 11% protein at 78% moisture is 50% on dry matter
+    expect(matches({ metric: "protein", min: 40, basis: "dmb" })).toBe(true);
+    expect(matches({ metric: "fat", min: 5, max: 7 })).toBe(true);
+    expect(matches({ metric: "energyKcalPerKg", min: 0 })).toBe(false);
+  });
+
+  it("treats a negated ingredient as an exclusion that also catches fats", () => {
+    const withFat = { ...wetChicken, ingredientsPreview: ["salmon", "chicken fat"] };
+
+    expect(matches({ ingredient: "chicken" }, withFat)).toBe(false);
+    expect(matches({ not: { ingredient: "chicken" } }, withFat)).toBe(false);
+    expect(matches({ not: { not: { ingredient: "chicken" } } }, withFat)).toBe(false);
+  });
+
+  it("checks ingredient position with synonym-aware matching", () => {
+    expect(matches({ ingredient: "chicken", withinFirst: 2 })).toBe(true);
+    expect(matches({ ingredient: "chicken", withinFirst: 1 })).toBe(false);
+    expect(matches({ ingredient: "poultry", withinFirst: 3 })).toBe(true);
+    expect(matches({ ingredient: "chicken liver", exact: true })).toBe(true);
+  });
+
+  it("pushes down only conditions every match must satisfy", () => {
+    expect(
+      compileFilter({
+        all: [
+          { form: "wet" },
+          { conditionTag: "urinary" },
+          { all: [{ conditionTag: "indoor" }, { metric: "protein", min: 10 }] },
+          { metric: "carbs", max: 5 },
+        ],
+      })
+    ).toEqual({
+      form: "wet",
+      conditions: "indoor,urinary",
+      minProtein: "10",
+      maxCarbs: "5",
+    });
+
+    expect(compileFilter({ any: [{ form: "wet" }, { form: "dry" }] })).toEqual({});
+    expect(compileFilter({ all: [{ form: "wet" }, { metric: "carbs", max: 5, basis: "dmb" }] })).toEqual({
+      form: "wet",
+    });
+  });
+
+  it("keeps the tighter of repeated bounds and the first of conflicting forms", () => {
+    expect(
+      compileFilter({
+        all: [
+          { metric: "protein", min: 40 },
+          { metric: "protein", min: 30 },
+          { all: [{ metric: "carbs", max: 10 }] },
+          { metric: "carbs", max: 20 },
+        ],
+      })
+    ).toEqual({ minProtein: "40", maxCarbs: "10" });
+
+    // Conflicting forms keep the first; client-side evaluation then rejects everything
+    expect(compileFilter({ all: [{ form: "dry" }, { all: [{ form: "wet" }] }] })).toEqual({ form: "dry" });
+  });
+
+  it("merges upstream params by the tighter bound", () => {
+    const apiParams = { minProtein: "30", maxCarbs: "10", form: "dry", conditions: "urinary" };
+
+    mergeApiParams(apiParams, { minProtein: "40", maxCarbs: "20", conditions: "indoor" });
+    expect(apiParams).toEqual({ minProtein: "40", maxCarbs: "10", form: "dry", conditions: "urinary,indoor" });
+    mergeApiParams(apiParams, { form: "wet" });
+    expect(apiParams.form).toBe("dry");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+
+import { editDistance, findSpellingSuggestions, fuzzyScore } from "../search/fuzzy.js";
+import type { AgentProductItem } from "../types/agent-api.js";
+
+const product = (id: string, brand: string, name: string): AgentProductItem => ({
+  id,
+  brand,
+  name,
+  detailUrl: `https://fitpick.com/products/${id}`,
+});
+
+const catalog = [
+  product("p-1", "Orijen", "Six Fish Dry Cat Food"),
+  product("p-2", "Wellness", "CORE Grain-Free Original"),
+  product("p-3", "Acana", "Wild Prairie"),
+  product("p-4", "Purina", "Pro Plan Adult"),
+];
+
+describe("fuzzy matching", () => {
+  it("computes edit distance", () => {
+    expect(editDistance("orijin", "orijen")).toBe(1);
+    expect(editDistance("", "abc")).toBe(3);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+  });
+
+  it("scores typos and word order generously and unrelated names low", () => {
+    expect(fuzzyScore("Orijin", "Orijen")).toBeCloseTo(0.83, 2);
+    expect(fuzzyScore("core wellness", "Wellness CORE")).toBe(1);
+    expect(fuzzyScore("Orijin", "Purina")).toBeLessThan(0.5);
+  });
+
+  it("suggests brands and products above the confidence threshold", () => {
+    expect(findSpellingSuggestions("Orijin", catalog)).toEqual([
+      { text: "Orijen", kind: "brand", confidence: 0.83 },
+      { text: "Six Fish Dry Cat Food", kind: "product", confidence: 0.83, productId: "p-1" },
+    ]);
+
+    const [top] = findSpellingSuggestions("Wellnes Core", catalog);
+    expect(top).toEqual({ text: "CORE Grain-Free Original", kind: "product", confidence: 0.92, productId: "p-2" });
+
+    expect(findSpellingSuggestions("zzzz", catalog)).toEqual([]);
+  });
+
+  it("scores each brand once and gives long queries no suggestions", () => {
+    const sameBrand = Array.from({ length: 3 }, (_, i) => product(`o-${i}`, "Orijen", `Formula ${i}`));
+
+    expect(findSpellingSuggestions("Orijin", sameBrand).filter((s) => s.kind === "brand")).toEqual([
+      { text: "Orijen", kind: "brand", confidence: 0.83 },
+    ]);
+    expect(findSpellingSuggestions(`Orijen ${"x".repeat(80)}`, catalog)).toEqual([]);
+  });
+
+  it("stays fast over a large catalog with a long query", () => {
+    const large = Array.from({ length: 5_000 }, (_, i) =>
+      product(`l-${i}`, `Brand ${i % 200}`, `Recipe number ${i} with chicken and brown rice`)
+    );
+
+    // Several seconds before queries were capped and candidates prefiltered
+    const started = performance.now();
+    findSpellingSuggestions("chiken and brwn rice", large);
+    findSpellingSuggestions(`chiken and brwn rice ${"x".repeat(236)}`, large);
+
+    expect(performance.now() - started).toBeLessThan(2_000);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+
+import { buildProfile, scoreSimilarity } from "../search/similarity.js";
+import type { AgentProductItem } from "../types/agent-api.js";
+
+const product = (overrides: Partial<AgentProductItem> & Pick<AgentProductItem, "id">): AgentProductItem => ({
+  name: overrides.id,
+  brand: "Brand",
+  detailUrl: `https://fitpick.com/products/${overrides.id}`,
+  form: "dry",
+  nutrition: { protein: 36, fat: 16, fiber: 3, moisture: 10 },
+  derivedMetrics: { carbEstimated: 25 },
+  ...overrides,
+});
+
+describe("product similarity", () => {
+  const target = buildProfile(product({ id: "target", conditionTags: ["indoor"] }), [
+    "Chicken",
+    "Chicken Meal",
+    "Brown Rice",
+    "Chicken Fat",
+  ]);
+
+  it("scores an identical product as fully similar", () => {
+    const twin = buildProfile(product({ id: "twin", conditionTags: ["indoor"] }), [
+      "chicken",
+      "chicken meal",
+      "brown rice",
+      "chicken fat",
+    ]);
+
+    expect(scoreSimilarity(target, twin)).toMatchObject({
+      similarity: 1,
+      scores: { ingredients: 1, nutrition: 1, form: 1, conditions: 1 },
+    });
+  });
+
+  it("weights shared ingredients by label position", () => {
+    const sameFirst = buildProfile(product({ id: "a" }), ["Chicken", "Peas", "Lentils", "Potato"]);
+    const sameLast = buildProfile(product({ id: "b" }), ["Salmon", "Peas", "Lentils", "Chicken Fat"]);
+
+    const first = scoreSimilarity(target, sameFirst).scores.ingredients ?? 0;
+    const last = scoreSimilarity(target, sameLast).scores.ingredients ?? 0;
+    expect(first).toBeGreaterThan(last);
+  });
+
+  it("compares nutrition on a dry-matter basis across forms", () => {
+    // A quarter of the target's dry matter, so the same dry-matter profile
+    const wet = product({
+      id: "wet",
+      form: "wet",
+      nutrition: { protein: 9, fat: 4, fiber: 0.75, moisture: 77.5 },
+      derivedMetrics: { carbEstimated: 6.25 },
+    });
+
+    const { scores, reasons } = scoreSimilarity(target, buildProfile(wet, []));
+    expect(scores.nutrition).toBe(1);
+    expect(scores.form).toBe(0);
+    expect(scores.ingredients).toBeUndefined();
+    expect(reasons).toContain(
+      "Similar dry-matter nutrition (protein 40% vs 40%, fat 17.8% vs 17.8%, fiber 3.3% vs 3.3%, carbs 27.8% vs 27.8%)"
+    );
+  });
+
+  it("explains shared ingredients, form and tags", () => {
+    const candidate = buildProfile(product({ id: "c", conditionTags: ["Indoor", "hairball"] }), [
+      "Deboned Chicken",
+      "Brown Rice",
+    ]);
+
+    const { reasons, scores } = scoreSimilarity(target, candidate);
+    expect(scores.conditions).toBe(0.5);
+    expect(reasons).toEqual(expect.arrayContaining(["Same form (dry)", "Also tagged for: Indoor"]));
+    expect(reasons[0]).toMatch(/^Shares key ingredients: /);
+  });
+});
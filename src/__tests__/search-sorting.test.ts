@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+
+import { sortProducts, sortValue } from "../search/sorting.js";
+import type { AgentProductItem } from "../types/agent-api.js";
+
+const product = (id: string, overrides: Partial<AgentProductItem> = {}): AgentProductItem => ({
+  id,
+  name: `Formula ${id}`,
+  brand: "Brand",
+  detailUrl: `https://fitpick.com/products/${id}`,
+  ...overrides,
+});
+
+const ids = (items: AgentProductItem[]) => items.map((item) => item.id);
+
+describe("search sorting", () => {
+  // Wet food: 12% protein at 78% moisture is ~54.5% on a dry-matter basis
+  const wet = product("wet", { form: "wet", nutrition: { protein: 12, fat: 5, moisture: 78 } });
+  const dry = product("dry", { form: "dry", nutrition: { protein: 40, fat: 18, moisture: 10 } });
+  const unknown = product("unknown", { form: "dry" });
+
+  it("ranks wet food by dry-matter protein instead of as-fed protein", () => {
+    expect(ids(sortProducts([wet, dry, unknown], "protein_desc", undefined, (p) => p))).toEqual([
+      "dry",
+      "wet",
+      "unknown",
+    ]);
+    expect(ids(sortProducts([dry, unknown, wet], "protein_dmb_desc", undefined, (p) => p))).toEqual([
+      "wet",
+      "dry",
+      "unknown",
+    ]);
+    expect(sortValue(wet, "protein_dmb_desc")).toBe(54.5);
+  });
+
+  it("puts products with missing values last in both directions", () => {
+    const lean = product("lean", { nutrition: { fat: 2, moisture: 80 } });
+    const rich = product("rich", { nutrition: { fat: 20, moisture: 10 } });
+
+    expect(ids(sortProducts([unknown, rich, lean], "fat_dmb_asc", undefined, (p) => p))).toEqual([
+      "lean",
+      "rich",
+      "unknown",
+    ]);
+    expect(ids(sortProducts([unknown, lean, rich], "fat_dmb_desc", undefined, (p) => p))).toEqual([
+      "rich",
+      "lean",
+      "unknown",
+    ]);
+    expect(ids(sortProducts([unknown, lean], "carbs_asc", undefined, (p) => p))).toEqual(["lean", "unknown"]);
+  });
+
+  it("estimates energy density when the API does not list it", () => {
+    // (40 * 3.5 + 18 * 8.5 + 24 * 3.5) * 10 = 3,770 kcal/kg as fed, 4,188.9 on dry matter
+    const estimated = product("estimated", { nutrition: { protein: 40, fat: 18, moisture: 10 } });
+    const listed = product("listed", { energyKcalPerKg: 1000, nutrition: { moisture: 75 } });
+
+    expect(sortValue({ ...estimated, derivedMetrics: { carbEstimated: 24 } }, "energy_density_desc")).toBe(4188.9);
+    expect(sortValue(listed, "energy_density_asc")).toBe(4000);
+  });
+
+  it("breaks ties with thenBy, then name and ID", () => {
+    const scored = (id: string, name: string, protein: number, moisture: number) =>
+      product(id, { name, derivedMetrics: { meatScore: 80 }, nutrition: { protein, moisture } });
+    // Same meat score; "a" has the most protein on a dry-matter basis, "b" and "c" tie on everything but ID
+    const a = scored("a", "Zeta", 10, 80);
+    const b = scored("b", "Alpha", 40, 10);
+    const c = scored("c", "Alpha", 40, 10);
+
+    expect(ids(sortProducts([c, b, a], "meat_score_desc", undefined, (p) => p))).toEqual(["a", "b", "c"]);
+    expect(ids(sortProducts([a, c, b], "meat_score_desc", ["protein_desc"], (p) => p))).toEqual(["b", "c", "a"]);
+  });
+});
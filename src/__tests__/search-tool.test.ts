@@ -295,6 +295,330 @@ describe("search_products tool", () => {
     expect(productNames).not.toContain("Grain Mix"); // Has corn
   });
 
+  it("should check exclusions against the full ingredient list beyond the preview", async () => {
+    vi.spyOn(client, "getProducts").mockResolvedValue({
+      items: createMockProducts(),
+      meta: { total: 4, limit: 200, offset: 0, hasMore: false },
+    });
+
+    const mockServer = createMockServer();
+    registerSearchTool(mockServer as Parameters<typeof registerSearchTool>[0], client, bucketManager, getClientId);
+
+    // "soybean meal" is 4th in prod-4's full list but not in its preview
+    const result = await getHandler()({ excludeIngredients: "soybean" });
+    const content = JSON.parse(result.content[0].text);
+
+    const productNames = content.data.items.map((item: { name: string }) => item.name);
+    expect(productNames).not.toContain("Grain Mix");
+    expect(content.data.items.every((item: { ingredientCheck: string }) => item.ingredientCheck === "full")).toBe(
+      true
+    );
+  });
+
+  it("should fetch details for products without a full list and mark unresolved ones as preview", async () => {
+    const withoutFullLists = createMockProducts()
+      .slice(0, 2)
+      .map(({ ingredientsFull: _full, ...item }) => item);
+    vi.spyOn(client, "getProducts").mockResolvedValue({
+      items: withoutFullLists,
+      meta: { total: 2, limit: 200, offset: 0, hasMore: false },
+    });
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockImplementation(async (url) => {
+      if (String(url).endsWith("/prod-1")) {
+        const detail = {
+          ...createMockProducts()[0],
+          ingredientsFull: ["chicken meal", "rice", "pea protein", "chicken fat", "taurine", "corn gluten"],
+        };
+        return new Response(JSON.stringify({ product: detail }), { status: 200 });
+      }
+      return new Response("not found", { status: 404 });
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const mockServer = createMockServer();
+    registerSearchTool(mockServer as Parameters<typeof registerSearchTool>[0], client, bucketManager, getClientId);
+
+    const result = await getHandler()({ excludeIngredients: "corn" });
+    const content = JSON.parse(result.content[0].text);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    // prod-1 has corn gluten at position 6, found via its detail
+    expect(content.data.items).toEqual([expect.objectContaining({ id: "prod-2", ingredientCheck: "preview" })]);
+  });
+
+  it("should match ingredient synonyms, ignore fats for included proteins and exclude them", async () => {
+    const [fowlProduct, fatOnlyProduct] = createMockProducts();
+    vi.spyOn(client, "getProducts").mockResolvedValue({
+      items: [
+        { ...fowlProduct, ingredientsPreview: ["deboned fowl", "rice"], ingredientsFull: ["deboned fowl", "rice"] },
+        {
+          ...fatOnlyProduct,
+          ingredientsPreview: ["salmon", "chicken fat (preserved with mixed tocopherols)"],
+          ingredientsFull: ["salmon", "chicken fat (preserved with mixed tocopherols)"],
+        },
+      ],
+      meta: { total: 2, limit: 200, offset: 0, hasMore: false },
+    });
+
+    const mockServer = createMockServer();
+    registerSearchTool(mockServer as Parameters<typeof registerSearchTool>[0], client, bucketManager, getClientId);
+
+    const poultry = JSON.parse((await getHandler()({ includeIngredients: "poultry" })).content[0].text);
+    expect(poultry.data.items.map((item: { id: string }) => item.id)).toEqual(["prod-1"]);
+
+    // Salmon Feast only has chicken fat: not chicken for an include, but an
+    // exclusion (often an allergy) removes it. Chicken Delight is excluded by name.
+    const withChicken = JSON.parse((await getHandler()({ includeIngredients: "chicken" })).content[0].text);
+    expect(withChicken.data.items.map((item: { id: string }) => item.id)).toEqual(["prod-1"]);
+    const noChicken = JSON.parse((await getHandler()({ excludeIngredients: "chicken" })).content[0].text);
+    expect(noChicken.data.items).toEqual([]);
+  });
+
+  it("should exclude every form of a protein source and report the applied rules", async () => {
+    vi.spyOn(client, "getProducts").mockResolvedValue({
+      items: createMockProducts(),
+      meta: { total: 4, limit: 200, offset: 0, hasMore: false },
+    });
+
+    const mockServer = createMockServer();
+    registerSearchTool(mockServer as Parameters<typeof registerSearchTool>[0], client, bucketManager, getClientId);
+
+    // Chicken appears as meal, fat and by-product across prod-1, -2, -3 and -4;
+    // with it excluded, nothing in the fixture remains
+    const noPoultry = JSON.parse((await getHandler()({ excludeProteinSources: ["poultry"] })).content[0].text);
+    expect(noPoultry.data.items).toEqual([]);
+    expect(noPoultry.data.appliedExclusions).toEqual([
+      expect.objectContaining({ group: "poultry", excludedProducts: 4 }),
+    ]);
+
+    const noFish = JSON.parse((await getHandler()({ excludeProteinSources: ["fish"] })).content[0].text);
+    expect(noFish.data.items.map((item: { id: string }) => item.id)).toEqual(["prod-1", "prod-3", "prod-4"]);
+    expect(noFish.data.items.every((item: { ingredientCheck: string }) => item.ingredientCheck === "full")).toBe(true);
+    expect(noFish.data.filterNote).toContain("full ingredient list");
+  });
+
+  it("should apply a structured filter and push down what the API supports", async () => {
+    const getProducts = vi.spyOn(client, "getProducts").mockResolvedValue({
+      items: createMockProducts(),
+      meta: { total: 4, limit: 200, offset: 0, hasMore: false },
+    });
+
+    const mockServer = createMockServer();
+    registerSearchTool(mockServer as Parameters<typeof registerSearchTool>[0], client, bucketManager, getClientId);
+
+    // Wet food, or corn as the first ingredient
+    const either = JSON.parse(
+      (await getHandler()({ filter: { any: [{ form: "wet" }, { ingredient: "corn", withinFirst: 1 }] } })).content[0]
+        .text
+    );
+    expect(either.data.items.map((item: { id: string }) => item.id)).toEqual(["prod-2", "prod-4"]);
+
+    await getHandler()({ filter: { all: [{ form: "dry" }, { conditionTag: "diet" }] } });
+    expect(getProducts).toHaveBeenLastCalledWith(
+      expect.objectContaining({ form: "dry", conditions: "diet", offset: "0" }),
+      expect.anything()
+    );
+  });
+
+  it("should never loosen a structured filter with the flat params", async () => {
+    const [dry, wet] = createMockProducts();
+    const catalog = [
+      { ...dry, nutrition: { protein: 32 } },
+      { ...wet, nutrition: { protein: 42 } },
+    ];
+    // Upstream applies form and minProtein
+    const getProducts = vi.spyOn(client, "getProducts").mockImplementation(async (params) => {
+      const items = catalog.filter(
+        (item) =>
+          (!params?.form || item.form === params.form) &&
+          item.nutrition.protein >= Number(params?.minProtein ?? 0)
+      );
+      return { items, meta: { total: items.length, limit: 200, offset: 0, hasMore: false } };
+    });
+
+    const mockServer = createMockServer();
+    registerSearchTool(mockServer as Parameters<typeof registerSearchTool>[0], client, bucketManager, getClientId);
+
+    const ids = async (args: Record<string, unknown>) =>
+      JSON.parse((await getHandler()(args)).content[0].text).data.items.map((item: { id: string }) => item.id);
+
+    expect(await ids({ minProtein: 30, filter: { metric: "protein", min: 40 } })).toEqual(["prod-2"]);
+    expect(getProducts).toHaveBeenLastCalledWith(expect.objectContaining({ minProtein: "40" }), expect.anything());
+
+    // Both forms must hold, so nothing can match
+    expect(await ids({ form: "dry", filter: { form: "wet" } })).toEqual([]);
+  });
+
+  it("should filter by normalized life stage and show it on each result", async () => {
+    const [kittenFood, adultFood, allStages] = createMockProducts();
+    vi.spyOn(client, "getProducts").mockResolvedValue({
+      items: [
+        { ...kittenFood, lifeStageTags: ["Growth"] },
+        { ...adultFood, lifeStageTags: ["Adult Maintenance"] },
+        { ...allStages, lifeStageTags: ["All Life Stages"] },
+      ],
+      meta: { total: 3, limit: 200, offset: 0, hasMore: false },
+    });
+
+    const mockServer = createMockServer();
+    registerSearchTool(mockServer as Parameters<typeof registerSearchTool>[0], client, bucketManager, getClientId);
+
+    const result = JSON.parse((await getHandler()({ lifeStage: "kitten" })).content[0].text);
+    expect(result.data.items).toEqual([
+      expect.objectContaining({ id: "prod-1", lifeStages: ["kitten"] }),
+      expect.objectContaining({ id: "prod-3", lifeStages: ["all-life-stages"] }),
+    ]);
+  });
+
+  it("should suggest similar brands when a misspelled query finds nothing", async () => {
+    for (const product of createMockProducts()) client.nameIndex.add(product);
+    const getProducts = vi.spyOn(client, "getProducts").mockResolvedValue({
+      items: [],
+      meta: { total: 0, limit: 10, offset: 0, hasMore: false },
+    });
+
+    const mockServer = createMockServer();
+    registerSearchTool(mockServer as Parameters<typeof registerSearchTool>[0], client, bucketManager, getClientId);
+
+    const result = JSON.parse((await getHandler()({ query: "Ocean Cach" })).content[0].text);
+
+    expect(result.data.items).toEqual([]);
+    expect(result.data.didYouMean[0]).toEqual({ text: "Ocean Catch", kind: "brand", confidence: 0.91 });
+    expect(result.data.suggestions).toContain('Did you mean "Ocean Catch"? (brand, confidence 0.91)');
+    // Suggestions come from products already seen, not extra catalog fetches
+    expect(getProducts).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not suggest names or brands already among the results", async () => {
+    const products = createMockProducts();
+    for (const product of products) client.nameIndex.add(product);
+    const [, oceanCatch] = products;
+    vi.spyOn(client, "getProducts").mockResolvedValue({
+      items: [oceanCatch],
+      meta: { total: 1, limit: 10, offset: 0, hasMore: false },
+    });
+
+    const mockServer = createMockServer();
+    registerSearchTool(mockServer as Parameters<typeof registerSearchTool>[0], client, bucketManager, getClientId);
+
+    const result = JSON.parse((await getHandler()({ query: "Ocean Cach" })).content[0].text);
+
+    expect(result.data.items).toHaveLength(1);
+    expect(result.data.didYouMean ?? []).not.toContainEqual(expect.objectContaining({ text: "Ocean Catch" }));
+    expect(result.data.didYouMean ?? []).not.toContainEqual(expect.objectContaining({ productId: oceanCatch.id }));
+  });
+
+  describe("cursor pagination", () => {
+    // 45 products; every third one lists salmon, and protein rises with the index
+    const catalog = Array.from({ length: 45 }, (_, i) => ({
+      id: `p-${i}`,
+      name: `Formula ${i}`,
+      brand: "Catalog Co",
+      form: "dry" as const,
+      detailUrl: `https://fitpick.com/products/p-${i}`,
+      ingredientsPreview: i % 3 === 0 ? ["salmon", "rice"] : ["turkey", "rice"],
+      ingredientsFull: i % 3 === 0 ? ["salmon", "rice", "taurine"] : ["turkey", "rice", "taurine"],
+      nutrition: { protein: 20 + i / 10 },
+    }));
+
+    const mockCatalog = () =>
+      vi.spyOn(client, "getProducts").mockImplementation(async (query = {}) => {
+        const offset = Number(query.offset ?? 0);
+        const limit = Number(query.limit ?? 20);
+        const items = catalog.slice(offset, offset + limit);
+        return { items, meta: { total: catalog.length, limit, offset, hasMore: offset + items.length < catalog.length } };
+      });
+
+    const search = async (args: Record<string, unknown>) =>
+      JSON.parse((await getHandler()(args)).content[0].text) as {
+        data: { items: Array<{ id: string }>; total: number; totalIsLowerBound?: boolean; cursor: string | null };
+      };
+
+    beforeEach(() => {
+      registerSearchTool(
+        createMockServer() as Parameters<typeof registerSearchTool>[0],
+        client,
+        bucketManager,
+        getClientId
+      );
+    });
+
+    it("pages through upstream results while client-side filters are active", async () => {
+      const getProducts = mockCatalog();
+      const seen: string[] = [];
+      let page = await search({ includeIngredients: "salmon", limit: 4 });
+
+      // Matches are spread over several upstream batches of 8
+      expect(page.data.totalIsLowerBound).toBe(true);
+      for (let pages = 0; page.data.cursor && pages < 10; pages++) {
+        seen.push(...page.data.items.map((item) => item.id));
+        page = await search({ includeIngredients: "salmon", limit: 4, cursor: page.data.cursor });
+      }
+      seen.push(...page.data.items.map((item) => item.id));
+
+      expect(seen).toEqual(catalog.filter((_, i) => i % 3 === 0).map((item) => item.id));
+      expect(page.data.total).toBe(15);
+      expect(page.data.totalIsLowerBound).toBeUndefined();
+      expect(getProducts.mock.calls.some(([query]) => Number(query?.offset) > 0)).toBe(true);
+    });
+
+    it("sorts across the whole catalog and continues the order on the next page", async () => {
+      mockCatalog();
+
+      const first = await search({ sortBy: "protein_desc", limit: 20 });
+      const second = await search({ sortBy: "protein_desc", limit: 20, cursor: first.data.cursor });
+      const third = await search({ sortBy: "protein_desc", limit: 20, cursor: second.data.cursor });
+
+      expect(first.data.items[0].id).toBe("p-44");
+      expect(second.data.items[0].id).toBe("p-24");
+      expect(third.data.items.map((item) => item.id)).toEqual(["p-4", "p-3", "p-2", "p-1", "p-0"]);
+      expect(third.data.total).toBe(45);
+      expect(third.data.cursor).toBeNull();
+    });
+
+    it("returns opaque cursors without client-side processing", async () => {
+      mockCatalog();
+
+      const first = await search({ limit: 20 });
+      expect(first.data.cursor).toEqual(expect.any(String));
+      expect(first.data.total).toBe(45);
+
+      const second = await search({ limit: 20, cursor: first.data.cursor });
+      expect(second.data.items[0].id).toBe("p-20");
+    });
+
+    it("computes facets over every match, not just the current page", async () => {
+      mockCatalog();
+
+      const first = JSON.parse(
+        (await getHandler()({ includeIngredients: "salmon", limit: 4, includeFacets: true })).content[0].text
+      );
+      expect(first.data.items).toHaveLength(4);
+      expect(first.data.total).toBe(15);
+      expect(first.data.facets.form).toEqual([{ value: "dry", count: 15 }]);
+      expect(first.data.facets.brand).toEqual([{ value: "Catalog Co", count: 15 }]);
+      expect(first.data.facets.protein).toEqual([expect.objectContaining({ label: "20-30%", count: 15 })]);
+
+      // Cursors stay valid whether or not facets are requested
+      const second = await search({ includeIngredients: "salmon", limit: 4, cursor: first.data.cursor });
+      expect(second.data.items.map((item) => item.id)).toEqual(["p-12", "p-15", "p-18", "p-21"]);
+    });
+
+    it("rejects a cursor reused with different filters or modified", async () => {
+      mockCatalog();
+      const first = await search({ includeIngredients: "salmon", limit: 4 });
+      const cursor = first.data.cursor as string;
+
+      const otherFilters = await getHandler()({ includeIngredients: "turkey", limit: 4, cursor });
+      expect(otherFilters.isError).toBe(true);
+      expect(otherFilters.content[0].text).toContain("different query, filters or sort");
+
+      const tampered = await getHandler()({ includeIngredients: "salmon", limit: 4, cursor: `x${cursor}` });
+      expect(tampered.isError).toBe(true);
+      expect(tampered.content[0].text).toContain("Invalid or expired cursor");
+    });
+  });
+
   it("should include rate limit info in response", async () => {
     vi.spyOn(client, "getProducts").mockResolvedValue({
       items: createMockProducts(),
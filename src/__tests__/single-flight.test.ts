@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { SingleFlight } from "../api/single-flight.js";
+import type { ApiRequest, ApiResponse } from "../api/pipeline.js";
+import { AgentApiClient } from "../client.js";
+import { ServerError } from "../errors.js";
+
+const baseRequest: ApiRequest = {
+  route: "getProductDetail",
+  method: "GET",
+  url: new URL("https://api.example.com/agent/products/abc"),
+  headers: {},
+  resource: { name: "Product", id: "abc" },
+};
+
+const okResponse = (data: unknown): ApiResponse => ({
+  status: 200,
+  headers: new Headers(),
+  raw: new Response(null),
+  data,
+});
+
+/** Promise whose settlement the test controls */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("SingleFlight", () => {
+  it("shares one upstream call between concurrent identical requests", async () => {
+    const flight = new SingleFlight();
+    const upstream = deferred<ApiResponse>();
+    const next = vi.fn(() => upstream.promise);
+    const middleware = flight.middleware();
+
+    const first = middleware(baseRequest, next);
+    const second = middleware(baseRequest, next);
+    upstream.resolve(okResponse({ id: "abc" }));
+
+    expect((await first).data).toEqual({ id: "abc" });
+    expect((await second).data).toEqual({ id: "abc" });
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(flight.getStats()).toEqual({ inFlight: 0, coalesced: 1 });
+  });
+
+  it("keeps requests with different URLs or bodies separate", async () => {
+    const flight = new SingleFlight();
+    const next = vi.fn(async () => okResponse({}));
+    const middleware = flight.middleware();
+    const post: ApiRequest = { ...baseRequest, method: "POST", url: new URL("https://api.example.com/compare") };
+
+    await Promise.all([
+      middleware(baseRequest, next),
+      middleware({ ...baseRequest, url: new URL("https://api.example.com/agent/products/xyz") }, next),
+      middleware({ ...post, body: '{"productIds":["a","b"]}' }, next),
+      middleware({ ...post, body: '{"productIds":["a","c"]}' }, next),
+    ]);
+
+    expect(next).toHaveBeenCalledTimes(4);
+  });
+
+  it("issues a fresh call once the previous one has settled", async () => {
+    const flight = new SingleFlight();
+    const next = vi.fn(async () => okResponse({}));
+    const middleware = flight.middleware();
+
+    await middleware(baseRequest, next);
+    await middleware(baseRequest, next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it("propagates an upstream failure to every waiting caller", async () => {
+    const flight = new SingleFlight();
+    const upstream = deferred<ApiResponse>();
+    const middleware = flight.middleware();
+
+    const first = middleware(baseRequest, () => upstream.promise);
+    const second = middleware(baseRequest, () => upstream.promise);
+    upstream.reject(new ServerError("boom", 503));
+
+    await expect(first).rejects.toBeInstanceOf(ServerError);
+    await expect(second).rejects.toBeInstanceOf(ServerError);
+    expect(flight.getStats().inFlight).toBe(0);
+  });
+
+  it("lets one caller cancel without aborting the shared call for others", async () => {
+    const flight = new SingleFlight();
+    const upstream = deferred<ApiResponse>();
+    let upstreamSignal: AbortSignal | undefined;
+    const next = vi.fn((request: ApiRequest) => {
+      upstreamSignal = request.signal;
+      return upstream.promise;
+    });
+    const middleware = flight.middleware();
+    const controller = new AbortController();
+
+    const cancelled = middleware({ ...baseRequest, signal: controller.signal }, next);
+    const kept = middleware({ ...baseRequest, signal: new AbortController().signal }, next);
+
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ name: "AbortError" });
+    expect(upstreamSignal?.aborted).toBe(false);
+
+    upstream.resolve(okResponse({ id: "abc" }));
+    expect((await kept).data).toEqual({ id: "abc" });
+  });
+
+  it("aborts the upstream call once every caller has cancelled", async () => {
+    const flight = new SingleFlight();
+    let upstreamSignal: AbortSignal | undefined;
+    const next = vi.fn(
+      (request: ApiRequest) =>
+        new Promise<ApiResponse>((_, reject) => {
+          upstreamSignal = request.signal;
+          request.signal?.addEventListener("abort", () => reject(request.signal?.reason));
+        })
+    );
+    const middleware = flight.middleware();
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const first = middleware({ ...baseRequest, signal: a.signal }, next);
+    const second = middleware({ ...baseRequest, signal: b.signal }, next);
+
+    a.abort();
+    expect(upstreamSignal?.aborted).toBe(false);
+    b.abort();
+    expect(upstreamSignal?.aborted).toBe(true);
+
+    await expect(first).rejects.toMatchObject({ name: "AbortError" });
+    await expect(second).rejects.toMatchObject({ name: "AbortError" });
+    await vi.waitFor(() => expect(flight.getStats().inFlight).toBe(0));
+  });
+
+  it("rejects immediately for an already-aborted signal", async () => {
+    const flight = new SingleFlight();
+    const next = vi.fn(async () => okResponse({}));
+
+    await expect(
+      flight.middleware()({ ...baseRequest, signal: AbortSignal.abort() }, next)
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe("AgentApiClient request coalescing", () => {
+  const product = {
+    product: {
+      id: "abc",
+      name: "Test Food",
+      brand: "Brand",
+      detailUrl: "/products/abc",
+      imageUrl: "/images/abc.jpg",
+      form: "dry",
+      lifeStageTags: [],
+      conditionTags: [],
+      ingredientsPreview: [],
+      ingredientsFull: [],
+      hasOffer: false,
+    },
+  };
+
+  let fetchMock: ReturnType<typeof vi.spyOn<typeof globalThis, "fetch">>;
+
+  beforeEach(() => {
+    fetchMock = vi.spyOn(globalThis, "fetch");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sends one request for parallel detail lookups of the same product", async () => {
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify(product), { status: 200 }));
+    const client = new AgentApiClient({ retryPolicy: { maxAttempts: 1 }, cache: { ttlByRoute: {} } });
+
+    const results = await Promise.all([
+      client.getProductDetail("abc"),
+      client.getProductDetail("abc"),
+      client.getProductDetail("abc"),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(results.map((r) => r.product.id)).toEqual(["abc", "abc", "abc"]);
+    expect(client.getHealth().singleFlight.coalesced).toBe(2);
+  });
+
+  it("starts a fresh call for a caller joining after every earlier caller cancelled", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    fetchMock
+      .mockResolvedValueOnce(new Response("unavailable", { status: 503 }))
+      .mockImplementation(async () => new Response(JSON.stringify(product), { status: 200 }));
+    // The first attempt fails and the retry layer waits out a long backoff
+    const client = new AgentApiClient({
+      retryPolicy: { maxAttempts: 3, baseDelayMs: 60_000, maxDelayMs: 60_000, deadlineMs: 120_000, jitterRatio: 0 },
+      cache: { ttlByRoute: {} },
+    });
+    const cancelled = new AbortController();
+
+    const first = client.getProductDetail("abc", { signal: cancelled.signal });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    cancelled.abort();
+    await expect(first).rejects.toMatchObject({ name: "AbortError" });
+
+    const second = await client.getProductDetail("abc");
+
+    expect(second.product.id).toBe("abc");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.getHealth().singleFlight.coalesced).toBe(0);
+  });
+
+  it("coalesces identical compare requests", async () => {
+    fetchMock.mockImplementation(
+      async () => new Response(JSON.stringify({ products: [], compared: 0, requested: 2 }), { status: 200 })
+    );
+    const client = new AgentApiClient({ retryPolicy: { maxAttempts: 1 } });
+
+    await Promise.all([client.compareProducts(["a", "b"]), client.compareProducts(["a", "b"])]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * HTTP Response Cache for the Agent API
+ *
+ * Shared, size-bounded (LRU) cache keyed on method + URL. Freshness comes
+ * from Cache-Control max-age when the API sends it, otherwise from the
+ * per-route TTL. Stale entries with an ETag or Last-Modified validator are
+ * revalidated with a conditional request instead of being refetched.
+ */
+
+import type { ApiMiddleware, ApiRequest } from "./pipeline.js";
+
+interface CacheEntry {
+  data: unknown;
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface HttpCacheOptions {
+  /** Maximum number of cached responses (least recently used evicted first) */
+  maxEntries: number;
+  /** Default freshness per route name; routes not listed are not cached */
+  ttlByRoute: Record<string, number>;
+  /** Time source (overridden in tests) */
+  now?: () => number;
+}
+
+export interface HttpCacheStats {
+  hits: number;
+  misses: number;
+  revalidations: number;
+  entries: number;
+  maxEntries: number;
+}
+
+/**
+ * Parse the Cache-Control header into the parts we act on
+ */
+function parseCacheControl(header: string | null): { noStore: boolean; noCache: boolean; maxAgeMs?: number } {
+  const directives = (header ?? "")
+    .toLowerCase()
+    .split(",")
+    .map((d) => d.trim());
+
+  const maxAge = directives.find((d) => d.startsWith("max-age="));
+  const seconds = maxAge ? parseInt(maxAge.slice("max-age=".length), 10) : NaN;
+
+  return {
+    noStore: directives.includes("no-store") || directives.includes("private"),
+    noCache: directives.includes("no-cache"),
+    maxAgeMs: isNaN(seconds) ? undefined : seconds * 1000,
+  };
+}
+
+export class HttpCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly now: () => number;
+  private hits = 0;
+  private misses = 0;
+  private revalidations = 0;
+
+  constructor(private readonly options: HttpCacheOptions) {
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  getStats(): HttpCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      revalidations: this.revalidations,
+      entries: this.entries.size,
+      maxEntries: this.options.maxEntries,
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Pipeline middleware. Place it outermost so fresh hits skip retries,
+   * the circuit breaker and the network entirely.
+   */
+  middleware(): ApiMiddleware {
+    return async (request, next) => {
+      const ttlMs = this.options.ttlByRoute[request.route];
+      if (request.method !== "GET" || ttlMs === undefined) {
+        return next(request);
+      }
+
+      const key = this.keyFor(request);
+      const cached = this.lookup(key);
+
+      if (cached && cached.expiresAt > this.now()) {
+        this.hits++;
+        return { status: 200, headers: new Headers(), raw: new Response(null), data: cached.data };
+      }
+
+      // Stale with validators: ask the API whether it changed
+      const conditionalHeaders: Record<string, string> = {};
+      if (cached?.etag) conditionalHeaders["If-None-Match"] = cached.etag;
+      if (cached?.lastModified) conditionalHeaders["If-Modified-Since"] = cached.lastModified;
+
+      const response = await next({ ...request, headers: { ...request.headers, ...conditionalHeaders } });
+      const cacheControl = parseCacheControl(response.headers.get("Cache-Control"));
+      const freshForMs = cacheControl.noCache ? 0 : (cacheControl.maxAgeMs ?? ttlMs);
+
+      if (response.status === 304 && cached) {
+        this.revalidations++;
+        cached.expiresAt = this.now() + freshForMs;
+        return { ...response, status: 200, data: cached.data };
+      }
+
+      this.misses++;
+
+      const etag = response.headers.get("ETag") ?? undefined;
+      const lastModified = response.headers.get("Last-Modified") ?? undefined;
+      if (cacheControl.noStore || (freshForMs <= 0 && !etag && !lastModified)) {
+        this.entries.delete(key);
+        return response;
+      }
+
+      this.store(key, { data: response.data, expiresAt: this.now() + freshForMs, etag, lastModified });
+      return response;
+    };
+  }
+
+  private keyFor(request: ApiRequest): string {
+    return `${request.method} ${request.url.toString()}`;
+  }
+
+  /**
+   * Get an entry and mark it most recently used
+   */
+  private lookup(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private store(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
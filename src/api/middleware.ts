@@ -0,0 +1,137 @@
+/**
+ * Agent API Pipeline Middleware
+ *
+ * Cross-cutting concerns for every Agent API call. Each factory returns an
+ * ApiMiddleware; AgentApiClient composes them into one pipeline.
+ */
+
+import type { CircuitBreaker } from "../circuit-breaker.js";
+import { AgentApiError, ResponseSizeError, TimeoutError } from "../errors.js";
+import { withRetry, type RetryClock, type RetryPolicy } from "../retry.js";
+
+import type { ApiMiddleware, ApiResponse } from "./pipeline.js";
+
+/**
+ * Add static headers (identity, API version, API key) to every request
+ */
+export function headersMiddleware(headers: Record<string, string>): ApiMiddleware {
+  return (request, next) => next({ ...request, headers: { ...headers, ...request.headers } });
+}
+
+/**
+ * Abort each attempt after `timeoutMs` and surface it as a TimeoutError
+ */
+export function timeoutMiddleware(timeoutMs: number): ApiMiddleware {
+  return async (request, next) => {
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    const signal = request.signal ? AbortSignal.any([request.signal, timeoutSignal]) : timeoutSignal;
+
+    try {
+      return await next({ ...request, signal });
+    } catch (error) {
+      // An abort from the caller's own signal is a cancellation, not a timeout
+      const cancelled = request.signal?.aborted && !timeoutSignal.aborted;
+      if (
+        !cancelled &&
+        !(error instanceof AgentApiError) &&
+        error instanceof Error &&
+        (error.name === "TimeoutError" || error.name === "AbortError")
+      ) {
+        throw new TimeoutError(timeoutMs);
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Retry retryable failures according to the policy
+ */
+export function retryMiddleware(policy: RetryPolicy, clock?: RetryClock): ApiMiddleware {
+  return (request, next) => withRetry(() => next(request), policy, clock, request.signal);
+}
+
+/**
+ * Route each attempt through the circuit breaker
+ */
+export function circuitBreakerMiddleware(breaker: CircuitBreaker): ApiMiddleware {
+  return (request, next) => breaker.execute(() => next(request), request.signal);
+}
+
+/**
+ * Wrap a response body so reading it fails once `maxBytes` is exceeded.
+ * Erroring the stream cancels the underlying connection.
+ */
+function limitResponseBody(response: Response, maxBytes: number): Response {
+  if (!response.body) return response;
+
+  let received = 0;
+  const limited = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > maxBytes) {
+          controller.error(new ResponseSizeError(maxBytes, received));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    })
+  );
+
+  return new Response(limited, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Enforce the response size limit while the body is read.
+ * A declared Content-Length over the limit fails before any body is read;
+ * chunked or unlabelled bodies are counted as they stream in.
+ */
+export function responseSizeMiddleware(maxBytes: number): ApiMiddleware {
+  return async (request, next) => {
+    const response = await next(request);
+
+    const declared = parseInt(response.headers.get("Content-Length") || "0", 10);
+    if (!isNaN(declared) && declared > maxBytes) {
+      await response.raw.body?.cancel().catch(() => {});
+      throw new ResponseSizeError(maxBytes, declared);
+    }
+
+    return { ...response, raw: limitResponseBody(response.raw, maxBytes) };
+  };
+}
+
+/**
+ * Read the response body as JSON
+ */
+export function jsonBodyMiddleware(): ApiMiddleware {
+  return async (request, next) => {
+    const response = await next(request);
+    if (response.status === 304) {
+      return response;
+    }
+    return { ...response, data: await response.raw.json() };
+  };
+}
+
+/**
+ * Log failed attempts with route and duration
+ */
+export function loggingMiddleware(): ApiMiddleware {
+  return async (request, next) => {
+    const startedAt = Date.now();
+    try {
+      return await next(request);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(
+        `[AgentApiClient] ${request.route} ${request.method} ${request.url.pathname} failed after ${Date.now() - startedAt}ms: ${message}`
+      );
+      throw error;
+    }
+  };
+}
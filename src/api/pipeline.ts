@@ -0,0 +1,164 @@
+/**
+ * Agent API Request Pipeline
+ *
+ * A single typed path for every Agent API call: a chain of middleware
+ * wrapped around one terminal fetch handler. The terminal handler owns
+ * status-to-error mapping and network error detection, so endpoints never
+ * repeat that logic.
+ */
+
+import http from "node:http";
+import https from "node:https";
+
+import {
+  AgentApiError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+} from "../errors.js";
+
+export type HttpMethod = "GET" | "POST";
+
+/**
+ * Outgoing request as seen by middleware
+ */
+export interface ApiRequest {
+  /** Route name for logging (e.g. "getProducts") */
+  route: string;
+  method: HttpMethod;
+  url: URL;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+  /** Resource label used for NotFoundError messages */
+  resource: { name: string; id?: string };
+}
+
+/**
+ * Response flowing back through middleware.
+ * `data` is populated once the JSON body has been read.
+ */
+export interface ApiResponse {
+  status: number;
+  headers: Headers;
+  raw: Response;
+  data?: unknown;
+}
+
+export type ApiHandler = (request: ApiRequest) => Promise<ApiResponse>;
+
+/** Middleware wraps the next handler in the chain */
+export type ApiMiddleware = (request: ApiRequest, next: ApiHandler) => Promise<ApiResponse>;
+
+// Shared HTTP agents for connection reuse (keep-alive)
+export const httpAgent = new http.Agent({ keepAlive: true });
+export const httpsAgent = new https.Agent({ keepAlive: true });
+
+/**
+ * Parse Retry-After header value (seconds or HTTP date)
+ */
+export function parseRetryAfter(headerValue: string | null): number | undefined {
+  if (!headerValue) return undefined;
+
+  // Try parsing as seconds
+  const seconds = parseInt(headerValue, 10);
+  if (!isNaN(seconds)) {
+    return seconds * 1000; // Convert to ms
+  }
+
+  // Try parsing as HTTP date
+  const date = new Date(headerValue);
+  if (!isNaN(date.getTime())) {
+    return date.getTime() - Date.now();
+  }
+
+  return undefined;
+}
+
+/**
+ * Check if a URL uses HTTPS
+ */
+function isHttps(url: URL): boolean {
+  return url.protocol === "https:";
+}
+
+/**
+ * Check if an error is a low-level network failure from fetch
+ */
+function isNetworkFailure(error: Error): boolean {
+  return (
+    error.message.includes("fetch failed") ||
+    error.message.includes("ENOTFOUND") ||
+    error.message.includes("ECONNREFUSED") ||
+    error.message.includes("ECONNRESET")
+  );
+}
+
+/**
+ * Map a non-OK response to a typed error
+ */
+async function toStatusError(request: ApiRequest, response: Response): Promise<AgentApiError> {
+  const errorText = await response.text().catch(() => "Unknown error");
+
+  switch (response.status) {
+    case 400:
+      return new ValidationError(errorText);
+    case 404:
+      return new NotFoundError(request.resource.name, request.resource.id);
+    case 429:
+      return new RateLimitError(parseRetryAfter(response.headers.get("Retry-After")));
+    case 500:
+    case 502:
+    case 503:
+    case 504:
+      return new ServerError(response.status, errorText);
+    default:
+      return new AgentApiError(
+        `Agent API error: ${response.status} ${response.statusText}`,
+        `HTTP_${response.status}`,
+        response.status >= 500, // Retryable if server error
+        response.status
+      );
+  }
+}
+
+/**
+ * Terminal handler: performs the fetch and maps failures to typed errors.
+ * Timeout/abort errors are left for the timeout middleware to translate.
+ */
+export const sendRequest: ApiHandler = async (request) => {
+  const fetchOptions: RequestInit & { agent?: http.Agent | https.Agent } = {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    signal: request.signal,
+    agent: isHttps(request.url) ? httpsAgent : httpAgent,
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(request.url.toString(), fetchOptions);
+  } catch (error) {
+    if (error instanceof Error && isNetworkFailure(error)) {
+      throw new NetworkError(error.message, error);
+    }
+    throw error;
+  }
+
+  // 304 Not Modified answers a conditional request from the cache layer
+  if (!response.ok && response.status !== 304) {
+    throw await toStatusError(request, response);
+  }
+
+  return { status: response.status, headers: response.headers, raw: response };
+};
+
+/**
+ * Compose middleware around a terminal handler.
+ * The first middleware in the list is the outermost.
+ */
+export function composePipeline(middleware: ApiMiddleware[], terminal: ApiHandler = sendRequest): ApiHandler {
+  return middleware.reduceRight<ApiHandler>((next, mw) => (request) => mw(request, next), terminal);
+}
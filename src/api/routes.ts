@@ -0,0 +1,83 @@
+/**
+ * Agent API Route Definitions
+ *
+ * Each endpoint is declared as data: method, path, query/body builders,
+ * a zod response schema, and the resource label for 404s. Adding an
+ * endpoint means adding a route here and a one-line client method.
+ */
+
+import type { z } from "zod";
+
+import {
+  AgentCompareResponseSchema,
+  AgentCurationListResponseSchema,
+  AgentCurationResponseSchema,
+  AgentProductsResponseSchema,
+  ApiProductSchema,
+} from "../schemas/agent-api.js";
+
+import type { HttpMethod } from "./pipeline.js";
+
+export interface ApiRoute<TParams, TSchema extends z.ZodTypeAny> {
+  name: string;
+  method: HttpMethod;
+  path: (params: TParams) => string;
+  query?: (params: TParams) => Record<string, string> | undefined;
+  body?: (params: TParams) => unknown;
+  schema: TSchema;
+  /** Resource label (and optional ID) used in NotFoundError */
+  resource: (params: TParams) => { name: string; id?: string };
+}
+
+/**
+ * Identity helper that preserves route type parameters
+ */
+function defineRoute<TParams, TSchema extends z.ZodTypeAny>(
+  route: ApiRoute<TParams, TSchema>
+): ApiRoute<TParams, TSchema> {
+  return route;
+}
+
+export const agentApiRoutes = {
+  getProducts: defineRoute({
+    name: "getProducts",
+    method: "GET",
+    path: () => "/agent/products",
+    query: (params: Record<string, string> | undefined) => params,
+    schema: AgentProductsResponseSchema,
+    resource: () => ({ name: "Resource" }),
+  }),
+
+  getProductDetail: defineRoute({
+    name: "getProductDetail",
+    method: "GET",
+    path: (productId: string) => `/agent/products/${encodeURIComponent(productId)}`,
+    schema: ApiProductSchema,
+    resource: (productId) => ({ name: "Product", id: productId }),
+  }),
+
+  compareProducts: defineRoute({
+    name: "compareProducts",
+    method: "POST",
+    path: () => "/agent/products/compare",
+    body: (productIds: string[]) => ({ productIds }),
+    schema: AgentCompareResponseSchema,
+    resource: () => ({ name: "Resource" }),
+  }),
+
+  getCuration: defineRoute({
+    name: "getCuration",
+    method: "GET",
+    path: (slug: string) => `/agent/curation/${encodeURIComponent(slug)}`,
+    schema: AgentCurationResponseSchema,
+    resource: (slug) => ({ name: "Curation", id: slug }),
+  }),
+
+  listCurations: defineRoute({
+    name: "listCurations",
+    method: "GET",
+    path: (_params: void) => "/agent/curation",
+    schema: AgentCurationListResponseSchema,
+    resource: () => ({ name: "Curation list" }),
+  }),
+};
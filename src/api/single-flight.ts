@@ -0,0 +1,90 @@
+/**
+ * In-Flight Request Coalescing for the Agent API
+ *
+ * Concurrent identical requests (same method, URL and body) share one
+ * upstream call. Each caller can still cancel independently; the upstream
+ * request is only aborted once every waiting caller has gone away.
+ */
+
+import { abortReason } from "../errors.js";
+
+import type { ApiMiddleware, ApiRequest, ApiResponse } from "./pipeline.js";
+
+interface Flight {
+  promise: Promise<ApiResponse>;
+  controller: AbortController;
+  waiters: number;
+}
+
+export interface SingleFlightStats {
+  inFlight: number;
+  coalesced: number;
+}
+
+export class SingleFlight {
+  private readonly flights = new Map<string, Flight>();
+  private coalesced = 0;
+
+  getStats(): SingleFlightStats {
+    return { inFlight: this.flights.size, coalesced: this.coalesced };
+  }
+
+  middleware(): ApiMiddleware {
+    return (request, next) => {
+      const callerSignal = request.signal;
+      if (callerSignal?.aborted) {
+        return Promise.reject(abortReason(callerSignal));
+      }
+
+      const key = this.keyFor(request);
+      let flight = this.flights.get(key);
+
+      if (flight) {
+        this.coalesced++;
+      } else {
+        // The shared call runs on its own signal, not any single caller's
+        const controller = new AbortController();
+        const release = () => {
+          if (this.flights.get(key) === flight) {
+            this.flights.delete(key);
+          }
+        };
+        const promise = next({ ...request, signal: controller.signal }).finally(release);
+        // Once every caller has gone, new callers must not join the dying call
+        controller.signal.addEventListener("abort", release, { once: true });
+        flight = { promise, controller, waiters: 0 };
+        this.flights.set(key, flight);
+      }
+
+      return this.join(flight, callerSignal);
+    };
+  }
+
+  /**
+   * Wait on a flight, detaching early if the caller's signal aborts
+   */
+  private join(flight: Flight, callerSignal: AbortSignal | undefined): Promise<ApiResponse> {
+    flight.waiters++;
+
+    if (!callerSignal) {
+      return flight.promise;
+    }
+
+    return new Promise<ApiResponse>((resolve, reject) => {
+      const onAbort = () => {
+        flight.waiters--;
+        if (flight.waiters === 0) {
+          flight.controller.abort(abortReason(callerSignal));
+        }
+        reject(abortReason(callerSignal));
+      };
+
+      callerSignal.addEventListener("abort", onAbort, { once: true });
+      flight.promise.then(resolve, reject).finally(() => callerSignal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  private keyFor(request: ApiRequest): string {
+    return `${request.method} ${request.url.toString()} ${request.body ?? ""}`;
+  }
+}
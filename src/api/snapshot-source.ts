@@ -0,0 +1,136 @@
+/**
+ * Offline Snapshot Data Source
+ *
+ * Terminal pipeline handler that answers Agent API routes from a local
+ * catalog snapshot instead of the network. Responses have the same shape
+ * as the live API, and the list filters mirror the API's query params.
+ */
+
+import { NotFoundError, ValidationError } from "../errors.js";
+import { AgentProductListItemSchema } from "../schemas/agent-api.js";
+import type { CatalogProduct, CatalogSnapshot } from "../schemas/catalog-snapshot.js";
+
+import type { ApiHandler, ApiRequest, ApiResponse } from "./pipeline.js";
+
+const DEFAULT_PAGE_LIMIT = 20;
+
+/**
+ * Parse an optional numeric query param; invalid values are a 400 upstream
+ */
+function numberParam(query: URLSearchParams, name: string): number | undefined {
+  const value = query.get(name);
+  if (value === null || value === "") return undefined;
+  const parsed = Number(value);
+  if (isNaN(parsed)) {
+    throw new ValidationError(`Invalid ${name}: ${value}`, name);
+  }
+  return parsed;
+}
+
+/**
+ * Last path segment, e.g. the product ID in `/agent/products/:id`
+ */
+function pathId(request: ApiRequest): string {
+  return decodeURIComponent(request.url.pathname.split("/").pop() ?? "");
+}
+
+/**
+ * Apply the `/agent/products` filters: search, form, conditions,
+ * minProtein, maxCarbs. Products missing a filtered metric are excluded.
+ */
+export function filterSnapshotProducts(products: CatalogProduct[], query: URLSearchParams): CatalogProduct[] {
+  const searchTerms = (query.get("search") ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+  const form = query.get("form");
+  const conditions = (query.get("conditions") ?? "")
+    .split(",")
+    .map((c) => c.trim().toLowerCase())
+    .filter(Boolean);
+  const minProtein = numberParam(query, "minProtein");
+  const maxCarbs = numberParam(query, "maxCarbs");
+
+  return products.filter((product) => {
+    if (searchTerms.length > 0) {
+      const text = [product.name, product.brand, ...product.ingredientsFull].join(" ").toLowerCase();
+      if (!searchTerms.every((term) => text.includes(term))) return false;
+    }
+    if (form && product.form !== form) return false;
+    if (conditions.length > 0) {
+      const tags = product.conditionTags.map((t) => t.toLowerCase());
+      if (!conditions.every((c) => tags.includes(c))) return false;
+    }
+    if (minProtein !== undefined && !((product.nutrition?.protein ?? -Infinity) >= minProtein)) return false;
+    if (maxCarbs !== undefined && !((product.derivedMetrics?.carbEstimated ?? Infinity) <= maxCarbs)) return false;
+    return true;
+  });
+}
+
+/**
+ * Project a stored product detail onto the list item shape
+ */
+function toListItem(product: CatalogProduct) {
+  return AgentProductListItemSchema.parse(product);
+}
+
+/**
+ * Build a pipeline terminal that serves routes from the snapshot
+ */
+export function createSnapshotHandler(snapshot: CatalogSnapshot): ApiHandler {
+  const productsById = new Map(snapshot.products.map((p) => [p.id, p]));
+  const curationsBySlug = new Map(snapshot.curations.map((c) => [c.slug, c]));
+
+  const respond = (data: unknown): ApiResponse => ({
+    status: 200,
+    headers: new Headers({ "Content-Type": "application/json" }),
+    raw: new Response(null),
+    data,
+  });
+
+  return async (request) => {
+    switch (request.route) {
+      case "getProducts": {
+        const query = request.url.searchParams;
+        const limit = numberParam(query, "limit") ?? DEFAULT_PAGE_LIMIT;
+        const offset = numberParam(query, "offset") ?? 0;
+        const matches = filterSnapshotProducts(snapshot.products, query);
+        const page = matches.slice(offset, offset + limit);
+
+        return respond({
+          items: page.map(toListItem),
+          meta: { total: matches.length, offset, limit, hasMore: offset + page.length < matches.length },
+        });
+      }
+
+      case "getProductDetail": {
+        const product = productsById.get(pathId(request));
+        if (!product) throw new NotFoundError(request.resource.name, request.resource.id);
+        return respond({ product });
+      }
+
+      case "compareProducts": {
+        const { productIds } = JSON.parse(request.body ?? "{}") as { productIds?: string[] };
+        const requested = productIds ?? [];
+        const found = requested.flatMap((id) => {
+          const product = productsById.get(id);
+          return product ? [toListItem(product)] : [];
+        });
+        return respond({ products: found, compared: found.length, requested: requested.length });
+      }
+
+      case "getCuration": {
+        const curation = curationsBySlug.get(pathId(request));
+        if (!curation) throw new NotFoundError(request.resource.name, request.resource.id);
+        return respond(curation);
+      }
+
+      case "listCurations":
+        return respond({
+          slugs: snapshot.curations.map((c) => c.slug),
+          count: snapshot.curations.length,
+          meta: { apiVersion: snapshot.manifest.apiVersion, timestamp: snapshot.manifest.createdAt },
+        });
+
+      default:
+        throw new NotFoundError("Route", request.route);
+    }
+  };
+}
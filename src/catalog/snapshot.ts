@@ -0,0 +1,120 @@
+/**
+ * Catalog Snapshot Files
+ *
+ * Reads and writes offline catalog snapshots in either of two layouts:
+ * - JSON: one `{ manifest, products, curations }` document
+ * - NDJSON (`.ndjson` / `.jsonl`): one `{ type, data }` record per line
+ *
+ * Every record is validated against the Agent API schemas on load, so a
+ * snapshot that loads is one the tools can serve.
+ */
+
+import { readFileSync, renameSync, writeFileSync } from "node:fs";
+import { extname } from "node:path";
+
+import {
+  CatalogSnapshotRecordSchema,
+  CatalogSnapshotSchema,
+  type CatalogCuration,
+  type CatalogProduct,
+  type CatalogSnapshot,
+  type CatalogSnapshotManifest,
+  type CatalogSnapshotRecord,
+} from "../schemas/catalog-snapshot.js";
+
+/**
+ * Whether a snapshot path uses the line-delimited layout
+ */
+export function isNdjsonPath(path: string): boolean {
+  const ext = extname(path).toLowerCase();
+  return ext === ".ndjson" || ext === ".jsonl";
+}
+
+/**
+ * Parse an NDJSON snapshot body
+ */
+export function parseNdjsonSnapshot(text: string): CatalogSnapshot {
+  let manifest: CatalogSnapshotManifest | undefined;
+  const products: CatalogProduct[] = [];
+  const curations: CatalogCuration[] = [];
+
+  const lines = text.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      throw new Error(`line ${i + 1}: not valid JSON`);
+    }
+
+    const parsed = CatalogSnapshotRecordSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new Error(`line ${i + 1}: ${parsed.error.message}`);
+    }
+
+    const record = parsed.data;
+    if (record.type === "manifest") manifest = record.data;
+    else if (record.type === "product") products.push(record.data);
+    else curations.push(record.data);
+  }
+
+  if (!manifest) {
+    throw new Error("missing manifest record");
+  }
+
+  return { manifest, products, curations };
+}
+
+/**
+ * Parse a JSON snapshot body
+ */
+export function parseJsonSnapshot(text: string): CatalogSnapshot {
+  const parsed = CatalogSnapshotSchema.safeParse(JSON.parse(text));
+  if (!parsed.success) {
+    throw new Error(parsed.error.message);
+  }
+  return parsed.data;
+}
+
+/**
+ * Load and validate a snapshot file. Fails fast with the file path in the
+ * message, since a bad snapshot is a startup configuration error.
+ */
+export function loadCatalogSnapshot(path: string): CatalogSnapshot {
+  try {
+    const text = readFileSync(path, "utf8");
+    return isNdjsonPath(path) ? parseNdjsonSnapshot(text) : parseJsonSnapshot(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid catalog snapshot ${path}: ${message}`);
+  }
+}
+
+/**
+ * Serialize a snapshot in the layout its path implies
+ */
+export function serializeCatalogSnapshot(snapshot: CatalogSnapshot, path: string): string {
+  if (!isNdjsonPath(path)) {
+    return JSON.stringify(snapshot, null, 2) + "\n";
+  }
+
+  const records: CatalogSnapshotRecord[] = [
+    { type: "manifest", data: snapshot.manifest },
+    ...snapshot.products.map((data) => ({ type: "product" as const, data })),
+    ...snapshot.curations.map((data) => ({ type: "curation" as const, data })),
+  ];
+  return records.map((record) => JSON.stringify(record)).join("\n") + "\n";
+}
+
+/**
+ * Write a snapshot atomically (temp file + rename), so readers never see
+ * a half-written catalog
+ */
+export function writeCatalogSnapshot(path: string, snapshot: CatalogSnapshot): void {
+  const tempPath = `${path}.tmp`;
+  writeFileSync(tempPath, serializeCatalogSnapshot(snapshot, path));
+  renameSync(tempPath, path);
+}
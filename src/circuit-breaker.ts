@@ -0,0 +1,160 @@
+/**
+ * Circuit Breaker for Agent API Calls
+ *
+ * Tracks the outcome of recent upstream calls and stops calling the API
+ * while it is degraded, so tool calls fail fast instead of waiting out
+ * the full request timeout.
+ *
+ * States:
+ * - closed: calls pass through; outcomes recorded in a sliding window
+ * - open: calls fail immediately with CircuitOpenError until openDurationMs elapses
+ * - half-open: a limited number of probe calls decide whether to close or re-open
+ */
+
+import { AgentApiError, CircuitOpenError, RateLimitError } from "./errors.js";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Failure rate (0-1) within the window that opens the circuit */
+  failureRateThreshold: number;
+  /** Minimum calls in the window before the failure rate is evaluated */
+  minimumRequests: number;
+  /** Number of most recent calls considered */
+  windowSize: number;
+  /** How long the circuit stays open before probing */
+  openDurationMs: number;
+  /** Concurrent probe calls allowed while half-open */
+  halfOpenMaxProbes: number;
+  /** Time source (overridden in tests) */
+  now?: () => number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  failureRate: number;
+  recentRequests: number;
+  /** Milliseconds until the next probe is allowed (open state only) */
+  retryAfterMs?: number;
+}
+
+/**
+ * Upstream failures that count against the circuit.
+ * Client-side errors (400, 404, validation) mean the API is up, and a 429
+ * is the API asking us to slow down (the retry layer honours Retry-After).
+ */
+function isUpstreamFailure(error: unknown): boolean {
+  if (error instanceof CircuitOpenError || error instanceof RateLimitError) return false;
+  if (error instanceof AgentApiError) return error.retryable;
+  return false;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private outcomes: boolean[] = []; // true = failure
+  private openedAt = 0;
+  private activeProbes = 0;
+  private readonly now: () => number;
+
+  constructor(private readonly options: CircuitBreakerOptions) {
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  /**
+   * Run an operation through the breaker. A call cancelled through `signal`
+   * says nothing about upstream health and is not recorded.
+   */
+  async execute<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    this.beforeCall();
+
+    const isProbe = this.state === "half-open";
+    if (isProbe) this.activeProbes++;
+
+    try {
+      const result = await operation();
+      this.recordOutcome(false, isProbe);
+      return result;
+    } catch (error) {
+      if (!signal?.aborted) this.recordOutcome(isUpstreamFailure(error), isProbe);
+      throw error;
+    } finally {
+      if (isProbe) this.activeProbes--;
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    this.refreshState();
+
+    const status: CircuitBreakerStatus = {
+      state: this.state,
+      failureRate: Math.round(this.failureRate() * 100) / 100,
+      recentRequests: this.outcomes.length,
+    };
+    if (this.state === "open") {
+      status.retryAfterMs = this.remainingOpenMs();
+    }
+    return status;
+  }
+
+  private beforeCall(): void {
+    this.refreshState();
+
+    if (this.state === "open") {
+      throw new CircuitOpenError(this.remainingOpenMs());
+    }
+
+    if (this.state === "half-open" && this.activeProbes >= this.options.halfOpenMaxProbes) {
+      throw new CircuitOpenError(0);
+    }
+  }
+
+  /**
+   * Move from open to half-open once the open duration has elapsed
+   */
+  private refreshState(): void {
+    if (this.state === "open" && this.remainingOpenMs() === 0) {
+      this.state = "half-open";
+    }
+  }
+
+  private recordOutcome(failed: boolean, isProbe: boolean): void {
+    if (isProbe) {
+      // A single probe decides: success closes, failure re-opens
+      if (failed) {
+        this.open();
+      } else {
+        this.state = "closed";
+        this.outcomes = [];
+      }
+      return;
+    }
+
+    this.outcomes.push(failed);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+
+    if (
+      this.state === "closed" &&
+      this.outcomes.length >= this.options.minimumRequests &&
+      this.failureRate() >= this.options.failureRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.state = "open";
+    this.openedAt = this.now();
+    console.error(`[CircuitBreaker] Circuit opened for ${this.options.openDurationMs}ms`);
+  }
+
+  private failureRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    return this.outcomes.filter(Boolean).length / this.outcomes.length;
+  }
+
+  private remainingOpenMs(): number {
+    return Math.max(0, this.openedAt + this.options.openDurationMs - this.now());
+  }
+}
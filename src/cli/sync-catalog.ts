@@ -0,0 +1,228 @@
+/**
+ * Catalog sync: build an offline snapshot from the live Agent API
+ *
+ * Pages through the product list, fetches each product's detail under a
+ * request-rate budget, pulls every curation, and writes a versioned
+ * snapshot with a manifest.
+ *
+ * - Resume: each fetched detail is appended to `<file>.partial` as it
+ *   arrives; an interrupted run picks those up instead of refetching.
+ * - Incremental refresh: when `<file>` already exists, a product's stored
+ *   detail is reused if every field the list reports is unchanged.
+ */
+
+import { appendFileSync, existsSync, readFileSync, rmSync } from "node:fs";
+import { isDeepStrictEqual } from "node:util";
+
+import { loadCatalogSnapshot, writeCatalogSnapshot } from "../catalog/snapshot.js";
+import { AgentApiClient } from "../client.js";
+import { config } from "../config.js";
+import { NotFoundError } from "../errors.js";
+import { TokenBucket } from "../rate-limit.js";
+import {
+  CATALOG_SNAPSHOT_FORMAT_VERSION,
+  CatalogSnapshotRecordSchema,
+  type CatalogCuration,
+  type CatalogProduct,
+  type CatalogSnapshot,
+  type CatalogSnapshotManifest,
+} from "../schemas/catalog-snapshot.js";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+export type CatalogSyncClient = Pick<
+  AgentApiClient,
+  "getProducts" | "getProductDetail" | "listCurations" | "getCuration"
+>;
+
+export interface CatalogSyncOptions {
+  /** Snapshot path; `.ndjson` / `.jsonl` selects the line-delimited layout */
+  outputPath: string;
+  /** Ignore an existing snapshot and refetch every product detail */
+  full?: boolean;
+  /** Products per list page */
+  pageSize?: number;
+  /** Upstream request budget (defaults to FITPICK_RATE_LIMIT_PER_MIN) */
+  requestsPerMinute?: number;
+  /** Overridable in tests */
+  client?: CatalogSyncClient;
+  sleep?: (ms: number) => Promise<void>;
+  log?: (message: string) => void;
+}
+
+export interface CatalogSyncResult {
+  manifest: CatalogSnapshotManifest;
+  /** Details fetched from the API in this run */
+  fetched: number;
+  /** Details reused from the previous snapshot (incremental refresh) */
+  reused: number;
+  /** Details recovered from an interrupted run */
+  resumed: number;
+  /** Products in the previous snapshot that are no longer listed */
+  removed: number;
+}
+
+type ListedProduct = Awaited<ReturnType<AgentApiClient["getProducts"]>>["items"][number];
+
+/**
+ * Path of the in-progress file used for resuming
+ */
+export function partialPathFor(outputPath: string): string {
+  return `${outputPath}.partial`;
+}
+
+/**
+ * Read details saved by an interrupted run. A torn final line (the process
+ * died mid-write) is skipped rather than failing the resume.
+ */
+function readPartialProducts(path: string): Map<string, CatalogProduct> {
+  const products = new Map<string, CatalogProduct>();
+  if (!existsSync(path)) return products;
+
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = CatalogSnapshotRecordSchema.parse(JSON.parse(line));
+      if (record.type === "product") products.set(record.data.id, record.data);
+    } catch {
+      // Ignore torn or invalid lines; the product is simply fetched again
+    }
+  }
+  return products;
+}
+
+/**
+ * Whether every field the list reports matches the stored detail
+ */
+function isUnchanged(listed: ListedProduct, stored: CatalogProduct): boolean {
+  return Object.entries(listed).every(([key, value]) =>
+    isDeepStrictEqual(value, (stored as Record<string, unknown>)[key])
+  );
+}
+
+export async function runCatalogSync(options: CatalogSyncOptions): Promise<CatalogSyncResult> {
+  if (options.client) {
+    return syncCatalog(options.client, options);
+  }
+
+  // Always sync from the API, even if FITPICK_CATALOG_SNAPSHOT is set
+  const client = new AgentApiClient({ snapshot: false });
+  try {
+    return await syncCatalog(client, options);
+  } finally {
+    client.close();
+  }
+}
+
+async function syncCatalog(client: CatalogSyncClient, options: CatalogSyncOptions): Promise<CatalogSyncResult> {
+  const { outputPath } = options;
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const log = options.log ?? ((message: string) => console.log(message));
+
+  // Stay within the upstream request budget, waiting for tokens as needed
+  const requestsPerMinute = options.requestsPerMinute ?? config.rateLimitPerMin;
+  const bucket = new TokenBucket(requestsPerMinute);
+  const throttle = async () => {
+    while (!bucket.consume().allowed) {
+      await sleep(Math.ceil(60_000 / requestsPerMinute));
+    }
+  };
+
+  const previous = !options.full && existsSync(outputPath) ? loadCatalogSnapshot(outputPath) : undefined;
+  const previousById = new Map(previous?.products.map((p) => [p.id, p]));
+  const partialPath = partialPathFor(outputPath);
+  const saved = readPartialProducts(partialPath);
+  if (saved.size > 0) {
+    log(`Resuming: ${saved.size} product details recovered from ${partialPath}`);
+  }
+
+  // 1. Page through the product list
+  const listed: ListedProduct[] = [];
+  for (let offset = 0; ; offset += pageSize) {
+    await throttle();
+    const page = await client.getProducts({ limit: String(pageSize), offset: String(offset) });
+    listed.push(...page.items);
+
+    const hasMore = page.meta.hasMore ?? offset + page.items.length < page.meta.total;
+    if (!hasMore || page.items.length === 0) break;
+  }
+  log(`Listed ${listed.length} products`);
+
+  // 2. Product details: resumed > unchanged from the previous snapshot > fetched
+  const products: CatalogProduct[] = [];
+  let fetched = 0;
+  let reused = 0;
+  let resumed = 0;
+
+  for (const item of listed) {
+    const savedDetail = saved.get(item.id);
+    if (savedDetail) {
+      products.push(savedDetail);
+      resumed++;
+      continue;
+    }
+
+    const stored = previousById.get(item.id);
+    if (stored && isUnchanged(item, stored)) {
+      products.push(stored);
+      reused++;
+      continue;
+    }
+
+    await throttle();
+    try {
+      const { product } = await client.getProductDetail(item.id);
+      appendFileSync(partialPath, JSON.stringify({ type: "product", data: product }) + "\n");
+      products.push(product);
+      fetched++;
+    } catch (error) {
+      // Delisted between the list call and the detail call
+      if (error instanceof NotFoundError) {
+        log(`Skipping ${item.id}: no longer available`);
+        continue;
+      }
+      throw error;
+    }
+
+    if (fetched % 25 === 0) {
+      log(`Fetched ${fetched} product details`);
+    }
+  }
+
+  // 3. Curations (few and small, so always refetched)
+  await throttle();
+  const curationList = await client.listCurations();
+  const curations: CatalogCuration[] = [];
+  for (const slug of curationList.slugs) {
+    await throttle();
+    curations.push(await client.getCuration(slug));
+  }
+
+  // 4. Write the snapshot, then drop the resume file
+  const listedIds = new Set(listed.map((item) => item.id));
+  const manifest: CatalogSnapshotManifest = {
+    formatVersion: CATALOG_SNAPSHOT_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    apiVersion: curationList.meta.apiVersion,
+    counts: { products: products.length, curations: curations.length },
+  };
+  const snapshot: CatalogSnapshot = { manifest, products, curations };
+
+  writeCatalogSnapshot(outputPath, snapshot);
+  rmSync(partialPath, { force: true });
+
+  const result: CatalogSyncResult = {
+    manifest,
+    fetched,
+    reused,
+    resumed,
+    removed: previous ? previous.products.filter((p) => !listedIds.has(p.id)).length : 0,
+  };
+
+  log(
+    `Wrote ${outputPath}: ${manifest.counts.products} products, ${manifest.counts.curations} curations ` +
+      `(fetched ${result.fetched}, reused ${result.reused}, resumed ${result.resumed}, removed ${result.removed})`
+  );
+  return result;
+}
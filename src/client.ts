@@ -2,81 +2,60 @@
  * HTTP Client for Bowlly Agent API
  *
  * Wraps native fetch (Node >=22) to call the Bowlly Agent API.
- * Session ID in User-Agent header, API key in x-api-key header.
+ * Session ID in User-Agent header (the calling MCP session's when known,
+ * otherwise this process's), API key in x-api-key header.
+ *
+ * Every endpoint goes through one request pipeline (see api/pipeline.ts);
+ * endpoints themselves are declared in api/routes.ts. With a catalog
+ * snapshot configured, the pipeline ends in the snapshot instead of fetch.
  */
 
-import http from "node:http";
-import https from "node:https";
-
-import { z } from "zod";
+import type { z } from "zod";
 
-import { config } from "./config.js";
 import {
-  AgentApiError,
-  NetworkError,
-  TimeoutError,
-  NotFoundError,
-  RateLimitError,
-  ServerError,
-  ValidationError,
-  ResponseSizeError,
-} from "./errors.js";
-import { ApiProductSchema, AgentProductsResponseSchema, AgentCompareResponseSchema } from "./schemas/agent-api.js";
-
-// Curation response schema
-const agentCurationResponseSchema = z.object({
-  slug: z.string(),
-  title: z.string(),
-  description: z.string(),
-  tldr: z.array(z.string()),
-  criteria: z.array(z.string()),
-  methodology: z.string(),
-  recommendedProductIds: z.array(z.string()),
-  updatedAt: z.string(),
-  canonicalUrl: z.string(),
-  sections: z
-    .array(
-      z.object({
-        heading: z.string(),
-        capsule: z.string(),
-        content: z.string(),
-      })
-    )
-    .optional(),
-  faq: z
-    .array(
-      z.object({
-        question: z.string(),
-        answer: z.string(),
-      })
-    )
-    .optional(),
-  meta: z.object({
-    apiVersion: z.string(),
-    timestamp: z.string(),
-  }),
-});
-
-const agentCurationListResponseSchema = z.object({
-  slugs: z.array(z.string()),
-  count: z.number(),
-  meta: z.object({
-    apiVersion: z.string(),
-    timestamp: z.string(),
-  }),
-});
+  circuitBreakerMiddleware,
+  headersMiddleware,
+  jsonBodyMiddleware,
+  loggingMiddleware,
+  responseSizeMiddleware,
+  retryMiddleware,
+  timeoutMiddleware,
+} from "./api/middleware.js";
+import { composePipeline, httpAgent, httpsAgent, type ApiHandler, type ApiMiddleware } from "./api/pipeline.js";
+import { HttpCache, type HttpCacheOptions, type HttpCacheStats } from "./api/http-cache.js";
+import { SingleFlight, type SingleFlightStats } from "./api/single-flight.js";
+import { createSnapshotHandler } from "./api/snapshot-source.js";
+import { loadCatalogSnapshot } from "./catalog/snapshot.js";
+import { agentApiRoutes, type ApiRoute } from "./api/routes.js";
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitBreakerStatus } from "./circuit-breaker.js";
+import { config } from "./config.js";
+import { ValidationError } from "./errors.js";
+import type { RetryClock, RetryPolicy } from "./retry.js";
+import { IngredientIndex } from "./search/ingredient-index.js";
+import { ProductNameIndex } from "./search/name-index.js";
+import type {
+  AgentCompareResponseSchema,
+  AgentCurationListResponseSchema,
+  AgentCurationResponseSchema,
+  AgentProductsResponseSchema,
+  ApiProductSchema,
+} from "./schemas/agent-api.js";
+import type { CatalogSnapshot } from "./schemas/catalog-snapshot.js";
 
 // Export inferred types
-export type AgentCurationResponse = z.infer<typeof agentCurationResponseSchema>;
-export type AgentCurationListResponse = z.infer<typeof agentCurationListResponseSchema>;
+export type AgentCurationResponse = z.infer<typeof AgentCurationResponseSchema>;
+export type AgentCurationListResponse = z.infer<typeof AgentCurationListResponseSchema>;
 export type AgentProductsResponse = z.infer<typeof AgentProductsResponseSchema>;
 export type AgentCompareResponse = z.infer<typeof AgentCompareResponseSchema>;
 export type AgentProductDetailResponse = z.infer<typeof ApiProductSchema>;
 export type AgentProductDetail = AgentProductDetailResponse["product"];
 
-// Shared HTTP agents for connection reuse (keep-alive)
-const httpAgent = new http.Agent({ keepAlive: true });
-const httpsAgent = new https.Agent({ keepAlive: true });
+/**
+ * User-Agent sent upstream, identifying the MCP session a call is made for
+ */
+function userAgent(sessionId: string): string {
+  return `bowlly-mcp/${config.serverVersion} (session=${sessionId})`;
+}
 
 /**
  * Validate API key format
@@ -94,57 +73,136 @@ function validateApiKey(apiKey: string | undefined): void {
   }
 }
 
-/**
- * Parse Retry-After header value (seconds or HTTP date)
- */
-function parseRetryAfter(headerValue: string | null): number | undefined {
-  if (!headerValue) return undefined;
-
-  // Try parsing as seconds
-  const seconds = parseInt(headerValue, 10);
-  if (!isNaN(seconds)) {
-    return seconds * 1000; // Convert to ms
-  }
-
-  // Try parsing as HTTP date
-  const date = new Date(headerValue);
-  if (!isNaN(date.getTime())) {
-    return date.getTime() - Date.now();
-  }
+export interface AgentApiClientOptions {
+  /** Override parts of the retry policy from config */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Time source for retries (tests inject a fake clock) */
+  retryClock?: RetryClock;
+  /** Override parts of the circuit breaker settings from config */
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  /** Override parts of the response cache settings from config */
+  cache?: Partial<HttpCacheOptions>;
+  /** Extra middleware, run per attempt just outside the fetch */
+  middleware?: ApiMiddleware[];
+  /**
+   * Serve from this snapshot instead of the API (defaults to
+   * FITPICK_CATALOG_SNAPSHOT); `false` always uses the API
+   */
+  snapshot?: CatalogSnapshot | false;
+}
 
-  return undefined;
+/** Per-call options for AgentApiClient methods */
+export interface AgentApiRequestOptions {
+  /** Cancels this caller's wait; a shared upstream call keeps going for other callers */
+  signal?: AbortSignal;
+  /** MCP session the call is made for, reported in the User-Agent (defaults to this process's session) */
+  sessionId?: string;
 }
 
-/**
- * Check if a URL uses HTTPS
- */
-function isHttps(url: string): boolean {
-  return url.startsWith("https://");
+/** Upstream health snapshot reported by get_health */
+export interface AgentApiHealth {
+  dataSource: "api" | "snapshot";
+  circuitBreaker: CircuitBreakerStatus;
+  cache: HttpCacheStats;
+  singleFlight: SingleFlightStats;
 }
 
 export class AgentApiClient {
   private readonly baseUrl: string;
-  private readonly headers: Record<string, string>;
-  private readonly httpAgent: http.Agent;
-  private readonly httpsAgent: https.Agent;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly cache: HttpCache;
+  private readonly singleFlight = new SingleFlight();
+  private readonly pipeline: ApiHandler;
+  private readonly dataSource: AgentApiHealth["dataSource"];
 
-  constructor() {
+  /** Full ingredient lists seen so far (detail fetches and snapshot) */
+  readonly ingredientIndex: IngredientIndex;
+
+  /** Names and brands seen so far (list and detail responses and snapshot) */
+  readonly nameIndex: ProductNameIndex;
+
+  constructor(options: AgentApiClientOptions = {}) {
     // Validate API key format
     validateApiKey(config.apiKey);
 
     this.baseUrl = config.apiBaseUrl;
-    this.headers = {
-      "User-Agent": `bowlly-mcp/${config.serverVersion} (session=${config.sessionId})`,
+
+    const headers: Record<string, string> = {
+      "User-Agent": userAgent(config.sessionId),
       "x-agent-source": config.agentName,
       "X-API-Version": "v1",
     };
     if (config.apiKey) {
-      this.headers["x-api-key"] = config.apiKey;
+      headers["x-api-key"] = config.apiKey;
     }
 
-    // Use shared agents for connection reuse
-    this.httpAgent = httpAgent;
-    this.httpsAgent = httpsAgent;
+    const retryPolicy: RetryPolicy = {
+      maxAttempts: config.retryMaxAttempts,
+      baseDelayMs: config.retryBaseDelayMs,
+      maxDelayMs: config.retryMaxDelayMs,
+      deadlineMs: config.retryDeadlineMs,
+      jitterRatio: config.retryJitterRatio,
+      ...options.retryPolicy,
+    };
+
+    this.circuitBreaker = new CircuitBreaker({
+      failureRateThreshold: config.circuitFailureRateThreshold,
+      minimumRequests: config.circuitMinimumRequests,
+      windowSize: config.circuitWindowSize,
+      openDurationMs: config.circuitOpenDurationMs,
+      halfOpenMaxProbes: config.circuitHalfOpenMaxProbes,
+      ...options.circuitBreaker,
+    });
+
+    this.cache = new HttpCache({
+      maxEntries: config.cacheMaxEntries,
+      ttlByRoute: {
+        [agentApiRoutes.getProducts.name]: config.cacheTtlProductsMs,
+        [agentApiRoutes.getProductDetail.name]: config.cacheTtlProductDetailMs,
+        [agentApiRoutes.getCuration.name]: config.cacheTtlCurationMs,
+        [agentApiRoutes.listCurations.name]: config.cacheTtlCurationMs,
+      },
+      ...options.cache,
+    });
+
+    const snapshot =
+      options.snapshot ?? (config.catalogSnapshotPath ? loadCatalogSnapshot(config.catalogSnapshotPath) : false);
+    this.dataSource = snapshot ? "snapshot" : "api";
+    // A snapshot is indexed whole, so its lists are never looked up again
+    const indexCapacity = Math.max(config.ingredientIndexMaxProducts, snapshot ? snapshot.products.length : 0);
+    this.ingredientIndex = new IngredientIndex({ maxProducts: indexCapacity });
+    this.nameIndex = new ProductNameIndex({ maxProducts: indexCapacity });
+
+    if (snapshot) {
+      for (const product of snapshot.products) {
+        this.ingredientIndex.add(product.id, product.ingredientsFull);
+        this.nameIndex.add(product);
+      }
+
+      // Local reads: no caching, retries, breaker or timeouts to apply
+      this.pipeline = composePipeline(
+        [loggingMiddleware(), ...(options.middleware ?? [])],
+        createSnapshotHandler(snapshot)
+      );
+      return;
+    }
+
+    // Outermost first. Fresh cache hits skip everything else; concurrent
+    // identical misses then share one call; retries wrap the breaker so an
+    // open circuit stops further attempts; everything below the breaker
+    // runs once per attempt.
+    this.pipeline = composePipeline([
+      this.cache.middleware(),
+      this.singleFlight.middleware(),
+      retryMiddleware(retryPolicy, options.retryClock),
+      circuitBreakerMiddleware(this.circuitBreaker),
+      loggingMiddleware(),
+      timeoutMiddleware(config.apiTimeoutMs),
+      headersMiddleware(headers),
+      jsonBodyMiddleware(),
+      responseSizeMiddleware(config.maxResponseSizeBytes),
+      ...(options.middleware ?? []),
+    ]);
   }
 
   /**
@@ -152,402 +210,78 @@ export class AgentApiClient {
    * Should be called when the client is no longer needed
    */
   close(): void {
-    this.httpAgent.destroy();
-    this.httpsAgent.destroy();
+    httpAgent.destroy();
+    httpsAgent.destroy();
   }
 
-  async getProducts(params?: Record<string, string>): Promise<AgentProductsResponse> {
-    // Build URL with query params
-    const url = new URL("/agent/products", this.baseUrl);
-    if (params) {
-      for (const [key, value] of Object.entries(params)) {
-        url.searchParams.set(key, value);
-      }
-    }
-
-    try {
-      // Check Content-Length header before fetching body
-      const headResponse = await fetch(url.toString(), {
-        method: "HEAD",
-        headers: this.headers,
-        signal: AbortSignal.timeout(config.apiTimeoutMs),
-      });
-
-      const contentLength = headResponse.headers.get("Content-Length");
-      if (contentLength) {
-        const size = parseInt(contentLength, 10);
-        if (!isNaN(size) && size > config.maxResponseSizeBytes) {
-          throw new ResponseSizeError(config.maxResponseSizeBytes, size);
-        }
-      }
-
-      // Fetch with AbortSignal.timeout and connection reuse
-      const fetchOptions: RequestInit & { agent?: http.Agent | https.Agent } = {
-        method: "GET",
-        headers: this.headers,
-        signal: AbortSignal.timeout(config.apiTimeoutMs),
-        agent: isHttps(url.toString()) ? this.httpsAgent : this.httpAgent,
-      };
-      const response = await fetch(url.toString(), fetchOptions);
-
-      // Handle non-OK responses with typed errors
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => "Unknown error");
-        console.error(`[AgentApiClient] API error ${response.status}: ${errorText}`);
-
-        // Map HTTP status codes to typed errors
-        switch (response.status) {
-          case 400:
-            throw new ValidationError(errorText);
-          case 404:
-            throw new NotFoundError("Resource");
-          case 429: {
-            const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
-            throw new RateLimitError(retryAfter);
-          }
-          case 500:
-          case 502:
-          case 503:
-          case 504:
-            throw new ServerError(response.status, errorText);
-          default:
-            throw new AgentApiError(
-              `Agent API error: ${response.status} ${response.statusText}`,
-              `HTTP_${response.status}`,
-              response.status >= 500, // Retryable if server error
-              response.status
-            );
-        }
-      }
-
-      // Check response body size
-      const responseSize = parseInt(response.headers.get("Content-Length") || "0", 10);
-      if (responseSize > config.maxResponseSizeBytes) {
-        throw new ResponseSizeError(config.maxResponseSizeBytes, responseSize);
-      }
-
-      // Parse and validate JSON
-      const raw = await response.json();
-      return AgentProductsResponseSchema.parse(raw);
-    } catch (error) {
-      // Re-throw known errors
-      if (error instanceof AgentApiError) {
-        throw error;
-      }
-
-      // Handle timeout errors
-      if (error instanceof Error && error.name === "TimeoutError") {
-        throw new TimeoutError(config.apiTimeoutMs);
-      }
-
-      // Handle network errors
-      if (
-        error instanceof Error &&
-        (error.message.includes("fetch failed") ||
-          error.message.includes("ENOTFOUND") ||
-          error.message.includes("ECONNREFUSED") ||
-          error.message.includes("ECONNRESET"))
-      ) {
-        throw new NetworkError(error.message, error);
-      }
-
-      // Re-throw unexpected errors
-      throw error;
-    }
+  /**
+   * Upstream health for get_health
+   */
+  getHealth(): AgentApiHealth {
+    return {
+      dataSource: this.dataSource,
+      circuitBreaker: this.circuitBreaker.getStatus(),
+      cache: this.cache.getStats(),
+      singleFlight: this.singleFlight.getStats(),
+    };
   }
 
-  async getProductDetail(productId: string): Promise<AgentProductDetailResponse> {
-    const url = new URL(`/agent/products/${encodeURIComponent(productId)}`, this.baseUrl);
-
-    try {
-      const fetchOptions: RequestInit & { agent?: http.Agent | https.Agent } = {
-        headers: this.headers,
-        signal: AbortSignal.timeout(config.apiTimeoutMs),
-        agent: isHttps(url.toString()) ? this.httpsAgent : this.httpAgent,
-      };
-      const res = await fetch(url.toString(), fetchOptions);
-
-      // Handle non-OK responses with typed errors
-      if (!res.ok) {
-        const errorText = await res.text().catch(() => "Unknown error");
-        console.error(`[AgentApiClient] API error ${res.status}: ${errorText}`);
-
-        switch (res.status) {
-          case 400:
-            throw new ValidationError(errorText);
-          case 404:
-            throw new NotFoundError("Product", productId);
-          case 429: {
-            const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
-            throw new RateLimitError(retryAfter);
-          }
-          case 500:
-          case 502:
-          case 503:
-          case 504:
-            throw new ServerError(res.status, errorText);
-          default:
-            throw new AgentApiError(
-              `Agent API error: ${res.status} ${res.statusText}`,
-              `HTTP_${res.status}`,
-              res.status >= 500,
-              res.status
-            );
-        }
-      }
-
-      // Check response size
-      const responseSize = parseInt(res.headers.get("Content-Length") || "0", 10);
-      if (responseSize > config.maxResponseSizeBytes) {
-        throw new ResponseSizeError(config.maxResponseSizeBytes, responseSize);
-      }
-
-      const raw = await res.json();
-      return ApiProductSchema.parse(raw);
-    } catch (error) {
-      // Re-throw known errors
-      if (error instanceof AgentApiError) {
-        throw error;
-      }
-
-      // Handle timeout errors
-      if (error instanceof Error && error.name === "TimeoutError") {
-        throw new TimeoutError(config.apiTimeoutMs);
-      }
-
-      // Handle network errors
-      if (
-        error instanceof Error &&
-        (error.message.includes("fetch failed") ||
-          error.message.includes("ENOTFOUND") ||
-          error.message.includes("ECONNREFUSED") ||
-          error.message.includes("ECONNRESET"))
-      ) {
-        throw new NetworkError(error.message, error);
-      }
-
-      throw error;
-    }
+  async getProducts(params?: Record<string, string>, options?: AgentApiRequestOptions): Promise<AgentProductsResponse> {
+    const response = await this.execute(agentApiRoutes.getProducts, params, options);
+    for (const item of response.items ?? []) this.nameIndex.add(item);
+    return response;
   }
 
-  async compareProducts(productIds: string[]): Promise<AgentCompareResponse> {
-    const url = new URL("/agent/products/compare", this.baseUrl);
-
-    try {
-      const fetchOptions: RequestInit & { agent?: http.Agent | https.Agent } = {
-        method: "POST",
-        headers: { ...this.headers, "Content-Type": "application/json" },
-        body: JSON.stringify({ productIds }),
-        signal: AbortSignal.timeout(config.apiTimeoutMs),
-        agent: isHttps(url.toString()) ? this.httpsAgent : this.httpAgent,
-      };
-      const res = await fetch(url.toString(), fetchOptions);
-
-      // Handle non-OK responses with typed errors
-      if (!res.ok) {
-        const errorText = await res.text().catch(() => "Unknown error");
-        console.error(`[AgentApiClient] API error ${res.status}: ${errorText}`);
-
-        switch (res.status) {
-          case 400:
-            throw new ValidationError(errorText);
-          case 404:
-            throw new NotFoundError("Resource");
-          case 429: {
-            const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
-            throw new RateLimitError(retryAfter);
-          }
-          case 500:
-          case 502:
-          case 503:
-          case 504:
-            throw new ServerError(res.status, errorText);
-          default:
-            throw new AgentApiError(
-              `Agent API error: ${res.status} ${res.statusText}`,
-              `HTTP_${res.status}`,
-              res.status >= 500,
-              res.status
-            );
-        }
-      }
-
-      // Check response size
-      const responseSize = parseInt(res.headers.get("Content-Length") || "0", 10);
-      if (responseSize > config.maxResponseSizeBytes) {
-        throw new ResponseSizeError(config.maxResponseSizeBytes, responseSize);
-      }
-
-      const raw = await res.json();
-      return AgentCompareResponseSchema.parse(raw);
-    } catch (error) {
-      // Re-throw known errors
-      if (error instanceof AgentApiError) {
-        throw error;
-      }
-
-      // Handle timeout errors
-      if (error instanceof Error && error.name === "TimeoutError") {
-        throw new TimeoutError(config.apiTimeoutMs);
-      }
-
-      // Handle network errors
-      if (
-        error instanceof Error &&
-        (error.message.includes("fetch failed") ||
-          error.message.includes("ENOTFOUND") ||
-          error.message.includes("ECONNREFUSED") ||
-          error.message.includes("ECONNRESET"))
-      ) {
-        throw new NetworkError(error.message, error);
-      }
-
-      throw error;
-    }
+  async getProductDetail(productId: string, options?: AgentApiRequestOptions): Promise<AgentProductDetailResponse> {
+    const response = await this.execute(agentApiRoutes.getProductDetail, productId, options);
+    this.ingredientIndex.add(response.product.id, response.product.ingredientsFull);
+    this.nameIndex.add(response.product);
+    return response;
   }
 
-  async getCuration(slug: string): Promise<AgentCurationResponse> {
-    const url = new URL(`/agent/curation/${encodeURIComponent(slug)}`, this.baseUrl);
-
-    try {
-      const fetchOptions: RequestInit & { agent?: http.Agent | https.Agent } = {
-        method: "GET",
-        headers: this.headers,
-        signal: AbortSignal.timeout(config.apiTimeoutMs),
-        agent: isHttps(url.toString()) ? this.httpsAgent : this.httpAgent,
-      };
-      const res = await fetch(url.toString(), fetchOptions);
-
-      // Handle non-OK responses with typed errors
-      if (!res.ok) {
-        const errorText = await res.text().catch(() => "Unknown error");
-        console.error(`[AgentApiClient] API error ${res.status}: ${errorText}`);
-
-        switch (res.status) {
-          case 400:
-            throw new ValidationError(errorText);
-          case 404:
-            throw new NotFoundError("Curation", slug);
-          case 429: {
-            const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
-            throw new RateLimitError(retryAfter);
-          }
-          case 500:
-          case 502:
-          case 503:
-          case 504:
-            throw new ServerError(res.status, errorText);
-          default:
-            throw new AgentApiError(
-              `Agent API error: ${res.status} ${res.statusText}`,
-              `HTTP_${res.status}`,
-              res.status >= 500,
-              res.status
-            );
-        }
-      }
-
-      // Check response size
-      const responseSize = parseInt(res.headers.get("Content-Length") || "0", 10);
-      if (responseSize > config.maxResponseSizeBytes) {
-        throw new ResponseSizeError(config.maxResponseSizeBytes, responseSize);
-      }
-
-      const raw = await res.json();
-      return agentCurationResponseSchema.parse(raw);
-    } catch (error) {
-      // Re-throw known errors
-      if (error instanceof AgentApiError) {
-        throw error;
-      }
-
-      // Handle timeout errors
-      if (error instanceof Error && error.name === "TimeoutError") {
-        throw new TimeoutError(config.apiTimeoutMs);
-      }
-
-      // Handle network errors
-      if (
-        error instanceof Error &&
-        (error.message.includes("fetch failed") ||
-          error.message.includes("ENOTFOUND") ||
-          error.message.includes("ECONNREFUSED") ||
-          error.message.includes("ECONNRESET"))
-      ) {
-        throw new NetworkError(error.message, error);
-      }
-
-      throw error;
-    }
+  async compareProducts(productIds: string[], options?: AgentApiRequestOptions): Promise<AgentCompareResponse> {
+    return this.execute(agentApiRoutes.compareProducts, productIds, options);
   }
 
-  async listCurations(): Promise<AgentCurationListResponse> {
-    const url = new URL("/agent/curation", this.baseUrl);
-
-    try {
-      const fetchOptions: RequestInit & { agent?: http.Agent | https.Agent } = {
-        method: "GET",
-        headers: this.headers,
-        signal: AbortSignal.timeout(config.apiTimeoutMs),
-        agent: isHttps(url.toString()) ? this.httpsAgent : this.httpAgent,
-      };
-      const res = await fetch(url.toString(), fetchOptions);
-
-      if (!res.ok) {
-        const errorText = await res.text().catch(() => "Unknown error");
-        console.error(`[AgentApiClient] API error ${res.status}: ${errorText}`);
-
-        switch (res.status) {
-          case 400:
-            throw new ValidationError(errorText);
-          case 404:
-            throw new NotFoundError("Curation list");
-          case 429: {
-            const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
-            throw new RateLimitError(retryAfter);
-          }
-          case 500:
-          case 502:
-          case 503:
-          case 504:
-            throw new ServerError(res.status, errorText);
-          default:
-            throw new AgentApiError(
-              `Agent API error: ${res.status} ${res.statusText}`,
-              `HTTP_${res.status}`,
-              res.status >= 500,
-              res.status
-            );
-        }
-      }
-
-      const responseSize = parseInt(res.headers.get("Content-Length") || "0", 10);
-      if (responseSize > config.maxResponseSizeBytes) {
-        throw new ResponseSizeError(config.maxResponseSizeBytes, responseSize);
-      }
-
-      const raw = await res.json();
-      return agentCurationListResponseSchema.parse(raw);
-    } catch (error) {
-      if (error instanceof AgentApiError) {
-        throw error;
-      }
+  async getCuration(slug: string, options?: AgentApiRequestOptions): Promise<AgentCurationResponse> {
+    return this.execute(agentApiRoutes.getCuration, slug, options);
+  }
 
-      if (error instanceof Error && error.name === "TimeoutError") {
-        throw new TimeoutError(config.apiTimeoutMs);
-      }
+  async listCurations(options?: AgentApiRequestOptions): Promise<AgentCurationListResponse> {
+    return this.execute(agentApiRoutes.listCurations, undefined, options);
+  }
 
-      if (
-        error instanceof Error &&
-        (error.message.includes("fetch failed") ||
-          error.message.includes("ENOTFOUND") ||
-          error.message.includes("ECONNREFUSED") ||
-          error.message.includes("ECONNRESET"))
-      ) {
-        throw new NetworkError(error.message, error);
+  /**
+   * Run a route through the pipeline and validate the JSON body
+   */
+  private async execute<TParams, TSchema extends z.ZodTypeAny>(
+    route: ApiRoute<TParams, TSchema>,
+    params: TParams,
+    options: AgentApiRequestOptions = {}
+  ): Promise<z.infer<TSchema>> {
+    const url = new URL(route.path(params), this.baseUrl);
+    const query = route.query?.(params);
+    if (query) {
+      for (const [key, value] of Object.entries(query)) {
+        url.searchParams.set(key, value);
       }
-
-      throw error;
     }
+
+    const body = route.body?.(params);
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+    if (options.sessionId) headers["User-Agent"] = userAgent(options.sessionId);
+
+    const response = await this.pipeline({
+      route: route.name,
+      method: route.method,
+      url,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: options.signal,
+      resource: route.resource(params),
+    });
+
+    return route.schema.parse(response.data);
   }
 }
@@ -5,7 +5,7 @@
  * All configuration is loaded at import time and frozen.
  */
 
-import { randomUUID } from "node:crypto";
+import { randomBytes, randomUUID } from "node:crypto";
 
 // ============================================
 // Environment Variable Parsing
@@ -31,6 +31,43 @@ function parsePositiveInt(value: string | undefined, defaultValue: number): numb
   return parsed;
 }
 
+/**
+ * Parse the MCP transport mode from an environment variable.
+ * Returns "stdio" for undefined or unrecognized values.
+ *
+ * @param value - The environment variable value (may be undefined)
+ * @returns The transport mode
+ */
+function parseTransport(value: string | undefined): TransportMode {
+  if (value === undefined) {
+    return "stdio";
+  }
+  if (value === "stdio" || value === "http") {
+    return value;
+  }
+  console.warn(`[Config] Invalid transport "${value}", using default: stdio`);
+  return "stdio";
+}
+
+/**
+ * Parse a comma-separated list from an environment variable.
+ * Returns the default list if the input is undefined or has no entries.
+ *
+ * @param value - The environment variable value (may be undefined)
+ * @param defaultValue - The default list
+ * @returns The trimmed, non-empty entries
+ */
+function parseList(value: string | undefined, defaultValue: string[]): string[] {
+  const entries = (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return entries.length > 0 ? entries : defaultValue;
+}
+
+/** Supported MCP transports: local stdio or shared Streamable HTTP (+ legacy SSE) */
+export type TransportMode = "stdio" | "http";
+
 /**
  * Server configuration object.
  * All values are frozen at import time to prevent runtime modification.
@@ -40,6 +77,13 @@ export const config = Object.freeze({
   apiBaseUrl: process.env.FITPICK_API_BASE_URL ?? process.env.FITPICK_API_URL ?? "https://api.bowlly.net",
   apiKey: process.env.FITPICK_API_KEY,
 
+  // Offline catalog snapshot (JSON or NDJSON); when set, no API calls are made
+  catalogSnapshotPath: process.env.FITPICK_CATALOG_SNAPSHOT,
+
+  // Signs search_products pagination cursors. Random per process unless set;
+  // set it when several instances serve the same agents so cursors stay valid.
+  cursorSecret: process.env.FITPICK_CURSOR_SECRET ?? randomBytes(32).toString("hex"),
+
   // Agent Identification
   agentName: process.env.FITPICK_AGENT_NAME ?? "mcp",
 
@@ -47,8 +91,23 @@ export const config = Object.freeze({
   rateLimitPerMin: parsePositiveInt(process.env.FITPICK_RATE_LIMIT_PER_MIN, 100),
 
   // Session Tracking (MCP-09: crypto.randomUUID for session identification)
+  // Process-wide ID: used as the stdio session and in the API User-Agent.
+  // HTTP transports assign each MCP session its own ID.
   sessionId: randomUUID(),
 
+  // Transport (stdio for local clients, http for shared multi-agent hosting)
+  transport: parseTransport(process.env.FITPICK_TRANSPORT),
+  httpHost: process.env.FITPICK_HTTP_HOST ?? "127.0.0.1",
+  httpPort: parsePositiveInt(process.env.FITPICK_HTTP_PORT, 3000),
+  // DNS rebinding protection: Host header names (without port) the HTTP
+  // transport answers to, and browser origins allowed to call it. With no
+  // origins configured, an Origin must point at one of the allowed hosts.
+  // Add the public hostname when binding beyond loopback; "*" allows any.
+  httpAllowedHosts: parseList(process.env.FITPICK_HTTP_ALLOWED_HOSTS, ["localhost", "127.0.0.1", "[::1]"]),
+  httpAllowedOrigins: parseList(process.env.FITPICK_HTTP_ALLOWED_ORIGINS, []),
+  // Sessions without a request for this long are closed
+  httpSessionIdleTimeoutMs: parsePositiveInt(process.env.FITPICK_HTTP_SESSION_IDLE_MS, 30 * 60_000),
+
   // Server Metadata
   serverName: "Bowlly",
   serverVersion: "0.1.2",
@@ -56,6 +115,29 @@ export const config = Object.freeze({
   // Timeouts
   apiTimeoutMs: 8_000, // 8 seconds per research recommendation
 
+  // Retry policy (exponential backoff with jitter)
+  retryMaxAttempts: parsePositiveInt(process.env.FITPICK_RETRY_MAX_ATTEMPTS, 3),
+  retryBaseDelayMs: parsePositiveInt(process.env.FITPICK_RETRY_BASE_DELAY_MS, 250),
+  retryMaxDelayMs: parsePositiveInt(process.env.FITPICK_RETRY_MAX_DELAY_MS, 4_000),
+  retryDeadlineMs: parsePositiveInt(process.env.FITPICK_RETRY_DEADLINE_MS, 20_000),
+  retryJitterRatio: 0.5,
+
+  // Circuit breaker (failure-rate based)
+  circuitFailureRateThreshold: parsePositiveInt(process.env.FITPICK_CIRCUIT_FAILURE_RATE_PCT, 50) / 100,
+  circuitMinimumRequests: parsePositiveInt(process.env.FITPICK_CIRCUIT_MIN_REQUESTS, 10),
+  circuitWindowSize: parsePositiveInt(process.env.FITPICK_CIRCUIT_WINDOW_SIZE, 20),
+  circuitOpenDurationMs: parsePositiveInt(process.env.FITPICK_CIRCUIT_OPEN_MS, 30_000),
+  circuitHalfOpenMaxProbes: 1,
+
+  // Response cache (per-route freshness when the API sends no max-age)
+  cacheMaxEntries: parsePositiveInt(process.env.FITPICK_CACHE_MAX_ENTRIES, 500),
+  cacheTtlProductsMs: parsePositiveInt(process.env.FITPICK_CACHE_TTL_PRODUCTS_MS, 60_000),
+  cacheTtlProductDetailMs: parsePositiveInt(process.env.FITPICK_CACHE_TTL_PRODUCT_DETAIL_MS, 300_000),
+  cacheTtlCurationMs: parsePositiveInt(process.env.FITPICK_CACHE_TTL_CURATION_MS, 300_000),
+
+  // Full ingredient lists kept for include/exclude filtering
+  ingredientIndexMaxProducts: parsePositiveInt(process.env.FITPICK_INGREDIENT_INDEX_MAX_PRODUCTS, 5_000),
+
   // Response size limits
   maxResponseSizeBytes: parsePositiveInt(
     process.env.FITPICK_MAX_RESPONSE_SIZE_BYTES,
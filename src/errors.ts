@@ -164,3 +164,30 @@ export class ResponseSizeError extends AgentApiError {
     Object.setPrototypeOf(this, ResponseSizeError.prototype);
   }
 }
+
+/**
+ * Circuit breaker is open (upstream degraded) - call was not attempted
+ */
+export class CircuitOpenError extends AgentApiError {
+  readonly retryAfterMs: number;
+
+  constructor(retryAfterMs: number) {
+    super(
+      "Agent API is temporarily unavailable (circuit open)",
+      "CIRCUIT_OPEN",
+      false, // Fail fast; callers should back off instead of retrying immediately
+      undefined
+    );
+    this.name = "CircuitOpenError";
+    this.retryAfterMs = retryAfterMs;
+
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Reason used when a caller's signal aborts without one
+ */
+export function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("The operation was aborted.", "AbortError");
+}
@@ -15,13 +15,23 @@ Usage:
   fitpick-mcp [options]
 
 Options:
-  --setup, -s    Run interactive setup and configuration
-  --version, -v  Show version number
-  --help, -h     Show this help message
+  --setup, -s            Run interactive setup and configuration
+  --sync-catalog <file>  Build or refresh an offline catalog snapshot, then exit
+  --full                 With --sync-catalog: refetch every product detail
+  --transport <mode>     Transport: stdio (default) or http
+  --host <host>          HTTP bind address (default 127.0.0.1)
+  --port <port>          HTTP port (default 3000)
+  --version, -v          Show version number
+  --help, -h             Show this help message
 
 Environment Variables:
-  FITPICK_API_BASE_URL  Bowlly API base URL (optional)
-  FITPICK_API_URL       Alias for FITPICK_API_BASE_URL (optional)
+  FITPICK_API_BASE_URL      Bowlly API base URL (optional)
+  FITPICK_API_URL           Alias for FITPICK_API_BASE_URL (optional)
+  FITPICK_TRANSPORT         Transport mode: stdio or http (optional)
+  FITPICK_HTTP_HOST         HTTP bind address (optional)
+  FITPICK_HTTP_PORT         HTTP port (optional)
+  FITPICK_CATALOG_SNAPSHOT  Serve from a local catalog snapshot (optional)
+  FITPICK_CURSOR_SECRET     Secret for signing search cursors (optional)
 
 For more information: https://bowlly.net
 `);
@@ -33,6 +43,14 @@ if (args.includes("--version") || args.includes("-v")) {
   process.exit(0);
 }
 
+/**
+ * Read the value following a CLI flag (e.g. `--port 8080`)
+ */
+function getArgValue(flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
 if (args.includes("--setup") || args.includes("-s")) {
   import("./cli/setup.js")
     .then(({ runSetup }) => runSetup())
@@ -40,10 +58,36 @@ if (args.includes("--setup") || args.includes("-s")) {
       console.error("Failed to load setup module:", err);
       process.exit(1);
     });
+} else if (args.includes("--sync-catalog")) {
+  const outputPath = getArgValue("--sync-catalog");
+  if (!outputPath || outputPath.startsWith("--")) {
+    console.error("Missing snapshot path: --sync-catalog <file>");
+    process.exit(1);
+  }
+
+  import("./cli/sync-catalog.js")
+    .then(({ runCatalogSync }) => runCatalogSync({ outputPath, full: args.includes("--full") }))
+    .catch((err) => {
+      console.error("Catalog sync failed (rerun the same command to resume):", err);
+      process.exit(1);
+    });
 } else {
   // Normal MCP server startup
+  const transport = getArgValue("--transport");
+  if (transport !== undefined && transport !== "stdio" && transport !== "http") {
+    console.error(`Invalid --transport "${transport}". Expected "stdio" or "http".`);
+    process.exit(1);
+  }
+
+  const portArg = getArgValue("--port");
+  const port = portArg !== undefined ? parseInt(portArg, 10) : undefined;
+  if (port !== undefined && (isNaN(port) || port < 0 || port > 65535)) {
+    console.error(`Invalid --port "${portArg}".`);
+    process.exit(1);
+  }
+
   import("./server.js")
-    .then(({ startServer }) => startServer())
+    .then(({ startServer }) => startServer({ transport, host: getArgValue("--host"), port }))
     .catch((err) => {
       console.error("Failed to load server module:", err);
       process.exit(1);
@@ -0,0 +1,152 @@
+/**
+ * Allergen Taxonomy
+ *
+ * Protein-source exclusion groups for elimination diets. Unlike plain
+ * ingredient matching (where "chicken" does not match "chicken fat"), a
+ * group covers every form of the source: meals, fats, organs, broths,
+ * hydrolyzed proteins, flavors and by-products.
+ *
+ * An ingredient belongs to a group when it resolves to one of the group's
+ * canonical ingredients (or a form of one), or when its normalized text
+ * contains one of the group's terms as whole words.
+ */
+
+import { containsPhrase, isFormOf, normalizeIngredient, resolveIngredient } from "./normalize.js";
+import { INGREDIENT_VOCABULARY } from "./vocabulary.js";
+
+export const ALLERGEN_GROUP_IDS = [
+  "poultry",
+  "chicken",
+  "fish",
+  "beef",
+  "pork",
+  "lamb",
+  "dairy",
+  "egg",
+  "soy",
+  "wheat",
+  "corn",
+] as const;
+
+export type AllergenGroupId = (typeof ALLERGEN_GROUP_IDS)[number];
+
+export interface AllergenGroup {
+  id: AllergenGroupId;
+  /** What the rule excludes, for agents to relay to the user */
+  description: string;
+  /** Canonical vocabulary names; their more specific forms are included */
+  canonical: string[];
+  /** Words that mark the source in any spelling ("chicken" in "chicken fat") */
+  terms: string[];
+}
+
+export const ALLERGEN_GROUPS: Record<AllergenGroupId, AllergenGroup> = {
+  poultry: {
+    id: "poultry",
+    description: "Chicken, turkey, duck and other fowl in any form (meal, fat, organs, broth, hydrolyzed), plus eggs",
+    canonical: ["poultry", "chicken fat", "chicken flavor", "egg"],
+    terms: ["poultry", "fowl", "chicken", "turkey", "duck", "goose", "quail", "pheasant", "egg"],
+  },
+  chicken: {
+    id: "chicken",
+    description: "Chicken in any form (meal, fat, organs, broth, hydrolyzed, flavor)",
+    canonical: ["chicken", "chicken fat", "chicken flavor"],
+    terms: ["chicken"],
+  },
+  fish: {
+    id: "fish",
+    description: "Fish in any form (meal, oil, broth, flavor), including named species",
+    canonical: ["fish", "fish oil", "fish flavor"],
+    terms: [
+      "fish",
+      "salmon",
+      "tuna",
+      "whitefish",
+      "sardine",
+      "mackerel",
+      "trout",
+      "herring",
+      "cod",
+      "pollock",
+      "menhaden",
+      "anchovy",
+      "tilapia",
+      "pilchard",
+    ],
+  },
+  beef: {
+    id: "beef",
+    description: "Beef in any form (meal, organs, tallow, broth)",
+    canonical: ["beef"],
+    terms: ["beef", "bovine", "tallow"],
+  },
+  pork: {
+    id: "pork",
+    description: "Pork in any form (meal, organs, fat, broth)",
+    canonical: ["pork"],
+    terms: ["pork", "porcine", "lard"],
+  },
+  lamb: {
+    id: "lamb",
+    description: "Lamb and mutton in any form",
+    canonical: ["lamb"],
+    terms: ["lamb", "mutton"],
+  },
+  dairy: {
+    id: "dairy",
+    description: "Milk and milk-derived ingredients (cheese, whey, casein, yogurt)",
+    canonical: [],
+    terms: ["milk", "cheese", "whey", "casein", "lactose", "yogurt", "butter", "cream", "dairy"],
+  },
+  egg: {
+    id: "egg",
+    description: "Eggs and egg products",
+    canonical: ["egg"],
+    terms: ["egg"],
+  },
+  soy: {
+    id: "soy",
+    description: "Soy in any form (meal, protein, flour, oil)",
+    canonical: ["soy"],
+    terms: ["soy", "soybean"],
+  },
+  wheat: {
+    id: "wheat",
+    description: "Wheat in any form (flour, gluten, middlings)",
+    canonical: ["wheat", "wheat gluten"],
+    terms: ["wheat"],
+  },
+  corn: {
+    id: "corn",
+    description: "Corn in any form (meal, gluten, starch)",
+    canonical: ["corn", "corn gluten meal"],
+    terms: ["corn", "maize"],
+  },
+};
+
+const vocabularyByName = new Map(INGREDIENT_VOCABULARY.map((entry) => [entry.name, entry]));
+
+/**
+ * Whether a label ingredient belongs to an allergen group
+ */
+export function isInAllergenGroup(ingredient: string, group: AllergenGroup): boolean {
+  const { normalized, canonical } = resolveIngredient(ingredient);
+
+  if (canonical) {
+    for (const name of group.canonical) {
+      const groupIngredient = vocabularyByName.get(name);
+      if (groupIngredient && isFormOf(canonical, groupIngredient)) return true;
+    }
+  }
+
+  return group.terms.some((term) => containsPhrase(normalized, normalizeIngredient(term)));
+}
+
+/**
+ * Groups (out of `groups`) that any of the ingredients belong to
+ */
+export function findAllergenGroups(ingredients: string[], groups: AllergenGroup[]): AllergenGroupId[] {
+  return groups
+    .filter((group) => ingredients.some((ingredient) => isInAllergenGroup(ingredient, group)))
+    .map((group) => group.id);
+}
@@ -0,0 +1,172 @@
+/**
+ * Ingredient Normalization
+ *
+ * Turns label spellings into comparable forms and resolves them to the
+ * canonical vocabulary:
+ * - lowercase, parentheticals stripped ("(preserved with mixed tocopherols)")
+ * - hyphens and punctuation to spaces ("by-product" → "by product")
+ * - plurals to singular ("potatoes" → "potato")
+ * - preparation qualifiers ignored for lookup ("deboned", "dehydrated", ...)
+ */
+
+import { INGREDIENT_VOCABULARY, type CanonicalIngredient } from "./vocabulary.js";
+
+/** Preparation words that do not change what the ingredient is */
+const QUALIFIERS = new Set([
+  "deboned",
+  "dehydrated",
+  "dried",
+  "fresh",
+  "raw",
+  "ground",
+  "whole",
+  "organic",
+  "boneless",
+  "cooked",
+  "freeze",
+  "real",
+]);
+
+// Sized for a full catalog's distinct ingredient spellings and search terms
+const RESOLVE_CACHE_LIMIT = 20_000;
+
+export interface ResolvedIngredient {
+  /** Normalized text (always set) */
+  normalized: string;
+  /** Canonical ingredient, when the vocabulary knows it */
+  canonical?: CanonicalIngredient;
+}
+
+/**
+ * Singularize one word with simple English rules
+ */
+function singularize(word: string): string {
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.endsWith("oes") || word.endsWith("ches") || word.endsWith("shes")) return word.slice(0, -2);
+  if (word.endsWith("s")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Normalize ingredient text for comparison
+ */
+export function normalizeIngredient(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, " ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(" ");
+}
+
+const canonicalByName = new Map(INGREDIENT_VOCABULARY.map((entry) => [entry.name, entry]));
+
+// Ingredients with more specific forms in the vocabulary
+const parentNames = new Set(INGREDIENT_VOCABULARY.flatMap((entry) => (entry.parent ? [entry.parent] : [])));
+
+const canonicalBySpelling = new Map<string, CanonicalIngredient>();
+for (const entry of INGREDIENT_VOCABULARY) {
+  for (const spelling of [entry.name, ...(entry.synonyms ?? [])]) {
+    canonicalBySpelling.set(normalizeIngredient(spelling), entry);
+  }
+}
+
+// Longest spellings first, for finding a known phrase inside a longer name
+const spellingsByLength = [...canonicalBySpelling.keys()].sort((a, b) => b.split(" ").length - a.split(" ").length);
+
+const resolveCache = new Map<string, ResolvedIngredient>();
+
+/**
+ * Whether `phrase` appears in `text` as whole words (both normalized)
+ */
+export function containsPhrase(text: string, phrase: string): boolean {
+  return phrase.length > 0 && ` ${text} `.includes(` ${phrase} `);
+}
+
+function lookup(normalized: string): CanonicalIngredient | undefined {
+  const exact = canonicalBySpelling.get(normalized);
+  if (exact) return exact;
+
+  const unqualified = normalized
+    .split(" ")
+    .filter((word) => !QUALIFIERS.has(word))
+    .join(" ");
+  const withoutQualifiers = canonicalBySpelling.get(unqualified);
+  if (withoutQualifiers) return withoutQualifiers;
+
+  // "brown rice flour" → "brown rice"; "chicken broth" → "chicken"
+  const phrase = spellingsByLength.find((spelling) => containsPhrase(unqualified, spelling));
+  return phrase ? canonicalBySpelling.get(phrase) : undefined;
+}
+
+/**
+ * Normalize an ingredient and resolve it to the vocabulary
+ */
+export function resolveIngredient(text: string): ResolvedIngredient {
+  const cached = resolveCache.get(text);
+  if (cached) return cached;
+
+  const normalized = normalizeIngredient(text);
+  const resolved: ResolvedIngredient = { normalized, canonical: lookup(normalized) };
+
+  if (resolveCache.size >= RESOLVE_CACHE_LIMIT) {
+    // Drop the oldest entry rather than everything, so the cache stays warm
+    const oldest = resolveCache.keys().next().value;
+    if (oldest !== undefined) resolveCache.delete(oldest);
+  }
+  resolveCache.set(text, resolved);
+  return resolved;
+}
+
+/**
+ * Whether `ingredient` is `ancestor` or a more specific form of it
+ */
+export function isFormOf(ingredient: CanonicalIngredient, ancestor: CanonicalIngredient): boolean {
+  for (let current: CanonicalIngredient | undefined = ingredient; current; ) {
+    if (current === ancestor) return true;
+    current = current.parent ? canonicalByName.get(current.parent) : undefined;
+  }
+  return false;
+}
+
+/**
+ * Whether a search term matches a label ingredient.
+ *
+ * When both resolve to the vocabulary, the ingredient must be the term or a
+ * form of it ("poultry" matches "deboned fowl"; "chicken" does not match
+ * "chicken fat"). A term without more specific forms in the vocabulary
+ * ("liver", "flavor", "brown rice") also matches wherever it appears as
+ * whole words, so "liver" still matches "beef liver". Otherwise the
+ * normalized term must appear as whole words.
+ */
+export function ingredientMatches(term: string, ingredient: string): boolean {
+  const resolvedTerm = resolveIngredient(term);
+  const resolvedIngredient = resolveIngredient(ingredient);
+
+  if (resolvedTerm.canonical && resolvedIngredient.canonical) {
+    if (isFormOf(resolvedIngredient.canonical, resolvedTerm.canonical)) return true;
+    if (parentNames.has(resolvedTerm.canonical.name)) return false;
+  }
+  return containsPhrase(resolvedIngredient.normalized, resolvedTerm.normalized);
+}
+
+/**
+ * Whether a label ingredient may contain the term, for exclusions. Broader
+ * than ingredientMatches: the term also matches wherever it appears as whole
+ * words in the ingredient or its canonical name, so excluding "chicken"
+ * removes chicken fat and poultry fat too.
+ */
+export function ingredientMentions(term: string, ingredient: string): boolean {
+  if (ingredientMatches(term, ingredient)) return true;
+
+  const normalizedTerm = resolveIngredient(term).normalized;
+  const resolvedIngredient = resolveIngredient(ingredient);
+  return (
+    containsPhrase(resolvedIngredient.normalized, normalizedTerm) ||
+    (resolvedIngredient.canonical !== undefined && containsPhrase(resolvedIngredient.canonical.name, normalizedTerm))
+  );
+}
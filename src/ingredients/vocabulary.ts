@@ -0,0 +1,112 @@
+/**
+ * Canonical Ingredient Vocabulary
+ *
+ * Each entry is one canonical ingredient with the label spellings that mean
+ * it. `parent` links a specific ingredient to the broader one it is a form
+ * of (chicken meal → chicken → poultry), so a search for "poultry" also
+ * matches chicken, while "chicken" does not match chicken fat.
+ *
+ * Synonyms are written as they appear on labels; they are normalized
+ * (case, hyphens, plurals) when the lookup table is built.
+ */
+
+import type { IngredientCategory } from "../types.js";
+
+export interface CanonicalIngredient {
+  name: string;
+  category: IngredientCategory;
+  /** Broader ingredient this is a form of */
+  parent?: string;
+  synonyms?: string[];
+}
+
+export const INGREDIENT_VOCABULARY: CanonicalIngredient[] = [
+  // Poultry
+  { name: "poultry", category: "animalProtein", synonyms: ["fowl", "poultry meal", "fowl meal"] },
+  { name: "poultry by-product", category: "animalProtein", parent: "poultry", synonyms: ["poultry by-product meal"] },
+  {
+    name: "chicken",
+    category: "animalProtein",
+    parent: "poultry",
+    synonyms: ["chicken meal", "chicken protein", "hydrolyzed chicken", "hydrolyzed chicken protein"],
+  },
+  { name: "chicken by-product", category: "animalProtein", parent: "chicken", synonyms: ["chicken by-product meal"] },
+  {
+    name: "chicken organs",
+    category: "animalProtein",
+    parent: "chicken",
+    synonyms: ["chicken liver", "chicken heart", "chicken gizzard", "chicken giblets"],
+  },
+  { name: "turkey", category: "animalProtein", parent: "poultry", synonyms: ["turkey meal", "turkey liver"] },
+  { name: "duck", category: "animalProtein", parent: "poultry", synonyms: ["duck meal"] },
+  { name: "egg", category: "animalProtein", synonyms: ["eggs", "egg product", "dried egg product", "whole egg"] },
+
+  // Fish
+  { name: "fish", category: "animalProtein", synonyms: ["fish meal", "ocean fish", "ocean fish meal"] },
+  { name: "salmon", category: "animalProtein", parent: "fish", synonyms: ["salmon meal"] },
+  { name: "tuna", category: "animalProtein", parent: "fish", synonyms: ["tuna meal"] },
+  { name: "whitefish", category: "animalProtein", parent: "fish", synonyms: ["white fish", "whitefish meal"] },
+  { name: "sardine", category: "animalProtein", parent: "fish" },
+  { name: "mackerel", category: "animalProtein", parent: "fish" },
+  { name: "trout", category: "animalProtein", parent: "fish" },
+  { name: "herring", category: "animalProtein", parent: "fish", synonyms: ["herring meal"] },
+
+  // Red meat and other animal protein
+  { name: "meat", category: "animalProtein", synonyms: ["meat meal", "meat by-product", "meat by-products"] },
+  { name: "beef", category: "animalProtein", parent: "meat", synonyms: ["beef meal", "beef liver"] },
+  { name: "lamb", category: "animalProtein", parent: "meat", synonyms: ["lamb meal"] },
+  { name: "pork", category: "animalProtein", parent: "meat", synonyms: ["pork meal", "pork liver"] },
+  { name: "venison", category: "animalProtein", parent: "meat" },
+  { name: "rabbit", category: "animalProtein", parent: "meat" },
+  { name: "liver", category: "animalProtein", synonyms: ["animal liver"] },
+
+  // Fats and oils (sources of fat, not protein)
+  { name: "chicken fat", category: "other", synonyms: ["poultry fat"] },
+  { name: "animal fat", category: "other", synonyms: ["beef tallow", "tallow"] },
+  { name: "fish oil", category: "other", synonyms: ["salmon oil", "menhaden fish oil", "pollock oil"] },
+  { name: "vegetable oil", category: "other", synonyms: ["sunflower oil", "canola oil", "soybean oil"] },
+
+  // Flavors and broths
+  { name: "natural flavor", category: "additives", synonyms: ["flavor", "natural flavors", "flavour"] },
+  { name: "chicken flavor", category: "additives", parent: "chicken", synonyms: ["natural chicken flavor"] },
+  { name: "fish flavor", category: "additives", parent: "fish", synonyms: ["natural fish flavor"] },
+
+  // Plant protein
+  {
+    name: "pea protein",
+    category: "plantProtein",
+    parent: "peas",
+    synonyms: ["pea protein concentrate", "pea protein isolate"],
+  },
+  { name: "potato protein", category: "plantProtein", parent: "potato" },
+  { name: "corn gluten meal", category: "plantProtein", parent: "corn", synonyms: ["corn gluten", "corn protein"] },
+  { name: "wheat gluten", category: "plantProtein", parent: "wheat", synonyms: ["wheat protein"] },
+  { name: "soy", category: "plantProtein", synonyms: ["soybean", "soybean meal", "soy protein", "soy flour"] },
+  { name: "plant protein", category: "plantProtein", synonyms: ["vegetable protein"] },
+
+  // Grains and starches
+  { name: "rice", category: "grainStarch", synonyms: ["rice flour"] },
+  { name: "brown rice", category: "grainStarch", parent: "rice" },
+  { name: "white rice", category: "grainStarch", parent: "rice" },
+  { name: "brewers rice", category: "grainStarch", parent: "rice" },
+  { name: "corn", category: "grainStarch", synonyms: ["ground corn", "whole grain corn", "corn meal", "corn starch"] },
+  { name: "wheat", category: "grainStarch", synonyms: ["wheat flour", "whole wheat", "ground wheat"] },
+  { name: "barley", category: "grainStarch", synonyms: ["pearled barley"] },
+  { name: "oats", category: "grainStarch", synonyms: ["oatmeal", "oat groats"] },
+  { name: "potato", category: "grainStarch", synonyms: ["potatoes", "dried potato", "potato starch"] },
+  { name: "sweet potato", category: "grainStarch", synonyms: ["sweet potatoes"] },
+  { name: "tapioca", category: "grainStarch", synonyms: ["tapioca starch"] },
+  { name: "peas", category: "grainStarch", synonyms: ["pea", "green peas", "pea flour", "pea starch"] },
+  { name: "lentils", category: "grainStarch", synonyms: ["red lentils", "green lentils"] },
+  { name: "chickpeas", category: "grainStarch", synonyms: ["garbanzo beans"] },
+  { name: "cassava", category: "grainStarch" },
+
+  // Supplements and preservatives
+  { name: "taurine", category: "additives" },
+  { name: "choline chloride", category: "additives", synonyms: ["choline"] },
+  { name: "methionine", category: "additives", synonyms: ["dl-methionine"] },
+  { name: "lysine", category: "additives", synonyms: ["l-lysine"] },
+  { name: "mixed tocopherols", category: "additives", synonyms: ["tocopherols"] },
+  { name: "vitamins", category: "additives", synonyms: ["vitamin"] },
+  { name: "minerals", category: "additives", synonyms: ["mineral"] },
+];
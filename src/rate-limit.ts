@@ -10,6 +10,35 @@ export interface RateLimitInfoExtended extends RateLimitInfo {
 /** Rate limit check result returned by TokenBucket.consume() */
 export type RateLimitCheck = RateLimitInfo & { allowed: boolean };
 
+/**
+ * Caller context available to a tool handler.
+ * Structurally compatible with the MCP SDK's RequestHandlerExtra.
+ */
+export interface ClientContext {
+  sessionId?: string;
+  authInfo?: { clientId?: string };
+}
+
+/** Resolves the rate limit bucket key for the calling client */
+export type ClientIdResolver = (context?: ClientContext) => string;
+
+/**
+ * Derive a stable client identifier for rate limiting.
+ * Priority: authenticated principal > MCP transport session > fallback session.
+ */
+export function resolveClientId(context: ClientContext | undefined, fallbackSessionId?: string): string {
+  if (context?.authInfo?.clientId) {
+    return `principal:${context.authInfo.clientId}`;
+  }
+  if (context?.sessionId) {
+    return `session:${context.sessionId}`;
+  }
+  if (fallbackSessionId) {
+    return `session:${fallbackSessionId}`;
+  }
+  return "default-client";
+}
+
 /**
  * TokenBucket - Simple in-memory token bucket rate limiter
  *
@@ -53,7 +82,8 @@ export class TokenBucket {
 
     const resetEpochMs = this.lastRefill + this.windowMs;
 
-    if (this.tokens <= 0) {
+    // A request needs a whole token; fractional refill alone is not enough
+    if (this.tokens < 1) {
       return { allowed: false, limit: this.limit, remaining: 0, resetEpochMs };
     }
 
@@ -68,23 +98,23 @@ export function withRateLimit<TArgs>(
 ): (args: TArgs) => Promise<ToolResponse>;
 export function withRateLimit<TArgs>(
   bucketManager: TokenBucketManager,
-  getClientId: () => string,
+  getClientId: ClientIdResolver,
   handler: (args: TArgs, rateLimit: RateLimitInfoExtended) => Promise<ToolResponse>
-): (args: TArgs) => Promise<ToolResponse>;
+): (args: TArgs, context?: ClientContext) => Promise<ToolResponse>;
 export function withRateLimit<TArgs>(
   bucketOrManager: TokenBucket | TokenBucketManager,
-  handlerOrGetClientId: ((args: TArgs, rateLimit: RateLimitInfoExtended) => Promise<ToolResponse>) | (() => string),
+  handlerOrGetClientId: ((args: TArgs, rateLimit: RateLimitInfoExtended) => Promise<ToolResponse>) | ClientIdResolver,
   handler?: (args: TArgs, rateLimit: RateLimitInfoExtended) => Promise<ToolResponse>
-): (args: TArgs) => Promise<ToolResponse> {
-  return async (args: TArgs) => {
+): (args: TArgs, context?: ClientContext) => Promise<ToolResponse> {
+  return async (args: TArgs, context?: ClientContext) => {
     let rateCheck: RateLimitCheck;
     let capacity: number;
 
     if (handler) {
       // TokenBucketManager overload
       const manager = bucketOrManager as TokenBucketManager;
-      const getClientId = handlerOrGetClientId as () => string;
-      rateCheck = manager.consume(getClientId());
+      const getClientId = handlerOrGetClientId as ClientIdResolver;
+      rateCheck = manager.consume(getClientId(context));
       capacity = manager.capacity;
     } else {
       // TokenBucket overload
@@ -158,6 +188,8 @@ export function withRateLimit<TArgs>(
  * - For production with multiple instances (horizontal scaling), consider
  *   migrating to a distributed rate limiting solution (e.g., Redis-based).
  * - Buckets are lost on server restart (no persistence).
+ * - Session buckets must be removed when the session ends (see `remove`),
+ *   or the shared HTTP server keeps one per session ever opened.
  */
 export class TokenBucketManager {
   private buckets = new Map<string, TokenBucket>();
@@ -190,13 +222,16 @@ export class TokenBucketManager {
   }
 
   /**
-   * Clean up old buckets to prevent memory leaks
-   * Buckets older than maxAgeMs are removed
+   * Number of clients with a bucket
+   */
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  /**
+   * Drop a client's bucket, e.g. when its MCP session closes
    */
-  cleanup(_maxAgeMs: number = 300_000): void {
-    // Note: In a production environment, you might want to track
-    // last access time per bucket. For now, we provide the method
-    // signature for future implementation.
-    // This is a no-op for the current implementation.
+  remove(clientId: string): void {
+    this.buckets.delete(clientId);
   }
 }
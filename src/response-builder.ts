@@ -139,6 +139,29 @@ export class ToolResponseBuilder {
     };
   }
 
+  /**
+   * Creates an UPSTREAM_UNAVAILABLE error response.
+   * Use when the Agent API circuit is open and the call was not attempted.
+   */
+  static upstreamUnavailable(retryAfterMs: number, rateLimit: RateLimitInfo): ToolResponse {
+    return {
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            error: {
+              type: "UPSTREAM_UNAVAILABLE" as ToolErrorType,
+              message: "Bowlly API is temporarily unavailable. Please back off and retry later.",
+            },
+            rateLimit,
+            retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+          }),
+        },
+      ],
+    };
+  }
+
   /**
    * Creates an INTERNAL error response.
    * Use for unexpected server errors. Logs internally, returns safe message.
@@ -0,0 +1,115 @@
+/**
+ * Retry Policy for Agent API Calls
+ *
+ * Exponential backoff with jitter, bounded by a max attempt count and an
+ * overall deadline. Only errors flagged `retryable` are retried, and a
+ * server-provided Retry-After (RateLimitError) takes precedence over backoff.
+ */
+
+import { abortReason, AgentApiError, RateLimitError } from "./errors.js";
+
+export interface RetryPolicy {
+  /** Total attempts including the first call (1 disables retries) */
+  maxAttempts: number;
+  /** Backoff delay before the first retry */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Overall time budget across all attempts and delays */
+  deadlineMs: number;
+  /** Fraction of each delay that is randomized (0 = none, 1 = full jitter) */
+  jitterRatio: number;
+}
+
+/** Injectable time/randomness sources (overridden in tests) */
+export interface RetryClock {
+  now: () => number;
+  /** Wait `ms`; a signal, when given, lets the clock drop its timer on abort */
+  sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random: () => number;
+}
+
+const defaultClock: RetryClock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) =>
+    new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener("abort", () => clearTimeout(timer), { once: true });
+    }),
+  random: () => Math.random(),
+};
+
+/**
+ * Compute the backoff delay before retry number `retry` (1-based)
+ */
+export function computeBackoffDelay(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  const jitter = exponential * policy.jitterRatio * random();
+  return Math.round(exponential * (1 - policy.jitterRatio) + jitter);
+}
+
+/**
+ * Check if an error should be retried
+ */
+function isRetryable(error: unknown): boolean {
+  return error instanceof AgentApiError && error.retryable;
+}
+
+/**
+ * Sleep on the clock, rejecting early if the signal aborts
+ */
+function sleepUnlessAborted(clock: RetryClock, ms: number, signal: AbortSignal | undefined): Promise<void> {
+  if (!signal) return clock.sleep(ms);
+  if (signal.aborted) return Promise.reject(abortReason(signal));
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    clock
+      .sleep(ms, signal)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Run an operation with retries according to the policy.
+ * Throws the last error once attempts or the deadline are exhausted;
+ * an aborted signal stops retrying, including during a backoff delay.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  clock: RetryClock = defaultClock,
+  signal?: AbortSignal
+): Promise<T> {
+  const startedAt = clock.now();
+  let attempt = 0;
+
+  for (;;) {
+    attempt++;
+    try {
+      return await operation();
+    } catch (error) {
+      if (signal?.aborted || !isRetryable(error) || attempt >= policy.maxAttempts) {
+        throw error;
+      }
+
+      // Honour server-provided Retry-After for rate limits
+      const retryAfterMs = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+      const delayMs =
+        retryAfterMs !== undefined ? Math.max(0, retryAfterMs) : computeBackoffDelay(attempt, policy, clock.random);
+
+      // Give up if waiting would exceed the overall deadline
+      const elapsed = clock.now() - startedAt;
+      if (elapsed + delayMs >= policy.deadlineMs) {
+        throw error;
+      }
+
+      console.error(
+        `[AgentApiClient] ${(error as AgentApiError).code} on attempt ${attempt}/${policy.maxAttempts}, retrying in ${delayMs}ms`
+      );
+      await sleepUnlessAborted(clock, delayMs, signal);
+    }
+  }
+}
@@ -5,7 +5,26 @@ import { z } from "zod";
  * `https://api.bowlly.net/agent/*` (no `/v1` prefix).
  */
 
-const AgentProductListItemSchema = z.object({
+/**
+ * Guaranteed analysis, percent as fed. Only protein, fat, fiber and moisture
+ * are on every label; the rest are present when the manufacturer states them.
+ */
+const GuaranteedAnalysisSchema = z.object({
+  protein: z.number().optional(),
+  fat: z.number().optional(),
+  fiber: z.number().optional(),
+  moisture: z.number().optional(),
+  ash: z.number().optional(),
+  calcium: z.number().optional(),
+  phosphorus: z.number().optional(),
+  magnesium: z.number().optional(),
+  sodium: z.number().optional(),
+  taurine: z.number().optional(),
+  omega3: z.number().optional(),
+  omega6: z.number().optional(),
+});
+
+export const AgentProductListItemSchema = z.object({
   id: z.string(),
   name: z.string(),
   brand: z.string(),
@@ -17,20 +36,14 @@ const AgentProductListItemSchema = z.object({
   // Optional: some environments may include ingredient previews in list responses.
   ingredientsPreview: z.array(z.string()).optional(),
   ingredientsFull: z.array(z.string()).optional(),
-  nutrition: z
-    .object({
-      protein: z.number().optional(),
-      fat: z.number().optional(),
-      fiber: z.number().optional(),
-      moisture: z.number().optional(),
-    })
-    .optional(),
+  nutrition: GuaranteedAnalysisSchema.optional(),
   derivedMetrics: z
     .object({
       meatScore: z.number().optional(),
       carbEstimated: z.number().optional(),
     })
     .optional(),
+  energyKcalPerKg: z.number().optional(),
 });
 
 export const ApiProductSchema = z.object({
@@ -43,14 +56,7 @@ export const ApiProductSchema = z.object({
     form: z.enum(["dry", "wet"]),
     lifeStageTags: z.array(z.string()),
     conditionTags: z.array(z.string()),
-    nutrition: z
-      .object({
-        protein: z.number().optional(),
-        fat: z.number().optional(),
-        fiber: z.number().optional(),
-        moisture: z.number().optional(),
-      })
-      .optional(),
+    nutrition: GuaranteedAnalysisSchema.optional(),
     derivedMetrics: z
       .object({
         meatScore: z.number().optional(),
@@ -60,6 +66,9 @@ export const ApiProductSchema = z.object({
     ingredientsPreview: z.array(z.string()),
     ingredientsFull: z.array(z.string()),
     energyKcalPerKg: z.number().optional(),
+    // Label calorie statement per household measure, when the manufacturer gives one
+    energyKcalPerCup: z.number().optional(),
+    energyKcalPerCan: z.number().optional(),
     hasOffer: z.boolean(),
   }),
 });
@@ -80,6 +89,47 @@ export const AgentCompareResponseSchema = z.object({
   requested: z.number(),
 });
 
+const AgentApiMetaSchema = z.object({
+  apiVersion: z.string(),
+  timestamp: z.string(),
+});
+
+export const AgentCurationResponseSchema = z.object({
+  slug: z.string(),
+  title: z.string(),
+  description: z.string(),
+  tldr: z.array(z.string()),
+  criteria: z.array(z.string()),
+  methodology: z.string(),
+  recommendedProductIds: z.array(z.string()),
+  updatedAt: z.string(),
+  canonicalUrl: z.string(),
+  sections: z
+    .array(
+      z.object({
+        heading: z.string(),
+        capsule: z.string(),
+        content: z.string(),
+      })
+    )
+    .optional(),
+  faq: z
+    .array(
+      z.object({
+        question: z.string(),
+        answer: z.string(),
+      })
+    )
+    .optional(),
+  meta: AgentApiMetaSchema,
+});
+
+export const AgentCurationListResponseSchema = z.object({
+  slugs: z.array(z.string()),
+  count: z.number(),
+  meta: AgentApiMetaSchema,
+});
+
 export type AgentProductsResponse = z.infer<typeof AgentProductsResponseSchema>;
 export type AgentCompareResponse = z.infer<typeof AgentCompareResponseSchema>;
 
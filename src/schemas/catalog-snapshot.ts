@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+import { AgentCurationResponseSchema, ApiProductSchema } from "./agent-api.js";
+
+/**
+ * Offline catalog snapshot format.
+ *
+ * Products are stored in the product detail shape (`/agent/products/:id`),
+ * curations in the curation response shape (`/agent/curation/:slug`), so
+ * every record validates against the same schemas as live API responses.
+ */
+
+export const CATALOG_SNAPSHOT_FORMAT_VERSION = 1;
+
+export const CatalogSnapshotManifestSchema = z.object({
+  formatVersion: z.literal(CATALOG_SNAPSHOT_FORMAT_VERSION),
+  createdAt: z.string(),
+  /** `meta.apiVersion` reported by the Agent API the snapshot came from */
+  apiVersion: z.string(),
+  counts: z.object({
+    products: z.number(),
+    curations: z.number(),
+  }),
+});
+
+export const CatalogProductSchema = ApiProductSchema.shape.product;
+
+export const CatalogSnapshotSchema = z.object({
+  manifest: CatalogSnapshotManifestSchema,
+  products: z.array(CatalogProductSchema),
+  curations: z.array(AgentCurationResponseSchema),
+});
+
+/** One line of an NDJSON snapshot */
+export const CatalogSnapshotRecordSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("manifest"), data: CatalogSnapshotManifestSchema }),
+  z.object({ type: z.literal("product"), data: CatalogProductSchema }),
+  z.object({ type: z.literal("curation"), data: AgentCurationResponseSchema }),
+]);
+
+export type CatalogSnapshotManifest = z.infer<typeof CatalogSnapshotManifestSchema>;
+export type CatalogProduct = z.infer<typeof CatalogProductSchema>;
+export type CatalogCuration = z.infer<typeof AgentCurationResponseSchema>;
+export type CatalogSnapshot = z.infer<typeof CatalogSnapshotSchema>;
+export type CatalogSnapshotRecord = z.infer<typeof CatalogSnapshotRecordSchema>;
@@ -0,0 +1,91 @@
+/**
+ * Search Pagination Cursors
+ *
+ * search_products hands out opaque cursor tokens instead of raw offsets.
+ * A token records the upstream position to resume from and a fingerprint
+ * of the query, filters and sort it was issued for, signed with HMAC-SHA256
+ * so it cannot be edited or replayed against a different search.
+ *
+ * Token format: base64url(JSON payload) "." base64url(signature)
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+const CURSOR_VERSION = 1;
+
+export interface SearchCursor {
+  /** Fingerprint of the query, filters and sort (see searchFingerprint) */
+  query: string;
+  /** Upstream offset to resume scanning from */
+  offset: number;
+  /** Results at `offset` (after client-side filtering/sorting) already returned */
+  skip: number;
+  /** Results returned on earlier pages */
+  returned: number;
+}
+
+/**
+ * Rebuild a JSON-like value with object keys sorted and undefined members
+ * dropped at every depth. Array order is meaningful and kept.
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value === null || typeof value !== "object") return value;
+
+  const record = value as Record<string, unknown>;
+  return Object.keys(record)
+    .sort()
+    .filter((key) => record[key] !== undefined)
+    .map((key) => [key, canonicalize(record[key])]);
+}
+
+/**
+ * Stable fingerprint of the parameters that define a search.
+ * Undefined values are dropped and keys sorted at every depth, so parameter
+ * order (including inside nested filters) and omitted optionals do not change it.
+ */
+export function searchFingerprint(filters: Record<string, unknown>): string {
+  return createHash("sha256").update(JSON.stringify(canonicalize(filters))).digest("base64url").slice(0, 22);
+}
+
+function sign(payload: string, secret: string): Buffer {
+  return createHmac("sha256", secret).update(payload).digest();
+}
+
+function isNonNegativeInt(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+export function encodeSearchCursor(cursor: SearchCursor, secret: string): string {
+  const payload = Buffer.from(
+    JSON.stringify({ v: CURSOR_VERSION, q: cursor.query, o: cursor.offset, s: cursor.skip, r: cursor.returned })
+  ).toString("base64url");
+  return `${payload}.${sign(payload, secret).toString("base64url")}`;
+}
+
+/**
+ * Verify and decode a cursor token.
+ * Returns undefined when the token is malformed, was signed with another
+ * secret, or has been modified.
+ */
+export function decodeSearchCursor(token: string, secret: string): SearchCursor | undefined {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return undefined;
+
+  const expected = sign(payload, secret);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return undefined;
+  }
+
+  const { v, q, o, s, r } = (decoded ?? {}) as Record<string, unknown>;
+  if (v !== CURSOR_VERSION || typeof q !== "string") return undefined;
+  if (!isNonNegativeInt(o) || !isNonNegativeInt(s) || !isNonNegativeInt(r)) return undefined;
+
+  return { query: q, offset: o, skip: s, returned: r };
+}
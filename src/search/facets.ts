@@ -0,0 +1,75 @@
+/**
+ * Search Facets
+ *
+ * Breakdown of a filtered result set by form, tags, life stage, brand and
+ * nutrient ranges, so agents can suggest refinements ("12 of these are wet,
+ * 30 dry") without extra calls.
+ */
+
+import type { AgentProductItem } from "../types/agent-api.js";
+import type { FacetCount, RangeFacetBucket, SearchFacets } from "../types.js";
+import { normalizeLifeStages } from "../utils/life-stage.js";
+
+import { carbAsFed } from "./sorting.js";
+
+// Values per facet (most frequent first); brands are the only long tail
+const MAX_FACET_VALUES = 20;
+
+// Bucket edges in percent (as listed by the API)
+const PROTEIN_EDGES = [10, 20, 30, 40, 50];
+const CARB_EDGES = [5, 10, 20, 30];
+
+function countValues(values: Iterable<string>): FacetCount[] {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, MAX_FACET_VALUES);
+}
+
+/**
+ * Count values into ranges [edge_i, edge_i+1); products without the value
+ * are counted in an "unknown" bucket. Empty buckets are omitted.
+ */
+function countRanges(values: Array<number | undefined>, edges: number[]): RangeFacetBucket[] {
+  const buckets: RangeFacetBucket[] = [
+    { label: `under ${edges[0]}%`, max: edges[0], count: 0 },
+    ...edges.slice(0, -1).map((min, i) => ({ label: `${min}-${edges[i + 1]}%`, min, max: edges[i + 1], count: 0 })),
+    { label: `${edges[edges.length - 1]}%+`, min: edges[edges.length - 1], count: 0 },
+  ];
+  const unknown: RangeFacetBucket = { label: "unknown", count: 0 };
+
+  for (const value of values) {
+    if (value === undefined) {
+      unknown.count++;
+      continue;
+    }
+    const bucket = buckets.find((b) => (b.min === undefined || value >= b.min) && (b.max === undefined || value < b.max));
+    if (bucket) bucket.count++;
+  }
+
+  return [...buckets, unknown].filter((bucket) => bucket.count > 0);
+}
+
+/**
+ * Compute facets over a (full, filtered) result set
+ */
+export function computeFacets(items: AgentProductItem[]): SearchFacets {
+  return {
+    form: countValues(items.map((item) => item.form ?? "unknown")),
+    conditionTags: countValues(items.flatMap((item) => item.conditionTags ?? [])),
+    lifeStage: countValues(items.flatMap((item) => normalizeLifeStages(item.lifeStageTags))),
+    brand: countValues(items.map((item) => item.brand)),
+    protein: countRanges(
+      items.map((item) => item.nutrition?.protein),
+      PROTEIN_EDGES
+    ),
+    carbs: countRanges(
+      // Same fallback estimate as the carbs sort, so counts and order agree
+      items.map(carbAsFed),
+      CARB_EDGES
+    ),
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Structured Search Filter
+ *
+ * A small boolean filter language for search_products, for what the flat
+ * comma-separated params cannot express:
+ *
+ *   { all: [...] } / { any: [...] } / { not: {...} }   boolean composition
+ *   { metric: "fat", min: 10, max: 20, basis: "dmb" }   numeric range
+ *   { conditionTag: "urinary" } / { lifeStageTag: "kitten" } / { form: "wet" } / { brand: "Acme" }
+ *   { ingredient: "chicken", withinFirst: 3 }           ingredient (at a position)
+ *
+ * Conditions the API can apply (top-level AND of form, condition tags,
+ * minimum protein and maximum carbs) are compiled to upstream params to
+ * narrow the fetch; repeated bounds keep the tighter one. The whole filter
+ * is still evaluated client-side.
+ */
+
+import { z } from "zod";
+
+import { ingredientMatches, ingredientMentions } from "../ingredients/normalize.js";
+import type { AgentProductItem } from "../types/agent-api.js";
+import { toDryMatterBasis } from "../utils/nutrition.js";
+
+export const FILTER_METRICS = ["protein", "fat", "fiber", "moisture", "carbs", "meatScore", "energyKcalPerKg"] as const;
+
+export type FilterMetric = (typeof FILTER_METRICS)[number];
+
+const MAX_FILTER_DEPTH = 6;
+const MAX_FILTER_NODES = 50;
+
+export type SearchFilter =
+  | { all: SearchFilter[] }
+  | { any: SearchFilter[] }
+  | { not: SearchFilter }
+  | { metric: FilterMetric; min?: number; max?: number; basis?: "asFed" | "dmb" }
+  | { conditionTag: string }
+  | { lifeStageTag: string }
+  | { form: "dry" | "wet" }
+  | { brand: string }
+  | { ingredient: string; withinFirst?: number; exact?: boolean };
+
+const FilterNodeSchema: z.ZodType<SearchFilter> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(FilterNodeSchema).min(1).max(20) }).strict(),
+    z.object({ any: z.array(FilterNodeSchema).min(1).max(20) }).strict(),
+    z.object({ not: FilterNodeSchema }).strict(),
+    z
+      .object({
+        metric: z.enum(FILTER_METRICS),
+        min: z.number().optional(),
+        max: z.number().optional(),
+        basis: z.enum(["asFed", "dmb"]).optional(),
+      })
+      .strict()
+      .refine((range) => range.min !== undefined || range.max !== undefined, "A range needs min, max or both"),
+    z.object({ conditionTag: z.string().min(1).max(64) }).strict(),
+    z.object({ lifeStageTag: z.string().min(1).max(64) }).strict(),
+    z.object({ form: z.enum(["dry", "wet"]) }).strict(),
+    z.object({ brand: z.string().min(1).max(128) }).strict(),
+    z
+      .object({
+        ingredient: z.string().min(1).max(128),
+        withinFirst: z.number().int().min(1).max(50).optional(),
+        exact: z.boolean().optional(),
+      })
+      .strict(),
+  ])
+);
+
+function measure(filter: SearchFilter, depth = 1): { depth: number; nodes: number } {
+  const children = "all" in filter ? filter.all : "any" in filter ? filter.any : "not" in filter ? [filter.not] : [];
+  return children.reduce(
+    (acc, child) => {
+      const size = measure(child, depth + 1);
+      return { depth: Math.max(acc.depth, size.depth), nodes: acc.nodes + size.nodes };
+    },
+    { depth, nodes: 1 }
+  );
+}
+
+export const SearchFilterSchema = FilterNodeSchema.superRefine((filter, ctx) => {
+  const { depth, nodes } = measure(filter);
+  if (depth > MAX_FILTER_DEPTH) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Filter nests deeper than ${MAX_FILTER_DEPTH} levels` });
+  }
+  if (nodes > MAX_FILTER_NODES) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Filter has more than ${MAX_FILTER_NODES} conditions` });
+  }
+});
+
+/**
+ * Whether the filter has ingredient conditions (which need ingredient lists)
+ */
+export function filterUsesIngredients(filter: SearchFilter): boolean {
+  if ("all" in filter) return filter.all.some(filterUsesIngredients);
+  if ("any" in filter) return filter.any.some(filterUsesIngredients);
+  if ("not" in filter) return filterUsesIngredients(filter.not);
+  return "ingredient" in filter;
+}
+
+/**
+ * Compile the parts of a filter the API can apply to upstream params, to
+ * narrow the fetch. Only conditions that every match must satisfy (the
+ * top-level AND) are pushed down, and only where the API's semantics are
+ * identical; the caller still evaluates the whole filter client-side.
+ */
+export function compileFilter(filter: SearchFilter): Record<string, string> {
+  const apiParams: Record<string, string> = {};
+  const conditions: string[] = [];
+
+  const conjuncts = "all" in filter ? filter.all : [filter];
+  for (const node of conjuncts) {
+    if ("all" in node) {
+      mergeApiParams(apiParams, compileFilter(node));
+    } else if ("form" in node) {
+      mergeApiParams(apiParams, { form: node.form });
+    } else if ("conditionTag" in node) {
+      conditions.push(node.conditionTag);
+    } else if ("metric" in node && (node.basis ?? "asFed") === "asFed" && isPushableRange(node)) {
+      mergeApiParams(
+        apiParams,
+        node.metric === "protein" ? { minProtein: String(node.min) } : { maxCarbs: String(node.max) }
+      );
+    }
+  }
+
+  if (conditions.length > 0) {
+    apiParams.conditions = [apiParams.conditions, ...conditions].filter(Boolean).join(",");
+  }
+  return apiParams;
+}
+
+/**
+ * Merge upstream params that must all hold into `target`: the higher
+ * minProtein, the lower maxCarbs and both sets of condition tags. Two
+ * different forms cannot both hold; the first is kept, and the client-side
+ * evaluation then rejects every product.
+ */
+export function mergeApiParams(target: Record<string, string>, source: Record<string, string>): void {
+  for (const [key, value] of Object.entries(source)) {
+    const current = target[key];
+    if (current === undefined) {
+      target[key] = value;
+    } else if (key === "minProtein") {
+      target[key] = String(Math.max(Number(current), Number(value)));
+    } else if (key === "maxCarbs") {
+      target[key] = String(Math.min(Number(current), Number(value)));
+    } else if (key === "conditions") {
+      target[key] = `${current},${value}`;
+    }
+  }
+}
+
+// The API supports minProtein and maxCarbs (as fed) only
+function isPushableRange(node: { metric: FilterMetric; min?: number; max?: number }): boolean {
+  if (node.metric === "protein") return node.min !== undefined && node.max === undefined;
+  if (node.metric === "carbs") return node.max !== undefined && node.min === undefined;
+  return false;
+}
+
+function metricValue(product: AgentProductItem, metric: FilterMetric): number | undefined {
+  switch (metric) {
+    case "protein":
+    case "fat":
+    case "fiber":
+    case "moisture":
+      return product.nutrition?.[metric];
+    case "carbs":
+      return product.derivedMetrics?.carbEstimated;
+    case "meatScore":
+      return product.derivedMetrics?.meatScore;
+    case "energyKcalPerKg":
+      return product.energyKcalPerKg;
+  }
+}
+
+export interface FilterContext {
+  /** Ingredient list to check, in label order (full list when known, else the preview) */
+  ingredients: (product: AgentProductItem) => string[];
+}
+
+/**
+ * Evaluate a filter against a product. Products missing a ranged metric
+ * do not match the range (same as the API's minProtein/maxCarbs). An
+ * ingredient condition under `not` is an exclusion, so it also matches
+ * whole-word mentions ("chicken" → chicken fat), like excludeIngredients.
+ */
+export function evaluateFilter(
+  filter: SearchFilter,
+  product: AgentProductItem,
+  context: FilterContext,
+  negated = false
+): boolean {
+  if ("all" in filter) return filter.all.every((node) => evaluateFilter(node, product, context, negated));
+  if ("any" in filter) return filter.any.some((node) => evaluateFilter(node, product, context, negated));
+  if ("not" in filter) return !evaluateFilter(filter.not, product, context, !negated);
+
+  if ("metric" in filter) {
+    const asFed = metricValue(product, filter.metric);
+    // Moisture and meat score have no dry-matter form
+    const convertible = filter.metric !== "moisture" && filter.metric !== "meatScore";
+    const value =
+      filter.basis === "dmb" && convertible ? toDryMatterBasis(asFed, product.nutrition?.moisture) : asFed;
+    if (value === undefined) return false;
+    return (filter.min === undefined || value >= filter.min) && (filter.max === undefined || value <= filter.max);
+  }
+  if ("conditionTag" in filter) return hasTag(product.conditionTags, filter.conditionTag);
+  if ("lifeStageTag" in filter) return hasTag(product.lifeStageTags, filter.lifeStageTag);
+  if ("form" in filter) return product.form === filter.form;
+  if ("brand" in filter) return product.brand.toLowerCase() === filter.brand.toLowerCase();
+
+  const ingredients = context.ingredients(product).slice(0, filter.withinFirst);
+  return ingredients.some((ingredient) =>
+    filter.exact
+      ? new RegExp(`\\b${escapeRegex(filter.ingredient.toLowerCase())}\\b`).test(ingredient.toLowerCase())
+      : (negated ? ingredientMentions : ingredientMatches)(filter.ingredient, ingredient)
+  );
+}
+
+function hasTag(tags: string[] | undefined, tag: string): boolean {
+  return (tags ?? []).some((t) => t.toLowerCase() === tag.toLowerCase());
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
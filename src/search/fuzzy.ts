@@ -0,0 +1,238 @@
+/**
+ * Fuzzy Name/Brand Matching
+ *
+ * Typo-tolerant matching of a search query against product names and
+ * brands ("Orijin" → Orijen, "Wellnes Core" → Wellness CORE), used for
+ * "did you mean" suggestions when the upstream search finds little.
+ *
+ * A candidate's score is the better of two similarities in [0, 1]:
+ * - whole-string edit similarity (1 - Levenshtein distance / longer length)
+ * - token-set similarity: each query token is paired with its closest
+ *   candidate token, averaged by token length, so word order and extra
+ *   words in long product names do not count against a match
+ */
+
+import type { SpellingSuggestion } from "../types.js";
+
+import type { ProductName } from "./name-index.js";
+
+const DEFAULT_MIN_SCORE = 0.75;
+const DEFAULT_LIMIT = 5;
+// Bounds the edit-distance work per candidate: longer queries are not typos
+// of a name, and long tokens are compared by their start
+const MAX_QUERY_LENGTH = 64;
+const MAX_TOKEN_LENGTH = 32;
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Levenshtein edit distance (insertions, deletions, substitutions).
+ * Stops early once the distance must exceed `maxDistance`, returning
+ * maxDistance + 1.
+ */
+export function editDistance(a: string, b: string, maxDistance = Infinity): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  const row = new Uint16Array(b.length + 1);
+  for (let j = 0; j <= b.length; j++) row[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    const code = a.charCodeAt(i - 1);
+    let diagonal = row[0];
+    let rowMin = (row[0] = i);
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      let value = diagonal + (code === b.charCodeAt(j - 1) ? 0 : 1);
+      if (above + 1 < value) value = above + 1;
+      if (row[j - 1] + 1 < value) value = row[j - 1] + 1;
+      row[j] = value;
+      diagonal = above;
+      if (value < rowMin) rowMin = value;
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+  }
+  return row[b.length];
+}
+
+// Upper bound on edit similarity from the lengths alone
+function lengthBound(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : Math.min(a.length, b.length) / longest;
+}
+
+/**
+ * Edit similarity, or at most a value below `floor` once it cannot reach it
+ */
+function editSimilarity(a: string, b: string, floor = 0): number {
+  if (floor > 0 && lengthBound(a, b) < floor) return 0;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  const maxDistance = floor > 0 ? Math.floor(longest * (1 - floor)) : Infinity;
+  return Math.max(0, 1 - editDistance(a, b, maxDistance) / longest);
+}
+
+/**
+ * Token-set similarity. `memo` (one map per query token) remembers token
+ * pairs across candidates: catalog names share most of their words.
+ */
+function tokenSetSimilarity(
+  queryTokens: string[],
+  candidateTokens: string[],
+  floor = 0,
+  memo?: Array<Map<string, number>>
+): number {
+  if (queryTokens.length === 0 || candidateTokens.length === 0) return 0;
+
+  const totalWeight = queryTokens.reduce((sum, token) => sum + token.length, 0);
+  if (floor > 0) {
+    // Skip the edit distances when even length-perfect pairings fall short
+    let bound = 0;
+    for (const token of queryTokens) {
+      let tokenBound = 0;
+      for (const candidate of candidateTokens) tokenBound = Math.max(tokenBound, lengthBound(token, candidate));
+      bound += tokenBound * token.length;
+    }
+    if (bound / totalWeight < floor) return 0;
+  }
+
+  let weighted = 0;
+  queryTokens.forEach((token, index) => {
+    const known = memo?.[index];
+    let best = 0;
+    for (const candidate of candidateTokens) {
+      if (best === 1) break;
+      if (lengthBound(token, candidate) <= best) continue;
+      let similarity = known?.get(candidate);
+      if (similarity === undefined) {
+        similarity = editSimilarity(token, candidate);
+        known?.set(candidate, similarity);
+      }
+      best = Math.max(best, similarity);
+    }
+    weighted += best * token.length;
+  });
+  return weighted / totalWeight;
+}
+
+interface PreparedText {
+  text: string;
+  tokens: string[];
+}
+
+function prepare(text: string): PreparedText {
+  const normalized = normalize(text);
+  return {
+    text: normalized,
+    tokens: normalized
+      .split(" ")
+      .filter(Boolean)
+      .map((token) => token.slice(0, MAX_TOKEN_LENGTH)),
+  };
+}
+
+interface PreparedProduct {
+  name: PreparedText;
+  /** Brand and name together, as one text and one token set */
+  prefixed: PreparedText;
+}
+
+// Prepared once per name index entry and reused by later queries
+const preparedProducts = new WeakMap<ProductName, PreparedProduct>();
+
+function prepareProduct(product: ProductName): PreparedProduct {
+  let prepared = preparedProducts.get(product);
+  if (!prepared) {
+    const brand = prepare(product.brand);
+    const name = prepare(product.name);
+    prepared = {
+      name,
+      prefixed: { text: `${brand.text} ${name.text}`, tokens: [...brand.tokens, ...name.tokens] },
+    };
+    preparedProducts.set(product, prepared);
+  }
+  return prepared;
+}
+
+function score(
+  query: PreparedText,
+  candidate: PreparedText,
+  floor = 0,
+  memo?: Array<Map<string, number>>
+): number {
+  if (!query.text || !candidate.text) return 0;
+  return Math.max(
+    editSimilarity(query.text, candidate.text, floor),
+    tokenSetSimilarity(query.tokens, candidate.tokens, floor, memo)
+  );
+}
+
+/**
+ * Similarity of a query to a name or brand, in [0, 1]
+ */
+export function fuzzyScore(query: string, candidate: string): number {
+  return score(prepare(query), prepare(candidate));
+}
+
+export interface FuzzyMatchOptions {
+  /** Minimum confidence to suggest (default 0.75) */
+  minScore?: number;
+  /** Maximum suggestions (default 5) */
+  limit?: number;
+}
+
+/**
+ * Rank brands and product names that resemble the query.
+ * Product names are also scored with the brand prefixed, so "wellnes core"
+ * matches a "CORE Original" product by Wellness. Each brand is scored once,
+ * and candidates whose lengths rule out the threshold skip the edit
+ * distance. Queries longer than MAX_QUERY_LENGTH get no suggestions.
+ */
+export function findSpellingSuggestions(
+  rawQuery: string,
+  products: ProductName[],
+  options: FuzzyMatchOptions = {}
+): SpellingSuggestion[] {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const query = prepare(rawQuery);
+  if (!query.text || query.text.length > MAX_QUERY_LENGTH) return [];
+
+  const memo = query.tokens.map(() => new Map<string, number>());
+  const best = new Map<string, SpellingSuggestion>();
+  const consider = (suggestion: SpellingSuggestion) => {
+    if (suggestion.confidence < minScore) return;
+    const key = `${suggestion.kind}:${suggestion.text.toLowerCase()}`;
+    if (suggestion.confidence > (best.get(key)?.confidence ?? 0)) best.set(key, suggestion);
+  };
+
+  const brands = new Set<string>();
+  for (const product of products) {
+    if (brands.has(product.brand)) continue;
+    brands.add(product.brand);
+    const confidence = round(score(query, prepare(product.brand), minScore, memo));
+    consider({ text: product.brand, kind: "brand", confidence });
+  }
+
+  for (const product of products) {
+    const { name, prefixed } = prepareProduct(product);
+    // The brand-prefixed tokens include the name's, so one token pass covers both
+    const nameScore = Math.max(editSimilarity(query.text, name.text, minScore), score(query, prefixed, minScore, memo));
+    consider({ text: product.name, kind: "product", confidence: round(nameScore), productId: product.id });
+  }
+
+  return [...best.values()]
+    .sort((a, b) => b.confidence - a.confidence || a.text.localeCompare(b.text))
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+}
+
+function round(score: number): number {
+  return Math.round(score * 100) / 100;
+}
@@ -0,0 +1,107 @@
+/**
+ * Full Ingredient Index
+ *
+ * Inverted index from ingredient to product IDs, built from full ingredient
+ * lists (product detail fetches, list responses that carry them, or an
+ * offline snapshot). Lets include/exclude filters check every ingredient
+ * instead of only the top-5 preview.
+ *
+ * Lists keep label order (and repeats), since position checks such as
+ * "within the first 3" count label positions. Memory is bounded by evicting
+ * the least recently used product once maxProducts are indexed.
+ */
+
+const DEFAULT_MAX_PRODUCTS = 5_000;
+
+export interface IngredientIndexOptions {
+  /** Maximum number of indexed products (least recently used evicted first) */
+  maxProducts: number;
+}
+
+/**
+ * Normalize an ingredient for indexing and lookup
+ */
+function normalize(ingredient: string): string {
+  return ingredient.trim().toLowerCase();
+}
+
+export class IngredientIndex {
+  private readonly byProduct = new Map<string, string[]>();
+  private readonly byIngredient = new Map<string, Set<string>>();
+
+  constructor(private readonly options: IngredientIndexOptions = { maxProducts: DEFAULT_MAX_PRODUCTS }) {}
+
+  get size(): number {
+    return this.byProduct.size;
+  }
+
+  /**
+   * Index (or re-index) a product's full ingredient list
+   */
+  add(productId: string, ingredients: string[]): void {
+    this.remove(productId);
+
+    const ordered = ingredients.map(normalize).filter(Boolean);
+    this.byProduct.set(productId, ordered);
+    for (const ingredient of new Set(ordered)) {
+      let products = this.byIngredient.get(ingredient);
+      if (!products) {
+        products = new Set();
+        this.byIngredient.set(ingredient, products);
+      }
+      products.add(productId);
+    }
+
+    while (this.byProduct.size > this.options.maxProducts) {
+      const oldest = this.byProduct.keys().next().value;
+      if (oldest === undefined) break;
+      this.remove(oldest);
+    }
+  }
+
+  remove(productId: string): void {
+    const previous = this.byProduct.get(productId);
+    if (!previous) return;
+
+    for (const ingredient of previous) {
+      const products = this.byIngredient.get(ingredient);
+      products?.delete(productId);
+      if (products?.size === 0) this.byIngredient.delete(ingredient);
+    }
+    this.byProduct.delete(productId);
+  }
+
+  /**
+   * Whether the product's full ingredient list is known
+   */
+  has(productId: string): boolean {
+    return this.byProduct.has(productId);
+  }
+
+  /**
+   * A product's full ingredient list, in label order
+   */
+  get(productId: string): string[] | undefined {
+    const ingredients = this.byProduct.get(productId);
+    if (ingredients) {
+      // Mark as recently used
+      this.byProduct.delete(productId);
+      this.byProduct.set(productId, ingredients);
+    }
+    return ingredients;
+  }
+
+  /**
+   * IDs of indexed products with at least one ingredient matching the
+   * predicate. Scans the ingredient vocabulary, not every product.
+   */
+  findProducts(matches: (ingredient: string) => boolean): Set<string> {
+    const result = new Set<string>();
+    for (const [ingredient, products] of this.byIngredient) {
+      if (matches(ingredient)) {
+        for (const id of products) result.add(id);
+      }
+    }
+    return result;
+  }
+}
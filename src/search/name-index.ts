@@ -0,0 +1,52 @@
+/**
+ * Product Name Index
+ *
+ * Names and brands of products seen in list and detail responses (or an
+ * offline snapshot), for "did you mean" suggestions without fetching the
+ * catalog again. Bounded like the ingredient index: the least recently
+ * seen product is evicted once maxProducts are known.
+ */
+
+const DEFAULT_MAX_PRODUCTS = 5_000;
+
+export interface ProductName {
+  id: string;
+  name: string;
+  brand: string;
+}
+
+export interface ProductNameIndexOptions {
+  /** Maximum number of known products (least recently seen evicted first) */
+  maxProducts: number;
+}
+
+export class ProductNameIndex {
+  private readonly byProduct = new Map<string, ProductName>();
+
+  constructor(private readonly options: ProductNameIndexOptions = { maxProducts: DEFAULT_MAX_PRODUCTS }) {}
+
+  get size(): number {
+    return this.byProduct.size;
+  }
+
+  /**
+   * Record (or refresh) a product's name and brand
+   */
+  add(product: ProductName): void {
+    this.byProduct.delete(product.id);
+    this.byProduct.set(product.id, { id: product.id, name: product.name, brand: product.brand });
+
+    while (this.byProduct.size > this.options.maxProducts) {
+      const oldest = this.byProduct.keys().next().value;
+      if (oldest === undefined) break;
+      this.byProduct.delete(oldest);
+    }
+  }
+
+  /**
+   * Every known product, least recently seen first
+   */
+  products(): ProductName[] {
+    return [...this.byProduct.values()];
+  }
+}
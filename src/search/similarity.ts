@@ -0,0 +1,185 @@
+/**
+ * Product Similarity
+ *
+ * Scores how alike two products are, for "my cat likes this one, what's
+ * similar?" recommendations. Four components, each in [0, 1]:
+ * - ingredients: position-weighted overlap of the (canonical) ingredients,
+ *   so sharing the first ingredient counts far more than sharing a vitamin
+ * - nutrition: distance between dry-matter protein, fat, fiber and carbs
+ * - form: same form (dry/wet)
+ * - conditions: overlap of condition tags
+ *
+ * Components that cannot be computed for a pair (no nutrition, no tags on
+ * either side) are left out and the remaining weights rescaled.
+ */
+
+import { resolveIngredient } from "../ingredients/normalize.js";
+import type { AgentProductItem } from "../types/agent-api.js";
+import type { SimilarityScores } from "../types.js";
+import { toDryMatterBasis } from "../utils/nutrition.js";
+
+import { carbAsFed } from "./sorting.js";
+
+// Ingredients past this position barely affect the food's character
+const MAX_COMPARED_INGREDIENTS = 15;
+
+const WEIGHTS: Record<keyof SimilarityScores, number> = {
+  ingredients: 0.4,
+  nutrition: 0.35,
+  form: 0.15,
+  conditions: 0.1,
+};
+
+// Dry-matter percentage points that count as "one unit" of difference
+const NUTRIENT_SCALES = { protein: 10, fat: 8, fiber: 3, carbs: 10 } as const;
+
+type Nutrient = keyof typeof NUTRIENT_SCALES;
+
+export interface ProductProfile {
+  product: AgentProductItem;
+  /** Canonical ingredient → weight of its earliest position (1, 1/2, 1/3, ...) */
+  ingredientWeights: Map<string, number>;
+  /** Label spelling of each canonical ingredient, for explanations */
+  ingredientLabels: Map<string, string>;
+  dmb: Partial<Record<Nutrient, number>>;
+}
+
+export interface SimilarityResult {
+  similarity: number;
+  scores: SimilarityScores;
+  reasons: string[];
+}
+
+/**
+ * Precompute what similarity needs from a product and its ingredient list
+ * (full list when known, else the preview)
+ */
+export function buildProfile(product: AgentProductItem, ingredients: string[]): ProductProfile {
+  const ingredientWeights = new Map<string, number>();
+  const ingredientLabels = new Map<string, string>();
+
+  ingredients.slice(0, MAX_COMPARED_INGREDIENTS).forEach((ingredient, position) => {
+    const { canonical, normalized } = resolveIngredient(ingredient);
+    const key = canonical?.name ?? normalized;
+    if (!key || ingredientWeights.has(key)) return;
+    ingredientWeights.set(key, 1 / (position + 1));
+    ingredientLabels.set(key, canonical?.name ?? ingredient.toLowerCase());
+  });
+
+  const moisture = product.nutrition?.moisture;
+  const dmb: ProductProfile["dmb"] = {
+    protein: toDryMatterBasis(product.nutrition?.protein, moisture),
+    fat: toDryMatterBasis(product.nutrition?.fat, moisture),
+    fiber: toDryMatterBasis(product.nutrition?.fiber, moisture),
+    carbs: toDryMatterBasis(carbAsFed(product), moisture),
+  };
+
+  return { product, ingredientWeights, ingredientLabels, dmb };
+}
+
+function ingredientSimilarity(a: ProductProfile, b: ProductProfile): number | undefined {
+  if (a.ingredientWeights.size === 0 || b.ingredientWeights.size === 0) return undefined;
+
+  // Weighted Jaccard: sum of min weights over sum of max weights
+  let shared = 0;
+  let union = 0;
+  for (const key of new Set([...a.ingredientWeights.keys(), ...b.ingredientWeights.keys()])) {
+    const weightA = a.ingredientWeights.get(key) ?? 0;
+    const weightB = b.ingredientWeights.get(key) ?? 0;
+    shared += Math.min(weightA, weightB);
+    union += Math.max(weightA, weightB);
+  }
+  return union === 0 ? undefined : shared / union;
+}
+
+function nutritionSimilarity(a: ProductProfile, b: ProductProfile): number | undefined {
+  const nutrients = (Object.keys(NUTRIENT_SCALES) as Nutrient[]).filter(
+    (nutrient) => a.dmb[nutrient] !== undefined && b.dmb[nutrient] !== undefined
+  );
+  if (nutrients.length === 0) return undefined;
+
+  const squared = nutrients.map(
+    (nutrient) => (((a.dmb[nutrient] as number) - (b.dmb[nutrient] as number)) / NUTRIENT_SCALES[nutrient]) ** 2
+  );
+  const distance = Math.sqrt(squared.reduce((sum, value) => sum + value, 0) / nutrients.length);
+  return Math.exp(-distance);
+}
+
+function tagSimilarity(a: string[] | undefined, b: string[] | undefined): number | undefined {
+  const setA = new Set((a ?? []).map((tag) => tag.toLowerCase()));
+  const setB = new Set((b ?? []).map((tag) => tag.toLowerCase()));
+  if (setA.size === 0 && setB.size === 0) return undefined;
+  const shared = [...setA].filter((tag) => setB.has(tag)).length;
+  return shared / new Set([...setA, ...setB]).size;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function explain(target: ProductProfile, candidate: ProductProfile): string[] {
+  const reasons: string[] = [];
+
+  const sharedIngredients = [...target.ingredientWeights.keys()]
+    .filter((key) => candidate.ingredientWeights.has(key))
+    .slice(0, 5)
+    .map((key) => target.ingredientLabels.get(key) ?? key);
+  if (sharedIngredients.length > 0) {
+    reasons.push(`Shares key ingredients: ${sharedIngredients.join(", ")}`);
+  }
+
+  const closeNutrients = (Object.keys(NUTRIENT_SCALES) as Nutrient[]).filter((nutrient) => {
+    const a = target.dmb[nutrient];
+    const b = candidate.dmb[nutrient];
+    return a !== undefined && b !== undefined && Math.abs(a - b) <= NUTRIENT_SCALES[nutrient] / 2;
+  });
+  if (closeNutrients.length > 0) {
+    const details = closeNutrients.map(
+      (nutrient) => `${nutrient} ${candidate.dmb[nutrient]}% vs ${target.dmb[nutrient]}%`
+    );
+    reasons.push(`Similar dry-matter nutrition (${details.join(", ")})`);
+  }
+
+  if (target.product.form && target.product.form === candidate.product.form) {
+    reasons.push(`Same form (${target.product.form})`);
+  }
+
+  const targetTags = new Set((target.product.conditionTags ?? []).map((tag) => tag.toLowerCase()));
+  const sharedTags = (candidate.product.conditionTags ?? []).filter((tag) => targetTags.has(tag.toLowerCase()));
+  if (sharedTags.length > 0) {
+    reasons.push(`Also tagged for: ${sharedTags.join(", ")}`);
+  }
+
+  return reasons;
+}
+
+/**
+ * Score how similar `candidate` is to `target`
+ */
+export function scoreSimilarity(target: ProductProfile, candidate: ProductProfile): SimilarityResult {
+  const formA = target.product.form;
+  const formB = candidate.product.form;
+  const components: Partial<SimilarityScores> = {
+    ingredients: ingredientSimilarity(target, candidate),
+    nutrition: nutritionSimilarity(target, candidate),
+    form: formA && formB ? Number(formA === formB) : undefined,
+    conditions: tagSimilarity(target.product.conditionTags, candidate.product.conditionTags),
+  };
+
+  let weighted = 0;
+  let totalWeight = 0;
+  const scores: SimilarityScores = {};
+  for (const key of Object.keys(WEIGHTS) as Array<keyof SimilarityScores>) {
+    const score = components[key];
+    if (score === undefined) continue;
+    scores[key] = round(score);
+    weighted += score * WEIGHTS[key];
+    totalWeight += WEIGHTS[key];
+  }
+
+  return {
+    similarity: totalWeight === 0 ? 0 : round(weighted / totalWeight),
+    scores,
+    reasons: explain(target, candidate),
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Search Result Sorting
+ *
+ * Sort options for search_products. As-fed sorts put wet food last on
+ * protein even when it is higher on a dry-matter basis, so DMB variants
+ * compare across forms. Each option has default tie-breakers (overridable
+ * with thenBy); name and ID settle any remaining ties so pages are stable.
+ *
+ * Products missing a sort value always go last, in either direction.
+ */
+
+import type { AgentProductItem } from "../types/agent-api.js";
+import { calculateCarbEstimated, estimateEnergyKcalPerKg, toDryMatterBasis } from "../utils/nutrition.js";
+
+export const SORT_OPTIONS = [
+  "protein_desc",
+  "carbs_asc",
+  "fat_desc",
+  "moisture_desc",
+  "protein_dmb_desc",
+  "carbs_dmb_asc",
+  "fat_dmb_desc",
+  "fat_dmb_asc",
+  "meat_score_desc",
+  "energy_density_desc",
+  "energy_density_asc",
+] as const;
+
+export type SortOption = (typeof SORT_OPTIONS)[number];
+
+type SortMetric = (product: AgentProductItem) => number | undefined;
+
+interface SortDefinition {
+  metric: SortMetric;
+  direction: "asc" | "desc";
+  /** Tie-breakers applied when no thenBy is given */
+  thenBy: SortOption[];
+}
+
+/**
+ * As-fed carbs from the API, or estimated from the guaranteed analysis
+ */
+export function carbAsFed(product: AgentProductItem): number | undefined {
+  return (
+    product.derivedMetrics?.carbEstimated ??
+    calculateCarbEstimated(product.nutrition ?? {}, { form: product.form }).value
+  );
+}
+
+// Energy density in kcal/kg of dry matter (comparable across dry and wet food)
+function energyDensityDmb(product: AgentProductItem): number | undefined {
+  const asFed = product.energyKcalPerKg ?? estimateEnergyKcalPerKg(product.nutrition ?? {}, carbAsFed(product));
+  return toDryMatterBasis(asFed, product.nutrition?.moisture);
+}
+
+const dmb =
+  (metric: SortMetric): SortMetric =>
+  (product) =>
+    toDryMatterBasis(metric(product), product.nutrition?.moisture);
+
+const protein: SortMetric = (product) => product.nutrition?.protein;
+const fat: SortMetric = (product) => product.nutrition?.fat;
+
+const SORT_DEFINITIONS: Record<SortOption, SortDefinition> = {
+  protein_desc: { metric: protein, direction: "desc", thenBy: ["carbs_asc"] },
+  carbs_asc: { metric: carbAsFed, direction: "asc", thenBy: ["protein_desc"] },
+  fat_desc: { metric: fat, direction: "desc", thenBy: ["protein_desc"] },
+  moisture_desc: { metric: (product) => product.nutrition?.moisture, direction: "desc", thenBy: ["protein_dmb_desc"] },
+  protein_dmb_desc: { metric: dmb(protein), direction: "desc", thenBy: ["carbs_dmb_asc"] },
+  carbs_dmb_asc: { metric: dmb(carbAsFed), direction: "asc", thenBy: ["protein_dmb_desc"] },
+  fat_dmb_desc: { metric: dmb(fat), direction: "desc", thenBy: ["protein_dmb_desc"] },
+  fat_dmb_asc: { metric: dmb(fat), direction: "asc", thenBy: ["protein_dmb_desc"] },
+  meat_score_desc: {
+    metric: (product) => product.derivedMetrics?.meatScore,
+    direction: "desc",
+    thenBy: ["protein_dmb_desc"],
+  },
+  energy_density_desc: { metric: energyDensityDmb, direction: "desc", thenBy: ["protein_dmb_desc"] },
+  energy_density_asc: { metric: energyDensityDmb, direction: "asc", thenBy: ["protein_dmb_desc"] },
+};
+
+/**
+ * Sort value for a product, or undefined when it cannot be determined
+ */
+export function sortValue(product: AgentProductItem, option: SortOption): number | undefined {
+  const value = SORT_DEFINITIONS[option].metric(product);
+  return value === undefined || Number.isNaN(value) ? undefined : value;
+}
+
+function compareBy(a: AgentProductItem, b: AgentProductItem, option: SortOption): number {
+  const valueA = sortValue(a, option);
+  const valueB = sortValue(b, option);
+  if (valueA === undefined || valueB === undefined) {
+    // Missing values last, whatever the direction
+    return (valueA === undefined ? 1 : 0) - (valueB === undefined ? 1 : 0);
+  }
+  return SORT_DEFINITIONS[option].direction === "asc" ? valueA - valueB : valueB - valueA;
+}
+
+/**
+ * Sort entries by `sortBy`, then the tie-breakers (`thenBy`, or the
+ * option's defaults), then name and ID.
+ * `product` picks the product out of each entry, so entries can carry their position.
+ */
+export function sortProducts<T>(
+  entries: T[],
+  sortBy: SortOption,
+  thenBy: SortOption[] | undefined,
+  product: (entry: T) => AgentProductItem
+): T[] {
+  const keys = [sortBy, ...(thenBy ?? SORT_DEFINITIONS[sortBy].thenBy)];
+
+  return [...entries].sort((entryA, entryB) => {
+    const a = product(entryA);
+    const b = product(entryB);
+    for (const key of keys) {
+      const order = compareBy(a, b, key);
+      if (order !== 0) return order;
+    }
+    return a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+  });
+}
@@ -9,14 +9,18 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 
 import { AgentApiClient } from "./client.js";
-import { config } from "./config.js";
-import { TokenBucketManager } from "./rate-limit.js";
+import { config, type TransportMode } from "./config.js";
+import { resolveClientId, TokenBucketManager, type ClientIdResolver } from "./rate-limit.js";
 import { ToolResponseBuilder } from "./response-builder.js";
 import { assertNoAffiliateLinks } from "./safeguard.js";
+import { startHttpServer } from "./transports/http.js";
 import { registerAnalyzeNutritionTool } from "./tools/analyze-nutrition.js";
+import { registerFeedingTool } from "./tools/calculate-feeding.js";
 import { registerCompareTool } from "./tools/compare-products.js";
+import { registerFindSimilarTool } from "./tools/find-similar-products.js";
 import { registerCurationTool } from "./tools/get-curation-list.js";
 import { registerDetailTool } from "./tools/get-product-detail.js";
+import { registerMixedFeedingTool } from "./tools/plan-mixed-feeding.js";
 import { registerSearchTool } from "./tools/search-products.js";
 import type { RateLimitInfo } from "./types.js";
 import { createSuccessResponse } from "./utils/response-helpers.js";
@@ -27,29 +31,50 @@ import { createSuccessResponse } from "./utils/response-helpers.js";
 export interface ServerContext {
   server: McpServer;
   apiClient: AgentApiClient;
+  bucketManager: TokenBucketManager;
+  sessionId: string;
 }
 
-export function createServer(): ServerContext {
+/**
+ * Options for creating a server instance.
+ * HTTP transports create one server per MCP session and share the
+ * API client and rate limiter across sessions.
+ */
+export interface CreateServerOptions {
+  sessionId?: string;
+  apiClient?: AgentApiClient;
+  bucketManager?: TokenBucketManager;
+}
+
+export interface StartServerOptions {
+  transport?: TransportMode;
+  host?: string;
+  port?: number;
+}
+
+export function createServer(options: CreateServerOptions = {}): ServerContext {
   // Create MCP server with Bowlly identity
   const server = new McpServer({
     name: config.serverName,
     version: config.serverVersion,
   });
 
-  // Create rate limiter and API client
-  const bucketManager = new TokenBucketManager(config.rateLimitPerMin, 60_000);
-  const apiClient = new AgentApiClient();
+  // Create (or reuse) rate limiter and API client
+  const bucketManager = options.bucketManager ?? new TokenBucketManager(config.rateLimitPerMin, 60_000);
+  const apiClient = options.apiClient ?? new AgentApiClient();
+  const sessionId = options.sessionId ?? config.sessionId;
 
   // Get client identifier for per-client rate limiting
-  // Uses session ID if available, falls back to a default for single-client scenarios
-  const getClientId = (): string => config.sessionId || "default-client";
+  // Uses the authenticated principal or MCP session of each request,
+  // falling back to this server's session ID for single-client scenarios
+  const getClientId: ClientIdResolver = (context) => resolveClientId(context, sessionId);
 
   // Register health tool (stub for Phase 25 expansion)
   server.tool(
     "get_health",
-    "Check MCP server connectivity and rate limit status. Use this when experiencing connection issues or before batch operations. Returns server status, version, session ID, and rate limit information.",
-    async () => {
-      const rateCheck = bucketManager.consume(getClientId());
+    "Check MCP server connectivity and rate limit status. Use this when experiencing connection issues or before batch operations. Returns server status, version, session ID, upstream circuit breaker state, response cache hit/miss counts, and rate limit information. If the circuit breaker state is open, back off until retryAfterMs has elapsed.",
+    async (extra) => {
+      const rateCheck = bucketManager.consume(getClientId(extra));
 
       if (!rateCheck.allowed) {
         return ToolResponseBuilder.rateLimitExceeded(rateCheck);
@@ -59,7 +84,8 @@ export function createServer(): ServerContext {
         status: "ok",
         serverName: config.serverName,
         version: config.serverVersion,
-        sessionId: config.sessionId,
+        sessionId: extra.sessionId ?? sessionId,
+        upstream: apiClient.getHealth(),
       };
 
       // Safeguard: scan result for affiliate links before returning
@@ -79,17 +105,65 @@ export function createServer(): ServerContext {
   registerSearchTool(server, apiClient, bucketManager, getClientId);
   registerDetailTool(server, apiClient, bucketManager, getClientId);
   registerCompareTool(server, apiClient, bucketManager, getClientId);
+  registerFindSimilarTool(server, apiClient, bucketManager, getClientId);
 
   // Register nutrition analysis tool
   registerAnalyzeNutritionTool(server, apiClient, bucketManager, getClientId);
 
+  // Register feeding calculator tool
+  registerFeedingTool(server, apiClient, bucketManager, getClientId);
+  registerMixedFeedingTool(server, apiClient, bucketManager, getClientId);
+
   // Register curation list tool
   registerCurationTool(server, apiClient, bucketManager, getClientId);
 
-  return { server, apiClient };
+  return { server, apiClient, bucketManager, sessionId };
+}
+
+export async function startServer(options: StartServerOptions = {}): Promise<void> {
+  const transport = options.transport ?? config.transport;
+
+  if (transport === "http") {
+    const host = options.host ?? config.httpHost;
+    const port = options.port ?? config.httpPort;
+
+    // One API client and rate limiter shared by every MCP session
+    const apiClient = new AgentApiClient();
+    const bucketManager = new TokenBucketManager(config.rateLimitPerMin, 60_000);
+
+    const httpServer = await startHttpServer({
+      host,
+      port,
+      allowedHosts: config.httpAllowedHosts,
+      allowedOrigins: config.httpAllowedOrigins,
+      sessionIdleTimeoutMs: config.httpSessionIdleTimeoutMs,
+      // Sessions come and go; their rate limit buckets go with them
+      onSessionClosed: (sessionId) => bucketManager.remove(resolveClientId({ sessionId })),
+      createSessionServer: (sessionId) => createServer({ sessionId, apiClient, bucketManager }).server,
+    });
+
+    const shutdown = () => {
+      console.error("[Server] Shutting down HTTP transport...");
+      httpServer
+        .close()
+        .catch((err) => console.error("[Server] Error during shutdown:", err))
+        .finally(() => {
+          apiClient.close();
+          process.exit(0);
+        });
+    };
+
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+
+    console.error(`Bowlly MCP Server running on http://${host}:${httpServer.port} (Streamable HTTP: /mcp, SSE: /sse)`);
+    return;
+  }
+
+  await startStdioServer();
 }
 
-export async function startServer(): Promise<void> {
+async function startStdioServer(): Promise<void> {
   const { server, apiClient } = createServer();
   const transport = new StdioServerTransport();
 
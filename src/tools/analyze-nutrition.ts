@@ -2,25 +2,47 @@
  * Analyze Nutrition MCP Tool
  *
  * Provides ingredient breakdown and nutritional context for cat food products.
- * Features: DMB conversion, carb estimation, ingredient classification.
+ * Features: DMB conversion, carb estimation, calorie distribution (ME),
+ * AAFCO/FEDIAF nutrient adequacy, Ca:P balance, ingredient classification.
  */
 
 import { z } from "zod";
 
 import { AgentApiClient } from "../client.js";
-import { NotFoundError } from "../errors.js";
-import { TokenBucketManager } from "../rate-limit.js";
+import { CircuitOpenError, NotFoundError } from "../errors.js";
+import { resolveIngredient } from "../ingredients/normalize.js";
+import { TokenBucketManager, type ClientContext, type ClientIdResolver } from "../rate-limit.js";
 import { ToolResponseBuilder } from "../response-builder.js";
 import { assertNoAffiliateLinks } from "../safeguard.js";
-import type { NutritionAnalysisResult, IngredientClassification, RateLimitInfo } from "../types.js";
+import type {
+  IngredientCategory,
+  IngredientClassification,
+  NutritionAnalysisResult,
+  NutritionInfo,
+  RateLimitInfo,
+} from "../types.js";
 import { NUTRITION_DISCLAIMER } from "../types.js";
-import { calculateCarbEstimated } from "../utils/nutrition.js";
+import { normalizeLifeStages } from "../utils/life-stage.js";
+import {
+  defaultNutrientProfiles,
+  evaluateNutrientProfile,
+  NUTRIENT_PROFILE_IDS,
+} from "../utils/nutrient-profiles.js";
+import {
+  calculateCarbEstimated,
+  calculateDMB,
+  calculateMetabolizableEnergy,
+  MODIFIED_ATWATER_KCAL_PER_G,
+  toDryMatterBasis,
+  toPer1000Kcal,
+} from "../utils/nutrition.js";
 import { createSuccessResponse } from "../utils/response-helpers.js";
 
 // ============================================
 // Ingredient Classification Patterns
 // ============================================
 
+// Keyword fallback for label spellings the canonical vocabulary does not know
 // Fast exact-match keywords (no regex needed)
 const ANIMAL_PROTEIN_KEYWORDS = new Set([
   "chicken",
@@ -122,53 +144,13 @@ const INGREDIENT_PATTERNS: Record<string, RegExp[]> = {
   ],
 };
 
+// Estimated vs reported energy differences above this (percent) are flagged
+const ENERGY_DISCREPANCY_THRESHOLD = 15;
+
 // ============================================
 // Helper Functions
 // ============================================
 
-/**
- * Calculate Dry Matter Basis (DMB) percentages
- * Formula: DMB% = (AsFed% / (100 - Moisture%)) * 100
- */
-function calculateDMB(
-  nutrition: {
-    protein?: number;
-    fat?: number;
-    fiber?: number;
-    moisture?: number;
-    ash?: number;
-  },
-  carbAsFed?: number
-): {
-  protein?: number;
-  fat?: number;
-  fiber?: number;
-  ash?: number;
-  carbEstimated?: number;
-} {
-  const { protein, fat, fiber, moisture, ash } = nutrition;
-
-  if (moisture === undefined || moisture >= 100) {
-    return {
-      protein,
-      fat,
-      fiber,
-      ash,
-      carbEstimated: carbAsFed,
-    };
-  }
-
-  const factor = 100 / (100 - moisture);
-
-  return {
-    protein: protein !== undefined ? Math.round(protein * factor * 10) / 10 : undefined,
-    fat: fat !== undefined ? Math.round(fat * factor * 10) / 10 : undefined,
-    fiber: fiber !== undefined ? Math.round(fiber * factor * 10) / 10 : undefined,
-    ash: ash !== undefined ? Math.round(ash * factor * 10) / 10 : undefined,
-    carbEstimated: carbAsFed !== undefined ? Math.round(carbAsFed * factor * 10) / 10 : undefined,
-  };
-}
-
 /**
  * Fast keyword check using Set lookup
  */
@@ -184,11 +166,18 @@ function hasKeyword(ingredient: string, keywords: Set<string>): boolean {
 
 /**
  * Classify an ingredient into nutritional categories
- * Optimized: Uses Set-based keyword lookup first, falls back to regex for complex patterns
+ * Resolves the label spelling against the canonical vocabulary first, so
+ * "chicken fat" is not animal protein and "deboned fowl" is. Unknown
+ * spellings fall back to keyword lookup, then regex.
  */
 function classifyIngredient(ingredient: string): IngredientClassification {
-  const categories: ("animalProtein" | "plantProtein" | "grainStarch" | "additives" | "other")[] = [];
-  const lowerIngredient = ingredient.toLowerCase();
+  const { normalized, canonical } = resolveIngredient(ingredient);
+  if (canonical) {
+    return { name: ingredient, canonicalName: canonical.name, categories: [canonical.category] };
+  }
+
+  const categories: IngredientCategory[] = [];
+  const lowerIngredient = normalized;
 
   // Fast path: Set-based keyword matching (O(1) lookup per keyword)
   if (hasKeyword(lowerIngredient, ANIMAL_PROTEIN_KEYWORDS)) {
@@ -209,7 +198,7 @@ function classifyIngredient(ingredient: string): IngredientClassification {
   if (categories.length === 0) {
     for (const [category, patterns] of Object.entries(INGREDIENT_PATTERNS)) {
       if (patterns.some((pattern) => pattern.test(lowerIngredient))) {
-        categories.push(category as "animalProtein" | "plantProtein" | "grainStarch" | "additives");
+        categories.push(category as IngredientCategory);
       }
     }
   }
@@ -235,6 +224,14 @@ const inputSchema = z.object({
     .max(128, "Product ID too long")
     .regex(/^[a-zA-Z0-9_-]+$/, "Invalid product ID format")
     .describe("The product ID to analyze"),
+  nutrientProfiles: z
+    .array(z.enum(NUTRIENT_PROFILE_IDS))
+    .min(1)
+    .max(4)
+    .optional()
+    .describe(
+      "Nutrient profiles to check minimums against (default: AAFCO and FEDIAF growth profiles for kitten/all-life-stages foods, adult profiles otherwise)"
+    ),
 });
 
 type Input = z.infer<typeof inputSchema>;
@@ -245,31 +242,34 @@ export function registerAnalyzeNutritionTool(
       name: string,
       description: string,
       paramsSchema: z.ZodRawShape,
-      handler: (args: unknown) => Promise<{
+      handler: (args: unknown, extra?: ClientContext & { signal?: AbortSignal }) => Promise<{
         content: Array<{ type: "text"; text: string }>;
       }>
     ) => void;
   },
   client: AgentApiClient,
   bucketManager: TokenBucketManager,
-  getClientId: () => string
+  getClientId: ClientIdResolver
 ): void {
   server.tool(
     "analyze_nutrition",
-    "Analyzes the nutritional content of a cat food product by productId. Returns ingredient breakdown, DMB conversion, carb estimation, and nutritional context. Use when user asks about nutrition, ingredients, or carb content of a specific product.",
+    "Analyzes the nutritional content of a cat food product by productId. Returns ingredient breakdown, DMB conversion, carb estimation, calorie distribution (metabolizable energy and % of calories from protein, fat and carbohydrate), nutrient adequacy against AAFCO/FEDIAF minimums (pass/fail/unknown per nutrient), calcium:phosphorus ratio and phosphorus per 1000 kcal (relevant for kidney disease), and nutritional context. Use when user asks about nutrition, ingredients, or carb content of a specific product.",
     inputSchema.shape,
-    async (args: unknown) => {
+    async (args: unknown, extra?: ClientContext & { signal?: AbortSignal }) => {
       const input = args as Input;
 
       // Rate limit check
-      const rateCheck = bucketManager.consume(getClientId());
+      const rateCheck = bucketManager.consume(getClientId(extra));
       if (!rateCheck.allowed) {
         return ToolResponseBuilder.rateLimitExceeded(rateCheck);
       }
 
       try {
         // Fetch product details
-        const raw = await client.getProductDetail(input.productId);
+        const raw = await client.getProductDetail(input.productId, {
+          signal: extra?.signal,
+          sessionId: extra?.sessionId,
+        });
 
         // Handle both wrapped { product: {...} } and unwrapped {...} response formats
         // Also handle null/undefined raw responses
@@ -295,15 +295,13 @@ export function registerAnalyzeNutritionTool(
           id?: string;
           name?: string;
           form?: "dry" | "wet";
-          nutrition?: {
-            protein?: number;
-            fat?: number;
-            fiber?: number;
-            moisture?: number;
-            ash?: number;
-          };
+          nutrition?: NutritionInfo;
+          lifeStageTags?: string[];
           ingredientsFull?: string[];
           ingredientsPreview?: string[];
+          energyKcalPerKg?: number;
+          energyKcalPerCup?: number;
+          energyKcalPerCan?: number;
         };
 
         // Extract nutrition data
@@ -316,6 +314,44 @@ export function registerAnalyzeNutritionTool(
         // Calculate DMB values
         const dmbValues = calculateDMB(nutrition, carbResult.value);
 
+        // Metabolizable energy and calorie distribution, cross-checked
+        // against the reported calorie content
+        const energy = calculateMetabolizableEnergy(nutrition, carbResult.value);
+        const reportedKcalPerKg = productData.energyKcalPerKg;
+        const discrepancyPercent =
+          energy && reportedKcalPerKg
+            ? Math.round(((energy.kcalPerKg - reportedKcalPerKg) / reportedKcalPerKg) * 1000) / 10
+            : undefined;
+
+        // Check minimum nutrient levels, per 1000 kcal when the energy
+        // density is known (reported, else estimated)
+        const lifeStages = normalizeLifeStages(productData.lifeStageTags);
+        const profileIds =
+          input.nutrientProfiles ??
+          defaultNutrientProfiles(lifeStages.includes("kitten") || lifeStages.includes("all-life-stages"));
+        // Labels state omega-6 fatty acids rather than linoleic acid, their main part
+        const kcalPerKg = reportedKcalPerKg ?? energy?.kcalPerKg;
+        const nutrientAdequacy = profileIds.map((profileId) =>
+          evaluateNutrientProfile(profileId, {
+            nutrients: { ...nutrition, linoleicAcid: nutrition.omega6 },
+            moisture: nutrition.moisture,
+            kcalPerKg,
+            form,
+          })
+        );
+        const unstatedNutrients = [
+          ...new Set(
+            nutrientAdequacy.flatMap((report) =>
+              report.checks.filter((check) => check.verdict === "unknown").map((check) => check.nutrient)
+            )
+          ),
+        ];
+
+        // Calcium/phosphorus balance
+        const { calcium, phosphorus } = nutrition;
+        const calciumPhosphorusRatio =
+          calcium !== undefined && phosphorus ? Math.round((calcium / phosphorus) * 100) / 100 : undefined;
+
         // Classify top ingredients (first 5-10)
         const allIngredients = productData.ingredientsFull || productData.ingredientsPreview || [];
         const topIngredients = allIngredients.slice(0, 10).map(classifyIngredient);
@@ -329,6 +365,18 @@ export function registerAnalyzeNutritionTool(
         if (nutrition.fiber === undefined) {
           assumptions.push("Fiber value not provided; assumed 0% for carb calculation");
         }
+        if (!reportedKcalPerKg && energy) {
+          assumptions.push("Nutrient adequacy per 1000 kcal uses the estimated metabolizable energy");
+        }
+        if (nutrition.omega6 !== undefined) {
+          assumptions.push("Omega-6 fatty acids checked against the linoleic acid minimum");
+        }
+        if (energy) {
+          const { protein, fat, carbohydrate } = MODIFIED_ATWATER_KCAL_PER_G;
+          assumptions.push(
+            `Metabolizable energy estimated with modified Atwater factors (protein ${protein}, fat ${fat}, carbohydrate ${carbohydrate} kcal/g)`
+          );
+        }
 
         // Build limitations based on missing data
         const limitations: string[] = [];
@@ -347,6 +395,28 @@ export function registerAnalyzeNutritionTool(
         if (nutrition.fiber === undefined) {
           limitations.push("Fiber value not provided by manufacturer");
         }
+        if (!energy) {
+          limitations.push("Calorie distribution unavailable; needs protein, fat and moisture values");
+        }
+        if (discrepancyPercent !== undefined && Math.abs(discrepancyPercent) > ENERGY_DISCREPANCY_THRESHOLD) {
+          limitations.push(
+            `Estimated energy (${energy?.kcalPerKg} kcal/kg) differs from the reported ${reportedKcalPerKg} kcal/kg by ${discrepancyPercent}%; guaranteed analysis values are minimums/maximums, so the calorie distribution is approximate`
+          );
+        }
+
+        if (phosphorus === undefined) {
+          limitations.push("Phosphorus not stated; Ca:P ratio and phosphorus per 1000 kcal not calculated");
+        }
+        if (unstatedNutrients.length > 0) {
+          limitations.push(
+            `Nutrient adequacy undetermined for ${unstatedNutrients.join(", ")}: not stated in the available guaranteed analysis`
+          );
+        }
+        if (nutrientAdequacy.some((report) => report.summary.pass > 0)) {
+          limitations.push(
+            "Guaranteed analysis values are label minimums/maximums, not typical analysis; a pass is indicative, not a formulation claim"
+          );
+        }
 
         // Construct the result
         const result: NutritionAnalysisResult = {
@@ -358,6 +428,13 @@ export function registerAnalyzeNutritionTool(
             fiber: nutrition.fiber,
             moisture: nutrition.moisture,
             ash: nutrition.ash,
+            calcium,
+            phosphorus,
+            magnesium: nutrition.magnesium,
+            sodium: nutrition.sodium,
+            taurine: nutrition.taurine,
+            omega3: nutrition.omega3,
+            omega6: nutrition.omega6,
           },
           carbohydrates: {
             asFed: carbResult.value,
@@ -371,6 +448,20 @@ export function registerAnalyzeNutritionTool(
             ash: dmbValues.ash,
             carbEstimated: dmbValues.carbEstimated,
           },
+          minerals: {
+            calciumPhosphorusRatio,
+            phosphorusDmb: toDryMatterBasis(phosphorus, nutrition.moisture, 2),
+            phosphorusPer1000Kcal: toPer1000Kcal(phosphorus, kcalPerKg),
+          },
+          energy: {
+            estimatedKcalPerKg: energy?.kcalPerKg,
+            reportedKcalPerKg,
+            kcalPerCup: productData.energyKcalPerCup,
+            kcalPerCan: productData.energyKcalPerCan,
+            caloriesFrom: energy?.caloriesFrom,
+            discrepancyPercent,
+          },
+          nutrientAdequacy,
           ingredients: {
             totalCount: allIngredients.length,
             topIngredients,
@@ -406,6 +497,11 @@ export function registerAnalyzeNutritionTool(
           return ToolResponseBuilder.notFound("Product", input.productId, rateLimit);
         }
 
+        // Circuit open: tell the agent to back off instead of waiting on a degraded API
+        if (error instanceof CircuitOpenError) {
+          return ToolResponseBuilder.upstreamUnavailable(error.retryAfterMs, rateLimit);
+        }
+
         // Return safe generic message to user
         return ToolResponseBuilder.internal(
           "An error occurred while analyzing nutrition. Please try again later.",
@@ -0,0 +1,165 @@
+/**
+ * calculate_feeding MCP Tool
+ *
+ * Daily feeding amount of a product for a specific cat: energy requirement
+ * (RER/MER) divided by the product's calorie density, as grams, cans or
+ * cups per day and per meal.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+import type { AgentApiClient } from "../client.js";
+import { CircuitOpenError, NotFoundError } from "../errors.js";
+import { withRateLimit, type ClientIdResolver, type TokenBucketManager } from "../rate-limit.js";
+import { ToolResponseBuilder } from "../response-builder.js";
+import { assertNoAffiliateLinks } from "../safeguard.js";
+import { ApiProductSchema } from "../schemas/agent-api.js";
+import type { FeedingPlanResult } from "../types.js";
+import { NUTRITION_DISCLAIMER } from "../types.js";
+import {
+  calculateEnergyRequirement,
+  CatProfileSchema,
+  defaultMealsPerDay,
+  describeEnergyRequirement,
+  productEnergy,
+  targetWeightError,
+} from "../utils/feeding.js";
+import { createSuccessResponse } from "../utils/response-helpers.js";
+
+// ULID format validation regex (26 alphanumeric characters)
+const PRODUCT_ID_REGEX = /^[A-Z0-9]{26}$/i;
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export function registerFeedingTool(
+  server: McpServer,
+  client: AgentApiClient,
+  bucketManager: TokenBucketManager,
+  getClientId: ClientIdResolver
+): void {
+  server.tool(
+    "calculate_feeding",
+    "Calculate how much of a cat food product a specific cat should eat per day, from its weight, age, neuter status, activity level and weight goal (RER/MER energy requirement). Returns grams per day, cans or cups per day when the label gives calories per can/cup, and a per-meal split, with the assumptions used. Results are a starting point to adjust by body condition.",
+    {
+      productId: z.string().min(1).max(128).describe("Product ID (from search_products results)"),
+      ...CatProfileSchema.shape,
+      mealsPerDay: z
+        .number()
+        .int()
+        .min(1)
+        .max(6)
+        .optional()
+        .describe("Meals per day (default 4 for kittens under 6 months, 3 for older kittens, 2 for adults)"),
+    },
+    async (params, extra) => {
+      return withRateLimit(bucketManager, getClientId, async (_params, rateLimit) => {
+        try {
+          // Step 1: Validate product ID format (ULID)
+          if (!PRODUCT_ID_REGEX.test(params.productId)) {
+            return ToolResponseBuilder.validation(
+              "Invalid product ID format. Product ID must be a valid ULID (26 alphanumeric characters)",
+              rateLimit,
+              { productId: params.productId }
+            );
+          }
+          const weightError = targetWeightError(params);
+          if (weightError) {
+            return ToolResponseBuilder.validation(weightError, rateLimit, {
+              catWeightKg: params.catWeightKg,
+              targetWeightKg: params.targetWeightKg,
+              weightGoal: params.weightGoal ?? "maintain",
+            });
+          }
+
+          // Step 2: Call Agent API
+          const raw = await client.getProductDetail(params.productId, {
+            signal: extra?.signal,
+            sessionId: extra?.sessionId,
+          });
+
+          // Step 3: Validate API response with Zod
+          const validated = ApiProductSchema.safeParse(raw);
+          if (!validated.success) {
+            console.error("Invalid API response:", validated.error.message);
+            return ToolResponseBuilder.internal("Invalid API response format", rateLimit, {
+              validationError: validated.error.message,
+            });
+          }
+          const product = validated.data.product;
+
+          // Step 4: Energy requirement and the product's calorie density
+          const requirement = calculateEnergyRequirement(params);
+          const energy = productEnergy(product);
+          const { kcalPerDay } = requirement;
+          const grams = energy ? (kcalPerDay / energy.kcalPerKg) * 1000 : undefined;
+          const mealsPerDay = params.mealsPerDay ?? defaultMealsPerDay(params.catAgeMonths);
+
+          const { assumptions, limitations } = describeEnergyRequirement(params, requirement);
+          if (energy?.source === "estimated") {
+            assumptions.push(
+              `Calorie content not reported; estimated at ${energy.kcalPerKg} kcal/kg from the guaranteed analysis (modified Atwater factors)`
+            );
+          }
+
+          if (!energy) {
+            limitations.push("Calorie content unavailable and cannot be estimated; grams per day not calculated");
+          }
+          if (product.form === "wet" && !product.energyKcalPerCan) {
+            limitations.push("Calories per can not provided; cans per day not calculated");
+          }
+
+          // Step 5: Construct the result
+          const result: FeedingPlanResult = {
+            productId: product.id,
+            productName: product.name,
+            form: product.form,
+            energyRequirement: requirement,
+            productEnergy: energy,
+            daily: {
+              grams: grams !== undefined ? Math.round(grams) : undefined,
+              cans: product.energyKcalPerCan ? roundTo(kcalPerDay / product.energyKcalPerCan, 2) : undefined,
+              cups: product.energyKcalPerCup ? roundTo(kcalPerDay / product.energyKcalPerCup, 2) : undefined,
+            },
+            meals: {
+              perDay: mealsPerDay,
+              gramsPerMeal: grams !== undefined ? Math.round(grams / mealsPerDay) : undefined,
+            },
+            assumptions,
+            limitations,
+            disclaimer: NUTRITION_DISCLAIMER,
+          };
+
+          // Step 6: Run safeguard
+          assertNoAffiliateLinks(result);
+
+          // Step 7: Return result
+          return createSuccessResponse(result, rateLimit);
+        } catch (error) {
+          // Log full error internally for debugging
+          const message = error instanceof Error ? error.message : "Unknown error";
+          console.error("calculate_feeding error:", message, error);
+
+          if (error instanceof NotFoundError) {
+            return ToolResponseBuilder.notFound("Product", params.productId, rateLimit);
+          }
+
+          // Circuit open: tell the agent to back off instead of waiting on a degraded API
+          if (error instanceof CircuitOpenError) {
+            return ToolResponseBuilder.upstreamUnavailable(error.retryAfterMs, rateLimit);
+          }
+
+          // Return safe generic message to user
+          return ToolResponseBuilder.internal(
+            "An error occurred while calculating the feeding amount. Please try again later.",
+            rateLimit,
+            { tool: "calculate_feeding" }
+          );
+        }
+      })(params, extra);
+    }
+  );
+}
@@ -8,8 +8,8 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 
 import { AgentApiClient } from "../client.js";
-import { NotFoundError } from "../errors.js";
-import { withRateLimit, type TokenBucketManager } from "../rate-limit.js";
+import { CircuitOpenError, NotFoundError } from "../errors.js";
+import { withRateLimit, type ClientIdResolver, type TokenBucketManager } from "../rate-limit.js";
 import { ToolResponseBuilder } from "../response-builder.js";
 import { assertNoAffiliateLinks } from "../safeguard.js";
 import { AgentCompareResponseSchema } from "../schemas/agent-api.js";
@@ -23,7 +23,7 @@ export function registerCompareTool(
   server: McpServer,
   client: AgentApiClient,
   bucketManager: TokenBucketManager,
-  getClientId: () => string
+  getClientId: ClientIdResolver
 ): void {
   server.tool(
     "compare_products",
@@ -31,7 +31,7 @@ export function registerCompareTool(
     {
       productIds: z.array(z.string().min(1).max(128)).min(2).max(3).describe("2-3 product IDs to compare"),
     },
-    async (params) => {
+    async (params, extra) => {
       return withRateLimit(bucketManager, getClientId, async (_params, rateLimit) => {
         try {
           // Step 1: Validate array explicitly (Zod handles min/max but add friendly error message)
@@ -54,7 +54,10 @@ export function registerCompareTool(
           }
 
           // Step 3: Call Agent API
-          const raw = await client.compareProducts(params.productIds);
+          const raw = await client.compareProducts(params.productIds, {
+            signal: extra.signal,
+            sessionId: extra.sessionId,
+          });
 
           // Step 4: Validate API response with Zod
           const validated = AgentCompareResponseSchema.safeParse(raw);
@@ -74,6 +77,14 @@ export function registerCompareTool(
                   fat: item.nutrition.fat,
                   fiber: item.nutrition.fiber,
                   moisture: item.nutrition.moisture,
+                  ash: item.nutrition.ash,
+                  calcium: item.nutrition.calcium,
+                  phosphorus: item.nutrition.phosphorus,
+                  magnesium: item.nutrition.magnesium,
+                  sodium: item.nutrition.sodium,
+                  taurine: item.nutrition.taurine,
+                  omega3: item.nutrition.omega3,
+                  omega6: item.nutrition.omega6,
                 }
               : undefined;
 
@@ -121,6 +132,11 @@ export function registerCompareTool(
             return ToolResponseBuilder.notFound("Product", "requested product", rateLimit);
           }
 
+          // Circuit open: tell the agent to back off instead of waiting on a degraded API
+          if (error instanceof CircuitOpenError) {
+            return ToolResponseBuilder.upstreamUnavailable(error.retryAfterMs, rateLimit);
+          }
+
           // Return safe generic message to user
           return ToolResponseBuilder.internal(
             "An error occurred while comparing products. Please try again later.",
@@ -128,7 +144,7 @@ export function registerCompareTool(
             { tool: "compare_products" }
           );
         }
-      })(params);
+      })(params, extra);
     }
   );
 }
@@ -0,0 +1,206 @@
+/**
+ * find_similar_products MCP Tool
+ *
+ * Rank catalog products by similarity to a reference product: ingredient
+ * overlap (weighted by label position), dry-matter nutrition, form and
+ * condition tags. Each result explains what it has in common.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+import type { AgentApiClient } from "../client.js";
+import { CircuitOpenError, NotFoundError } from "../errors.js";
+import { ALLERGEN_GROUP_IDS, ALLERGEN_GROUPS, findAllergenGroups } from "../ingredients/allergens.js";
+import { withRateLimit, type ClientIdResolver, type TokenBucketManager } from "../rate-limit.js";
+import { ToolResponseBuilder } from "../response-builder.js";
+import { assertNoAffiliateLinks } from "../safeguard.js";
+import { AgentProductsResponseSchema, ApiProductSchema } from "../schemas/agent-api.js";
+import { buildProfile, scoreSimilarity, type SimilarityResult } from "../search/similarity.js";
+import type { AgentProductItem } from "../types/agent-api.js";
+import type { SimilarProductItem, SimilarProductsResult } from "../types.js";
+import { allSettledWithLimit } from "../utils/concurrency.js";
+import { createSuccessResponse } from "../utils/response-helpers.js";
+
+// ULID format validation regex (26 alphanumeric characters)
+const PRODUCT_ID_REGEX = /^[A-Z0-9]{26}$/i;
+
+const CATALOG_BATCH_SIZE = 200;
+// Upper bound on catalog products compared per call
+const MAX_CANDIDATES = 600;
+// Full ingredient lists fetched for the best preliminary matches
+const MAX_DETAIL_LOOKUPS = 20;
+// Detail lookups in flight at once
+const DETAIL_LOOKUP_CONCURRENCY = 4;
+
+interface RankedCandidate {
+  item: AgentProductItem;
+  result: SimilarityResult;
+}
+
+export function registerFindSimilarTool(
+  server: McpServer,
+  client: AgentApiClient,
+  bucketManager: TokenBucketManager,
+  getClientId: ClientIdResolver
+): void {
+  server.tool(
+    "find_similar_products",
+    "Find cat food products similar to a given product (e.g. alternatives to a food the cat likes, or one that is out of stock). Ranks by ingredient overlap weighted by position, dry-matter nutrition, form and condition tags; each result lists the reasons it is similar. Optionally exclude the same brand or specific protein sources. Compares at most the first 600 catalog products; limitations says when the catalog is larger.",
+    {
+      productId: z.string().min(1).max(128).describe("Reference product ID (from search_products results)"),
+      limit: z.number().int().min(1).max(10).optional().describe("Number of similar products to return (default 5)"),
+      excludeSameBrand: z.boolean().optional().describe("Only return products from other brands"),
+      excludeProteinSources: z
+        .array(z.enum(ALLERGEN_GROUP_IDS))
+        .optional()
+        .describe("Exclude products containing any form of these protein sources (e.g., ['fish'] for fish-free)"),
+    },
+    async (params, extra) => {
+      return withRateLimit(bucketManager, getClientId, async (_params, rateLimit) => {
+        try {
+          // Step 1: Validate product ID format (ULID)
+          if (!PRODUCT_ID_REGEX.test(params.productId)) {
+            return ToolResponseBuilder.validation(
+              "Invalid product ID format. Product ID must be a valid ULID (26 alphanumeric characters)",
+              rateLimit,
+              { productId: params.productId }
+            );
+          }
+
+          // Step 2: Fetch the reference product (indexes its full ingredient list)
+          const rawDetail = await client.getProductDetail(params.productId, {
+            signal: extra?.signal,
+            sessionId: extra?.sessionId,
+          });
+          const validatedDetail = ApiProductSchema.safeParse(rawDetail);
+          if (!validatedDetail.success) {
+            console.error("Invalid API response:", validatedDetail.error.message);
+            return ToolResponseBuilder.internal("Invalid API response format", rateLimit, {
+              validationError: validatedDetail.error.message,
+            });
+          }
+          const target = validatedDetail.data.product;
+          const targetProfile = buildProfile(target, target.ingredientsFull);
+
+          // Step 3: Collect candidates from the catalog
+          const candidates: AgentProductItem[] = [];
+          let moreInCatalog = false;
+          for (let offset = 0; offset < MAX_CANDIDATES; ) {
+            const raw = await client.getProducts(
+              { limit: String(CATALOG_BATCH_SIZE), offset: String(offset) },
+              { signal: extra?.signal, sessionId: extra?.sessionId }
+            );
+            const validated = AgentProductsResponseSchema.safeParse(raw);
+            if (!validated.success) {
+              throw new Error(`Invalid API response: ${validated.error.message}`);
+            }
+            const page = validated.data;
+            for (const item of page.items) {
+              if (item.ingredientsFull?.length) client.ingredientIndex.add(item.id, item.ingredientsFull);
+            }
+            candidates.push(...page.items.filter((item) => item.id !== target.id));
+            offset += page.items.length;
+            moreInCatalog = page.items.length > 0 && (page.meta.hasMore ?? page.meta.total > offset);
+            if (!moreInCatalog) break;
+          }
+          const limitations = moreInCatalog
+            ? [`Only the first ${MAX_CANDIDATES} catalog products were compared; later products were not considered`]
+            : [];
+
+          // Step 4: Apply exclusions and score. Ingredients come from the full
+          // list when indexed, else the preview.
+          const exclusionGroups = (params.excludeProteinSources ?? []).map((id) => ALLERGEN_GROUPS[id]);
+          const targetBrand = target.brand.toLowerCase();
+          const ingredientsOf = (item: AgentProductItem) =>
+            client.ingredientIndex.get(item.id) ?? item.ingredientsPreview ?? [];
+
+          const rank = () => {
+            const excluded = { sameBrand: 0, proteinSources: 0 };
+            const ranked: RankedCandidate[] = [];
+            for (const item of candidates) {
+              if (params.excludeSameBrand && item.brand.toLowerCase() === targetBrand) {
+                excluded.sameBrand++;
+                continue;
+              }
+              const ingredients = ingredientsOf(item);
+              if (exclusionGroups.length > 0 && findAllergenGroups(ingredients, exclusionGroups).length > 0) {
+                excluded.proteinSources++;
+                continue;
+              }
+              ranked.push({ item, result: scoreSimilarity(targetProfile, buildProfile(item, ingredients)) });
+            }
+            ranked.sort(
+              (a, b) =>
+                b.result.similarity - a.result.similarity ||
+                a.item.name.localeCompare(b.item.name) ||
+                a.item.id.localeCompare(b.item.id)
+            );
+            return { ranked, excluded };
+          };
+
+          // Step 5: Fetch full ingredient lists for the best preliminary
+          // matches (cached by the client, which indexes them), then re-rank
+          let { ranked, excluded } = rank();
+          const unindexed = ranked
+            .slice(0, MAX_DETAIL_LOOKUPS)
+            .filter(({ item }) => !client.ingredientIndex.has(item.id));
+          if (unindexed.length > 0) {
+            await allSettledWithLimit(unindexed, DETAIL_LOOKUP_CONCURRENCY, ({ item }) =>
+              client.getProductDetail(item.id, { signal: extra?.signal, sessionId: extra?.sessionId })
+            );
+            ({ ranked, excluded } = rank());
+          }
+
+          // Step 6: Map to SimilarProductItem shape
+          const items: SimilarProductItem[] = ranked.slice(0, params.limit ?? 5).map(({ item, result }) => ({
+            id: item.id,
+            name: item.name,
+            brand: item.brand,
+            form: item.form,
+            detailUrl: item.detailUrl,
+            similarity: result.similarity,
+            scores: result.scores,
+            reasons: result.reasons,
+            ingredientCheck: client.ingredientIndex.has(item.id) ? "full" : "preview",
+          }));
+
+          const result: SimilarProductsResult = {
+            product: { id: target.id, name: target.name, brand: target.brand },
+            items,
+            candidatesCompared: candidates.length,
+            excluded,
+            limitations,
+            rateLimit,
+          };
+
+          // Step 7: Run safeguard
+          assertNoAffiliateLinks(result);
+
+          // Step 8: Return result
+          return createSuccessResponse(result, rateLimit);
+        } catch (error) {
+          // Log full error internally for debugging
+          const message = error instanceof Error ? error.message : "Unknown error";
+          console.error("find_similar_products error:", message, error);
+
+          if (error instanceof NotFoundError) {
+            return ToolResponseBuilder.notFound("Product", params.productId, rateLimit);
+          }
+
+          // Circuit open: tell the agent to back off instead of waiting on a degraded API
+          if (error instanceof CircuitOpenError) {
+            return ToolResponseBuilder.upstreamUnavailable(error.retryAfterMs, rateLimit);
+          }
+
+          // Return safe generic message to user
+          return ToolResponseBuilder.internal(
+            "An error occurred while finding similar products. Please try again later.",
+            rateLimit,
+            { tool: "find_similar_products" }
+          );
+        }
+      })(params, extra);
+    }
+  );
+}
@@ -8,64 +8,14 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 
-import { AgentApiClient, type AgentProductDetail, type AgentCurationResponse } from "../client.js";
-import { NotFoundError } from "../errors.js";
-import { TokenBucketManager } from "../rate-limit.js";
+import { AgentApiClient, type AgentCurationResponse } from "../client.js";
+import { CircuitOpenError, NotFoundError } from "../errors.js";
+import { TokenBucketManager, type ClientIdResolver } from "../rate-limit.js";
 import { ToolResponseBuilder } from "../response-builder.js";
 import { assertNoAffiliateLinks } from "../safeguard.js";
 import type { CurationResult, RecommendedProductSummary, RateLimitInfo } from "../types.js";
 import { createSuccessResponse } from "../utils/response-helpers.js";
 
-// ============================================
-// Simple In-Memory Cache for Product Details
-// ============================================
-
-interface CacheEntry<T> {
-  data: T;
-  expiresAt: number;
-}
-
-class ProductCache {
-  private cache = new Map<string, CacheEntry<AgentProductDetail>>();
-  private readonly ttlMs: number;
-
-  constructor(ttlMs = 60000) {
-    // Default 1 minute TTL
-    this.ttlMs = ttlMs;
-  }
-
-  get(key: string): AgentProductDetail | undefined {
-    const entry = this.cache.get(key);
-    if (!entry) return undefined;
-
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
-      return undefined;
-    }
-
-    return entry.data;
-  }
-
-  set(key: string, data: AgentProductDetail): void {
-    this.cache.set(key, {
-      data,
-      expiresAt: Date.now() + this.ttlMs,
-    });
-  }
-
-  clear(): void {
-    this.cache.clear();
-  }
-}
-
-// Shared cache instance (module-level)
-const productCache = new ProductCache(60000); // 1 minute TTL
-
-/** Clear the product cache - useful for testing */
-export function clearProductCache(): void {
-  productCache.clear();
-}
-
 const inputSchema = z.object({
   slug: z.string().min(1).max(128).describe("The curation page slug (e.g., 'low-carb-cat-food')"),
   includeSections: z.boolean().optional().describe("Include extended content sections (opt-in)"),
@@ -83,26 +33,9 @@ async function enrichTopProducts(
   const enriched = await Promise.all(
     top3Ids.map(async (id): Promise<RecommendedProductSummary | { id: string; error: string }> => {
       try {
-        // Check cache first
-        const cacheKey = `product:${id}`;
-        const cached = productCache.get(cacheKey);
-
-        if (cached) {
-          return {
-            id,
-            name: cached.name ?? "Unknown",
-            brand: cached.brand ?? "Unknown",
-            form: cached.form,
-            keyNutrition: {
-              protein: cached.nutrition?.protein,
-              carbEstimated: cached.derivedMetrics?.carbEstimated,
-            },
-            detailToolLink: `Use get_product_detail with productId '${id}'`,
-          };
-        }
-
         // Fetch product detail from API
-        // Response is already validated by Zod schema in client.ts
+        // Response is already validated by Zod schema in client.ts and
+        // served from the client's shared response cache when fresh
         const response = await client.getProductDetail(id);
         const product = response.product;
 
@@ -110,9 +43,6 @@ async function enrichTopProducts(
           return { id, error: "Product not found" };
         }
 
-        // Cache the product data
-        productCache.set(cacheKey, product);
-
         return {
           id,
           name: product.name ?? "Unknown",
@@ -169,15 +99,15 @@ export function registerCurationTool(
   server: McpServer,
   client: AgentApiClient,
   bucketManager: TokenBucketManager,
-  getClientId: () => string
+  getClientId: ClientIdResolver
 ): void {
   server.tool(
     "get_curation_list",
     "Retrieve curated best-of category data by slug. Returns summary by default with opt-in extended content.",
     inputSchema.shape,
-    async (input: Input) => {
+    async (input: Input, extra) => {
       // Rate limit check
-      const rateCheck = bucketManager.consume(getClientId());
+      const rateCheck = bucketManager.consume(getClientId(extra));
 
       if (!rateCheck.allowed) {
         return ToolResponseBuilder.rateLimitExceeded(rateCheck);
@@ -198,6 +128,11 @@ export function registerCurationTool(
           return ToolResponseBuilder.notFound("Curation page", input.slug, rateLimit);
         }
 
+        // Circuit open: tell the agent to back off instead of waiting on a degraded API
+        if (error instanceof CircuitOpenError) {
+          return ToolResponseBuilder.upstreamUnavailable(error.retryAfterMs, rateLimit);
+        }
+
         throw error;
       }
 
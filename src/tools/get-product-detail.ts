@@ -3,18 +3,20 @@
  *
  * Get complete information about a specific cat food product including
  * full ingredient list, nutrition facts, calorie density, and health condition tags.
+ * Given the cat's age, flags whether the product suits its life stage.
  */
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 
 import type { AgentApiClient } from "../client.js";
-import { NotFoundError } from "../errors.js";
-import { withRateLimit, type TokenBucketManager } from "../rate-limit.js";
+import { CircuitOpenError, NotFoundError } from "../errors.js";
+import { withRateLimit, type ClientIdResolver, type TokenBucketManager } from "../rate-limit.js";
 import { ToolResponseBuilder } from "../response-builder.js";
 import { assertNoAffiliateLinks } from "../safeguard.js";
 import { ApiProductSchema } from "../schemas/agent-api.js";
-import type { ProductInfo, NutritionInfo, DerivedMetricsInfo } from "../types.js";
+import type { ProductInfo, NutritionInfo, DerivedMetricsInfo, LifeStageCheck } from "../types.js";
+import { checkLifeStage, normalizeLifeStages } from "../utils/life-stage.js";
 import { createSuccessResponse } from "../utils/response-helpers.js";
 
 // ULID format validation regex (26 alphanumeric characters)
@@ -24,15 +26,22 @@ export function registerDetailTool(
   server: McpServer,
   client: AgentApiClient,
   bucketManager: TokenBucketManager,
-  getClientId: () => string
+  getClientId: ClientIdResolver
 ): void {
   server.tool(
     "get_product_detail",
-    "Get complete information about a specific cat food product including full ingredient list, nutrition facts, calorie density, and health condition tags. Requires a product ID from search_products results.",
+    "Get complete information about a specific cat food product including full ingredient list, nutrition facts, calorie density, health condition tags, and life stages. Pass catAgeMonths to check whether the product suits the cat's life stage. Requires a product ID from search_products results.",
     {
       productId: z.string().min(1).max(128).describe("Product ID (from search_products results)"),
+      catAgeMonths: z
+        .number()
+        .int()
+        .min(0)
+        .max(360)
+        .optional()
+        .describe("The cat's age in months; when given, lifeStageCheck says whether the product suits it"),
     },
-    async (params) => {
+    async (params, extra) => {
       return withRateLimit(bucketManager, getClientId, async (_params, rateLimit) => {
         try {
           // Step 1: Validate product ID format (ULID)
@@ -45,7 +54,10 @@ export function registerDetailTool(
           }
 
           // Step 2: Call Agent API
-          const raw = await client.getProductDetail(params.productId);
+          const raw = await client.getProductDetail(params.productId, {
+            signal: extra.signal,
+            sessionId: extra.sessionId,
+          });
 
           // Step 3: Validate API response with Zod
           const validated = ApiProductSchema.safeParse(raw);
@@ -64,6 +76,14 @@ export function registerDetailTool(
                 fat: apiProduct.nutrition.fat,
                 fiber: apiProduct.nutrition.fiber,
                 moisture: apiProduct.nutrition.moisture,
+                ash: apiProduct.nutrition.ash,
+                calcium: apiProduct.nutrition.calcium,
+                phosphorus: apiProduct.nutrition.phosphorus,
+                magnesium: apiProduct.nutrition.magnesium,
+                sodium: apiProduct.nutrition.sodium,
+                taurine: apiProduct.nutrition.taurine,
+                omega3: apiProduct.nutrition.omega3,
+                omega6: apiProduct.nutrition.omega6,
               }
             : undefined;
 
@@ -82,6 +102,7 @@ export function registerDetailTool(
             imageUrl: apiProduct.imageUrl,
             form: apiProduct.form,
             lifeStageTags: apiProduct.lifeStageTags,
+            lifeStages: normalizeLifeStages(apiProduct.lifeStageTags),
             conditionTags: apiProduct.conditionTags,
             ingredientsPreview: apiProduct.ingredientsPreview,
             ingredientsFull: apiProduct.ingredientsFull,
@@ -91,11 +112,16 @@ export function registerDetailTool(
             hasOffer: apiProduct.hasOffer,
           };
 
+          const result: ProductInfo & { lifeStageCheck?: LifeStageCheck } = { ...productInfo };
+          if (params.catAgeMonths !== undefined) {
+            result.lifeStageCheck = checkLifeStage(apiProduct.lifeStageTags, params.catAgeMonths);
+          }
+
           // Step 5: Run safeguard
-          assertNoAffiliateLinks(productInfo);
+          assertNoAffiliateLinks(result);
 
           // Step 6: Return result
-          return createSuccessResponse(productInfo, rateLimit);
+          return createSuccessResponse(result, rateLimit);
         } catch (error) {
           // Log full error internally for debugging
           const message = error instanceof Error ? error.message : "Unknown error";
@@ -106,6 +132,11 @@ export function registerDetailTool(
             return ToolResponseBuilder.notFound("Product", params.productId, rateLimit);
           }
 
+          // Circuit open: tell the agent to back off instead of waiting on a degraded API
+          if (error instanceof CircuitOpenError) {
+            return ToolResponseBuilder.upstreamUnavailable(error.retryAfterMs, rateLimit);
+          }
+
           // Return safe generic message to user
           return ToolResponseBuilder.internal(
             "An error occurred while retrieving product details. Please try again later.",
@@ -113,7 +144,7 @@ export function registerDetailTool(
             { tool: "get_product_detail", productId: params.productId }
           );
         }
-      })(params);
+      })(params, extra);
     }
   );
 }
@@ -0,0 +1,273 @@
+/**
+ * plan_mixed_feeding MCP Tool
+ *
+ * Feeding plan for a cat eating 2-4 foods (typically wet + dry): splits the
+ * daily energy requirement between the foods, converts each share to grams,
+ * and reports the macro profile of the day's food as a whole. Carbs and DMB
+ * use the same calculations as analyze_nutrition, so a single food at 100%
+ * gives the same numbers.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+import type { AgentApiClient } from "../client.js";
+import { CircuitOpenError, NotFoundError } from "../errors.js";
+import { withRateLimit, type ClientIdResolver, type TokenBucketManager } from "../rate-limit.js";
+import { ToolResponseBuilder } from "../response-builder.js";
+import { assertNoAffiliateLinks } from "../safeguard.js";
+import { ApiProductSchema } from "../schemas/agent-api.js";
+import type { MixedFeedingPlanResult, MixedFeedingPortion } from "../types.js";
+import { NUTRITION_DISCLAIMER } from "../types.js";
+import {
+  calculateEnergyRequirement,
+  CatProfileSchema,
+  describeEnergyRequirement,
+  productEnergy,
+  targetWeightError,
+} from "../utils/feeding.js";
+import { calculateCarbEstimated, calculateDMB, calculateMetabolizableEnergy } from "../utils/nutrition.js";
+import { createSuccessResponse } from "../utils/response-helpers.js";
+
+// ULID format validation regex (26 alphanumeric characters)
+const PRODUCT_ID_REGEX = /^[A-Z0-9]{26}$/i;
+
+// Allowed rounding slack when a calorie split should add up to 100%
+const SPLIT_TOLERANCE = 0.5;
+
+const NUTRIENTS = ["protein", "fat", "fiber", "moisture"] as const;
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Average weighted by `weights`, or undefined when any value is missing
+ */
+function weightedAverage(values: Array<number | undefined>, weights: number[]): number | undefined {
+  if (values.some((value) => value === undefined)) return undefined;
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) return undefined;
+  return values.reduce<number>((sum, value, i) => sum + (value as number) * weights[i], 0) / total;
+}
+
+export function registerMixedFeedingTool(
+  server: McpServer,
+  client: AgentApiClient,
+  bucketManager: TokenBucketManager,
+  getClientId: ClientIdResolver
+): void {
+  server.tool(
+    "plan_mixed_feeding",
+    "Plan daily amounts for a cat fed 2-4 foods (e.g. wet + dry). Splits the cat's energy requirement by calorieSplit (percent per product) or wetCaloriePercent (share of calories from wet food), or evenly. Returns grams (and cans/cups when known) of each food per day, plus the blended as-fed and dry-matter macro profile, carbohydrates and calorie distribution of the day's food.",
+    {
+      productIds: z.array(z.string().min(1).max(128)).min(2).max(4).describe("2-4 product IDs to feed together"),
+      ...CatProfileSchema.shape,
+      calorieSplit: z
+        .array(z.number().min(0).max(100))
+        .min(2)
+        .max(4)
+        .optional()
+        .describe("Percent of daily calories from each product, in productIds order; must add up to 100"),
+      wetCaloriePercent: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .describe("Percent of daily calories from wet food, shared evenly by the wet products (the rest by the dry)"),
+    },
+    async (params, extra) => {
+      return withRateLimit(bucketManager, getClientId, async (_params, rateLimit) => {
+        try {
+          // Step 1: Validate product IDs, the cat profile and the split
+          const invalidIds = params.productIds.filter((id) => !PRODUCT_ID_REGEX.test(id));
+          if (invalidIds.length > 0) {
+            return ToolResponseBuilder.validation(
+              "Invalid product ID format. All product IDs must be valid ULIDs (26 alphanumeric characters)",
+              rateLimit,
+              { invalidIds }
+            );
+          }
+          if (new Set(params.productIds).size !== params.productIds.length) {
+            return ToolResponseBuilder.validation("Each product can only be listed once", rateLimit, {
+              productIds: params.productIds,
+            });
+          }
+          const weightError = targetWeightError(params);
+          if (weightError) {
+            return ToolResponseBuilder.validation(weightError, rateLimit, {
+              catWeightKg: params.catWeightKg,
+              targetWeightKg: params.targetWeightKg,
+              weightGoal: params.weightGoal ?? "maintain",
+            });
+          }
+          if (params.calorieSplit && params.wetCaloriePercent !== undefined) {
+            return ToolResponseBuilder.validation("Pass either calorieSplit or wetCaloriePercent, not both", rateLimit);
+          }
+          if (params.calorieSplit) {
+            const sum = params.calorieSplit.reduce((total, percent) => total + percent, 0);
+            if (params.calorieSplit.length !== params.productIds.length || Math.abs(sum - 100) > SPLIT_TOLERANCE) {
+              return ToolResponseBuilder.validation(
+                "calorieSplit needs one percentage per product, adding up to 100",
+                rateLimit,
+                { calorieSplit: params.calorieSplit, productIds: params.productIds }
+              );
+            }
+          }
+
+          // Step 2: Fetch and validate every product
+          const fetched = await Promise.all(
+            params.productIds.map(async (id) => {
+              const raw = await client
+                .getProductDetail(id, { signal: extra?.signal, sessionId: extra?.sessionId })
+                .catch((error: unknown) => {
+                  if (error instanceof NotFoundError) return undefined;
+                  throw error;
+                });
+              if (raw === undefined) return { id, product: undefined };
+
+              const validated = ApiProductSchema.safeParse(raw);
+              if (!validated.success) {
+                throw new Error(`Invalid API response: ${validated.error.message}`);
+              }
+              return { id, product: validated.data.product };
+            })
+          );
+          const missingIds = fetched.filter(({ product }) => !product).map(({ id }) => id);
+          if (missingIds.length > 0) {
+            return ToolResponseBuilder.notFound("Product", missingIds.join(", "), rateLimit);
+          }
+          const products = fetched.flatMap(({ product }) => (product ? [product] : []));
+
+          const foods = products.flatMap((product) => {
+            const energy = productEnergy(product);
+            return energy ? [{ product, energy }] : [];
+          });
+          if (foods.length < products.length) {
+            return ToolResponseBuilder.validation(
+              "Calorie content is unavailable and cannot be estimated for some products, so they cannot be portioned",
+              rateLimit,
+              { productIds: products.filter((product) => !productEnergy(product)).map((product) => product.id) }
+            );
+          }
+
+          // Step 3: Calorie share of each product
+          let shares: number[];
+          if (params.calorieSplit) {
+            shares = params.calorieSplit;
+          } else if (params.wetCaloriePercent !== undefined) {
+            const wetPercent = params.wetCaloriePercent;
+            const wetCount = products.filter((product) => product.form === "wet").length;
+            const dryCount = products.length - wetCount;
+            if ((wetPercent > 0 && wetCount === 0) || (wetPercent < 100 && dryCount === 0)) {
+              return ToolResponseBuilder.validation(
+                "wetCaloriePercent needs both wet and dry products (or 0/100 when only one form is listed)",
+                rateLimit,
+                { wetCaloriePercent: wetPercent, forms: products.map((product) => product.form) }
+              );
+            }
+            shares = products.map((product) =>
+              product.form === "wet" ? wetPercent / wetCount : (100 - wetPercent) / dryCount
+            );
+          } else {
+            shares = products.map(() => 100 / products.length);
+          }
+
+          // Step 4: Portion each product
+          const requirement = calculateEnergyRequirement(params);
+          const { assumptions, limitations } = describeEnergyRequirement(params, requirement);
+          const kcal = shares.map((share) => (requirement.kcalPerDay * share) / 100);
+          const grams = foods.map(({ energy }, i) => (kcal[i] / energy.kcalPerKg) * 1000);
+
+          const portions: MixedFeedingPortion[] = foods.map(({ product, energy }, i) => {
+            if (energy.source === "estimated") {
+              assumptions.push(
+                `${product.name}: calorie content not reported; estimated at ${energy.kcalPerKg} kcal/kg (modified Atwater factors)`
+              );
+            }
+            return {
+              productId: product.id,
+              productName: product.name,
+              form: product.form,
+              caloriePercent: roundTo(shares[i], 1),
+              kcalPerDay: Math.round(kcal[i]),
+              gramsPerDay: Math.round(grams[i]),
+              cansPerDay: product.energyKcalPerCan ? roundTo(kcal[i] / product.energyKcalPerCan, 2) : undefined,
+              cupsPerDay: product.energyKcalPerCup ? roundTo(kcal[i] / product.energyKcalPerCup, 2) : undefined,
+              productEnergy: energy,
+            };
+          });
+
+          // Step 5: Blend the macro profile, weighted by grams fed
+          const blendedAsFed = Object.fromEntries(
+            NUTRIENTS.map((nutrient) => [
+              nutrient,
+              weightedAverage(products.map((product) => product.nutrition?.[nutrient]), grams),
+            ])
+          ) as Record<(typeof NUTRIENTS)[number], number | undefined>;
+          const carbs = products.map((product) =>
+            calculateCarbEstimated(product.nutrition ?? {}, { form: product.form })
+          );
+          const blendedCarb = weightedAverage(carbs.map((carb) => carb.value), grams);
+          const dmbValues = calculateDMB(blendedAsFed, blendedCarb);
+          const round = (value: number | undefined) => (value === undefined ? undefined : roundTo(value, 1));
+
+          assumptions.push("Blended values are averages of the foods weighted by grams fed per day");
+          if (carbs.some((carb) => carb.isEstimated)) {
+            assumptions.push("Default ash values used for products that do not report ash (8% dry, 2.5% wet)");
+          }
+          if (blendedCarb === undefined) {
+            limitations.push("Some products lack protein, fat or moisture; blended carbohydrates not calculated");
+          }
+
+          const result: MixedFeedingPlanResult = {
+            energyRequirement: requirement,
+            portions,
+            blend: {
+              totalGramsPerDay: Math.round(grams.reduce((sum, value) => sum + value, 0)),
+              asFed: {
+                protein: round(blendedAsFed.protein),
+                fat: round(blendedAsFed.fat),
+                fiber: round(blendedAsFed.fiber),
+                moisture: round(blendedAsFed.moisture),
+              },
+              carbohydrates: {
+                asFed: round(blendedCarb),
+                isEstimated: carbs.some((carb) => carb.isEstimated),
+                dmb: dmbValues.carbEstimated,
+              },
+              dmb: dmbValues,
+              caloriesFrom: calculateMetabolizableEnergy(blendedAsFed, blendedCarb)?.caloriesFrom,
+            },
+            assumptions,
+            limitations,
+            disclaimer: NUTRITION_DISCLAIMER,
+          };
+
+          // Step 6: Run safeguard
+          assertNoAffiliateLinks(result);
+
+          // Step 7: Return result
+          return createSuccessResponse(result, rateLimit);
+        } catch (error) {
+          // Log full error internally for debugging
+          const message = error instanceof Error ? error.message : "Unknown error";
+          console.error("plan_mixed_feeding error:", message, error);
+
+          // Circuit open: tell the agent to back off instead of waiting on a degraded API
+          if (error instanceof CircuitOpenError) {
+            return ToolResponseBuilder.upstreamUnavailable(error.retryAfterMs, rateLimit);
+          }
+
+          // Return safe generic message to user
+          return ToolResponseBuilder.internal(
+            "An error occurred while planning the feeding. Please try again later.",
+            rateLimit,
+            { tool: "plan_mixed_feeding" }
+          );
+        }
+      })(params, extra);
+    }
+  );
+}
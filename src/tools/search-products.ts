@@ -9,30 +9,71 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 
 import { AgentApiClient } from "../client.js";
-import { NotFoundError } from "../errors.js";
-import type { TokenBucketManager } from "../rate-limit.js";
+import { config } from "../config.js";
+import { CircuitOpenError, NotFoundError } from "../errors.js";
+import { ALLERGEN_GROUP_IDS, ALLERGEN_GROUPS, findAllergenGroups } from "../ingredients/allergens.js";
+import { ingredientMatches, ingredientMentions } from "../ingredients/normalize.js";
+import type { ClientIdResolver, TokenBucketManager } from "../rate-limit.js";
 import { ToolResponseBuilder } from "../response-builder.js";
 import { assertNoAffiliateLinks } from "../safeguard.js";
 import { AgentProductsResponseSchema } from "../schemas/agent-api.js";
-import type { AgentProductItem, SearchableProduct, AgentProductsResponse } from "../types/agent-api.js";
-import type { SearchResultItem, SearchResult, RateLimitInfo } from "../types.js";
-import { createSuccessResponse } from "../utils/response-helpers.js";
+import { decodeSearchCursor, encodeSearchCursor, searchFingerprint, type SearchCursor } from "../search/cursor.js";
+import { computeFacets } from "../search/facets.js";
+import { findSpellingSuggestions } from "../search/fuzzy.js";
+import {
+  compileFilter,
+  evaluateFilter,
+  filterUsesIngredients,
+  mergeApiParams,
+  SearchFilterSchema,
+  type FilterContext,
+} from "../search/filter.js";
+import { SORT_OPTIONS, sortProducts } from "../search/sorting.js";
+import type { AgentProductItem, SearchableProduct } from "../types/agent-api.js";
+import type {
+  AppliedExclusion,
+  SearchFacets,
+  SearchResultItem,
+  SearchResult,
+  RateLimitInfo,
+  SpellingSuggestion,
+} from "../types.js";
+import { allSettledWithLimit } from "../utils/concurrency.js";
+import { LIFE_STAGES, normalizeLifeStages, suitsLifeStage } from "../utils/life-stage.js";
+import { createSuccessResponse, type ToolResponse } from "../utils/response-helpers.js";
 
 // Constants for dynamic batch sizing
 const DEFAULT_BATCH_SIZE = 50;
 const CLIENT_SIDE_PROCESSING_BATCH_SIZE = 200;
 
+// Detail lookups per search to fill in full ingredient lists the index lacks
+const MAX_DETAIL_LOOKUPS = 20;
+// Detail lookups in flight at once
+const DETAIL_LOOKUP_CONCURRENCY = 4;
+
+// Upstream products scanned per page while client-side filters or sorts are active
+const MAX_SCANNED_PRODUCTS = 1_000;
+
+// Below this many upstream hits for a query, suggest similar names and brands
+const FEW_HITS = 3;
+
 export function registerSearchTool(
   server: McpServer,
   client: AgentApiClient,
   bucketManager: TokenBucketManager,
-  getClientId: () => string
+  getClientId: ClientIdResolver
 ): void {
   server.tool(
     "search_products",
     "Search Bowlly's cat food database by ingredients, health conditions, or food form. Use this when the user asks to find, filter, or recommend cat foods. Returns a summary list — use get_product_detail for full information about specific products.",
     {
-      query: z.string().max(256).optional().describe("Search by product name, brand, or ingredient"),
+      query: z
+        .string()
+        .max(256)
+        .optional()
+        .describe(
+          "Search by product name, brand, or ingredient. When it finds few products, didYouMean suggests close names and brands from products the server has already seen (none right after startup unless a catalog snapshot is loaded)"
+        ),
       form: z.enum(["dry", "wet"]).optional().describe("Food form: dry kibble or wet canned food"),
       conditions: z
         .string()
@@ -42,26 +83,60 @@ export function registerSearchTool(
         .string()
         .optional()
         .describe(
-          "Comma-separated ingredients that MUST be present (e.g., 'chicken,tuna'). Note: searches ingredients preview (top 5), may miss ingredients beyond 5th position"
+          "Comma-separated ingredients that MUST be present (e.g., 'chicken,tuna'). Checked against the full ingredient list when known; each result's ingredientCheck says whether the full list or only the top-5 preview was checked"
         ),
       excludeIngredients: z
         .string()
         .optional()
         .describe(
-          "Comma-separated ingredients to EXCLUDE (e.g., 'corn,wheat'). Note: searches ingredients preview (top 5), may miss ingredients beyond 5th position"
+          "Comma-separated ingredients to EXCLUDE (e.g., 'corn,wheat'). Checked against the full ingredient list when known; results with ingredientCheck 'preview' were only checked against the top-5 ingredients"
+        ),
+      excludeProteinSources: z
+        .array(z.enum(ALLERGEN_GROUP_IDS))
+        .optional()
+        .describe(
+          "Allergen-safe mode: exclude every form of these protein sources (e.g., ['poultry'] also excludes chicken fat, chicken liver, hydrolyzed chicken and egg). Checked against full ingredient lists; see each result's ingredientCheck"
+        ),
+      filter: SearchFilterSchema.optional().describe(
+        'Structured filter, ANDed with the other params. Nodes: {all:[...]}, {any:[...]}, {not:{...}}, {metric:"protein"|"fat"|"fiber"|"moisture"|"carbs"|"meatScore"|"energyKcalPerKg", min?, max?, basis?:"asFed"|"dmb"}, {conditionTag}, {lifeStageTag}, {form}, {brand}, {ingredient, withinFirst?, exact?}. Example: {all:[{ingredient:"chicken",withinFirst:3},{any:[{form:"wet"},{metric:"carbs",max:10,basis:"dmb"}]}]}'
+      ),
+      lifeStage: z
+        .enum(LIFE_STAGES)
+        .optional()
+        .describe(
+          "Only foods formulated for this life stage; all-life-stages foods match any stage. Products that state no life stage are excluded"
         ),
       minProtein: z.number().optional().describe("Minimum crude protein percentage (e.g., 35)"),
       maxCarbs: z.number().optional().describe("Maximum estimated carbs percentage (e.g., 10)"),
       sortBy: z
-        .enum(["protein_desc", "carbs_asc", "fat_desc", "moisture_desc"])
+        .enum(SORT_OPTIONS)
+        .optional()
+        .describe(
+          "Sort by nutritional metric. *_dmb sorts use dry matter basis, which compares wet and dry food fairly; energy_density is kcal/kg of dry matter. Products missing the value are listed last"
+        ),
+      thenBy: z
+        .array(z.enum(SORT_OPTIONS))
+        .max(3)
         .optional()
-        .describe("Sort by nutritional metric"),
+        .describe("Tie-breakers applied in order after sortBy (default depends on sortBy)"),
+      includeFacets: z
+        .boolean()
+        .optional()
+        .describe(
+          "Include counts by form, condition tags, life stage, brand, and protein/carb ranges over all matching products (not just this page)"
+        ),
       limit: z.number().min(1).max(20).default(10).describe("Results per page (default 10, max 20)"),
-      cursor: z.number().min(0).default(0).describe("Pagination offset (0 for first page)"),
+      cursor: z
+        .string()
+        .max(512)
+        .optional()
+        .describe(
+          "Opaque cursor from the previous page's result; omit for the first page. Only valid with the same query, filters and sort"
+        ),
     },
-    async (params) => {
+    async (params, extra) => {
       // Step 1: Rate limit check (outside try block for error handling access)
-      const rateCheck = bucketManager.consume(getClientId());
+      const rateCheck = bucketManager.consume(getClientId(extra));
       if (!rateCheck.allowed) {
         return ToolResponseBuilder.rateLimitExceeded(rateCheck);
       }
@@ -81,178 +156,344 @@ export function registerSearchTool(
         if (params.minProtein !== undefined) apiParams.minProtein = String(params.minProtein);
         if (params.maxCarbs !== undefined) apiParams.maxCarbs = String(params.maxCarbs);
 
+        // Narrow the upstream fetch with what the structured filter implies
+        // (the filter itself is always evaluated client-side)
+        if (params.filter) mergeApiParams(apiParams, compileFilter(params.filter));
+
         // Determine if we need a larger batch for client-side sorting/filtering
+        const exclusionGroups = (params.excludeProteinSources ?? []).map((id) => ALLERGEN_GROUPS[id]);
+        const hasTermFilters = Boolean(params.includeIngredients) || Boolean(params.excludeIngredients);
+        const filterUsesIngredientLists = params.filter !== undefined && filterUsesIngredients(params.filter);
+        const hasIngredientFilters = hasTermFilters || exclusionGroups.length > 0 || filterUsesIngredientLists;
+        // Sorting and facets need every match, not just enough to fill the page
+        const scanAll = Boolean(params.sortBy) || Boolean(params.includeFacets);
         const needsClientSideProcessing =
-          Boolean(params.sortBy) || Boolean(params.includeIngredients) || Boolean(params.excludeIngredients);
+          scanAll || hasIngredientFilters || Boolean(params.lifeStage) || params.filter !== undefined;
         const userLimit = params.limit ?? 10;
-        const userCursor = params.cursor ?? 0;
 
-        // P1-022: Dynamic batch size
-        const batchSize = Math.min(
-          params.limit ? params.limit * 2 : DEFAULT_BATCH_SIZE,
-          CLIENT_SIDE_PROCESSING_BATCH_SIZE
-        );
-
-        if (needsClientSideProcessing) {
-          // Fetch larger batch for accurate sorting/filtering
-          apiParams.limit = String(batchSize);
-          apiParams.offset = "0";
-        } else {
-          apiParams.limit = String(userLimit);
-          apiParams.offset = String(userCursor);
+        // Step 2a: Resolve the cursor. It must come from a search with the same
+        // query, filters and sort; the page size may change between pages.
+        const fingerprint = searchFingerprint({
+          query: params.query,
+          form: params.form,
+          conditions: params.conditions,
+          lifeStage: params.lifeStage,
+          includeIngredients: params.includeIngredients,
+          excludeIngredients: params.excludeIngredients,
+          excludeProteinSources: params.excludeProteinSources,
+          minProtein: params.minProtein,
+          maxCarbs: params.maxCarbs,
+          sortBy: params.sortBy,
+          thenBy: params.thenBy,
+          filter: params.filter,
+        });
+        let start: SearchCursor = { query: fingerprint, offset: 0, skip: 0, returned: 0 };
+        if (params.cursor) {
+          const decoded = decodeSearchCursor(params.cursor, config.cursorSecret);
+          if (!decoded) {
+            return ToolResponseBuilder.validation(
+              "Invalid or expired cursor. Pass the cursor from a previous search_products result unchanged, or omit it to start from the first page.",
+              rateLimit
+            );
+          }
+          if (decoded.query !== fingerprint) {
+            return ToolResponseBuilder.validation(
+              "This cursor belongs to a search with different query, filters or sort. Repeat the original parameters to continue, or omit the cursor to start a new search.",
+              rateLimit
+            );
+          }
+          start = decoded;
         }
 
+        // P1-022: Dynamic batch size (a full scan uses the largest batches)
+        const batchSize = scanAll
+          ? CLIENT_SIDE_PROCESSING_BATCH_SIZE
+          : Math.min(params.limit ? params.limit * 2 : DEFAULT_BATCH_SIZE, CLIENT_SIDE_PROCESSING_BATCH_SIZE);
+
         // Step 3: Call Agent API
-        const raw = await client.getProducts(apiParams);
-        // P1-020,055: Zod validation
-        const validated = AgentProductsResponseSchema.safeParse(raw);
-        if (!validated.success) {
-          throw new Error(`Invalid API response: ${validated.error.message}`);
-        }
-        const response: AgentProductsResponse = {
-          items: validated.data.items,
-          meta: {
-            total: validated.data.meta.total,
-            limit: validated.data.meta.limit,
-            offset: validated.data.meta.offset,
-          },
+        const fetchPage = async (offset: number, limit: number, query = apiParams) => {
+          const raw = await client.getProducts(
+            { ...query, limit: String(limit), offset: String(offset) },
+            { signal: extra?.signal, sessionId: extra?.sessionId }
+          );
+          // P1-020,055: Zod validation
+          const validated = AgentProductsResponseSchema.safeParse(raw);
+          if (!validated.success) {
+            throw new Error(`Invalid API response: ${validated.error.message}`);
+          }
+          return validated.data;
         };
+
         // P1-028: Pre-compute search text for each product to optimize filtering
-        const searchableItems: SearchableProduct[] = response.items.map((item) => ({
-          ...item,
-          _searchText: [item.name, item.brand, ...(item.conditionTags || []), ...(item.ingredientsPreview || [])]
-            .join(" ")
-            .toLowerCase(),
-        }));
+        const toSearchable = (items: AgentProductItem[]): SearchableProduct[] =>
+          items.map((item) => ({
+            ...item,
+            _searchText: [item.name, item.brand, ...(item.conditionTags || []), ...(item.ingredientsPreview || [])]
+              .join(" ")
+              .toLowerCase(),
+          }));
+
+        // Step 3a: When the query finds little upstream (often a misspelled
+        // brand or name), suggest close names and brands from products seen
+        // in earlier responses. Suggestions already among the results are dropped.
+        const suggestSpellings = (
+          upstreamTotal: number,
+          results: AgentProductItem[]
+        ): SpellingSuggestion[] | undefined => {
+          if (!params.query || params.cursor || upstreamTotal >= FEW_HITS) return undefined;
+          const resultIds = new Set(results.map((item) => item.id));
+          const resultBrands = new Set(results.map((item) => item.brand.toLowerCase()));
+          const found = findSpellingSuggestions(params.query, client.nameIndex.products()).filter((suggestion) =>
+            suggestion.kind === "brand"
+              ? !resultBrands.has(suggestion.text.toLowerCase())
+              : !resultIds.has(suggestion.productId ?? "")
+          );
+          return found.length > 0 ? found : undefined;
+        };
 
-        let items: SearchableProduct[] = searchableItems;
+        if (!needsClientSideProcessing) {
+          const page = await fetchPage(start.offset, userLimit);
+          const nextOffset = start.offset + page.items.length;
+          const hasMore = page.items.length > 0 && (page.meta.hasMore ?? page.meta.total > nextOffset);
+
+          return buildSearchResponse(
+            {
+              items: page.items,
+              total: page.meta.total,
+              hasMore,
+              next: hasMore
+                ? { query: fingerprint, offset: nextOffset, skip: 0, returned: start.returned + page.items.length }
+                : undefined,
+              didYouMean: suggestSpellings(page.meta.total, page.items),
+            },
+            rateLimit
+          );
+        }
 
         // Step 4: Client-side ingredient filtering with ingredientsPreview support
         let filterNote: string | undefined;
         let suggestions: string[] | undefined;
-        const originalItems = [...items]; // Keep copy for suggestion logic
+        let appliedExclusions: AppliedExclusion[] | undefined;
+
+        const ingredientIndex = client.ingredientIndex;
+        let detailLookupsLeft = MAX_DETAIL_LOOKUPS;
+
+        const includeTerms = params.includeIngredients
+          ? params.includeIngredients.split(",").map((s) => s.trim())
+          : [];
+        const excludeTerms = params.excludeIngredients
+          ? params.excludeIngredients.split(",").map((s) => s.trim())
+          : [];
+
+        // P1-053: Pre-compile regexes
+        // Exclusions also catch whole-word mentions ("chicken" removes chicken fat)
+        const parseTerm = (term: string, exclude: boolean): ParsedTerm => {
+          const { type, value } = parseMatchType(term);
+          const regex = type === "exact" ? new RegExp(`\\b${escapeRegex(value)}\\b`, "i") : undefined;
+          return { type, value, regex, partialMatch: exclude ? ingredientMentions : ingredientMatches };
+        };
+        const parsedIncludeTerms = includeTerms.map((term) => parseTerm(term, false));
+        const parsedExcludeTerms = excludeTerms.map((term) => parseTerm(term, true));
 
-        if (params.includeIngredients || params.excludeIngredients) {
-          const hasIngredientData = items.some(
-            (item) => (item.ingredientsPreview?.length ?? 0) > 0 || (item.ingredientsFull?.length ?? 0) > 0
-          );
-          if (!hasIngredientData) {
-            return ToolResponseBuilder.validation(
-              "Ingredient include/exclude filtering is not available for this environment (list results do not include ingredient previews). Use query/conditions filters instead.",
-              rateLimit,
-              { includeIngredients: params.includeIngredients, excludeIngredients: params.excludeIngredients }
+        const excludedCounts = new Map<string, number>();
+        const filterContext: FilterContext = {
+          ingredients: (item) => ingredientIndex.get(item.id) ?? item.ingredientsPreview ?? [],
+        };
+
+        const filterCandidates = (batch: SearchableProduct[]): SearchableProduct[] => {
+          // Check each product's own full list when indexed (cost grows with
+          // the batch, not with the size of the index), else its preview
+          const matchesTerm = (item: SearchableProduct, term: ParsedTerm) =>
+            matchIngredient(
+              term.value,
+              item,
+              term.type,
+              term.regex,
+              filterContext.ingredients(item),
+              term.partialMatch
             );
-          }
 
-          const includeTerms = params.includeIngredients
-            ? params.includeIngredients.split(",").map((s) => s.trim())
-            : [];
-          const excludeTerms = params.excludeIngredients
-            ? params.excludeIngredients.split(",").map((s) => s.trim())
-            : [];
-
-          // P1-053: Pre-compile regexes
-          const parsedIncludeTerms = includeTerms.map((term) => {
-            const { type, value } = parseMatchType(term);
-            return {
-              type,
-              value,
-              regex: type === "exact" ? new RegExp(`\\b${escapeRegex(value)}\\b`, "i") : undefined,
-            };
+          return batch.filter((item) => {
+            // Include filter: product must match ALL include terms
+            if (!parsedIncludeTerms.every((term) => matchesTerm(item, term))) return false;
+
+            // Exclude filter: product must NOT match ANY exclude term
+            if (parsedExcludeTerms.some((term) => matchesTerm(item, term))) return false;
+
+            // Life stage (upstream has no param for it)
+            if (params.lifeStage && !suitsLifeStage(normalizeLifeStages(item.lifeStageTags), params.lifeStage)) {
+              return false;
+            }
+
+            // Structured filter
+            if (params.filter && !evaluateFilter(params.filter, item, filterContext)) return false;
+
+            // Protein-source exclusions (allergen-safe mode)
+            if (exclusionGroups.length === 0) return true;
+            const ingredients = ingredientIndex.get(item.id) ?? item.ingredientsPreview ?? [];
+            const matchedGroups = findAllergenGroups(ingredients, exclusionGroups);
+            for (const id of matchedGroups) excludedCounts.set(id, (excludedCounts.get(id) ?? 0) + 1);
+            return matchedGroups.length === 0;
           });
-          const parsedExcludeTerms = excludeTerms.map((term) => {
-            const { type, value } = parseMatchType(term);
-            return {
-              type,
-              value,
-              regex: type === "exact" ? new RegExp(`\\b${escapeRegex(value)}\\b`, "i") : undefined,
-            };
+        };
+
+        // Step 4a: Scan upstream pages. Sorting and facets need every match, so
+        // they scan from the start; filtering alone resumes at the cursor and
+        // stops once the page is filled (plus one result, to know whether
+        // another page exists).
+        const candidates: SearchableProduct[] = [];
+        const matches: Array<{ item: SearchableProduct; upstreamIndex: number }> = [];
+        const wanted = scanAll ? Infinity : start.skip + userLimit + 1;
+        let scanOffset = scanAll ? 0 : start.offset;
+        let upstreamDone = false;
+        let upstreamTotal = 0;
+
+        while (!upstreamDone && matches.length < wanted && candidates.length < MAX_SCANNED_PRODUCTS) {
+          const page = await fetchPage(scanOffset, batchSize);
+          const batch = toSearchable(page.items);
+          const batchOffset = scanOffset;
+          upstreamTotal = page.meta.total;
+          scanOffset += page.items.length;
+          upstreamDone = page.items.length === 0 || !(page.meta.hasMore ?? page.meta.total > scanOffset);
+
+          if (hasIngredientFilters) {
+            // Make sure full ingredient lists are indexed. List items may carry
+            // them; otherwise look up a bounded number of details (cached and
+            // coalesced by the client, which indexes them).
+            for (const item of batch) {
+              if (item.ingredientsFull?.length) ingredientIndex.add(item.id, item.ingredientsFull);
+            }
+            const unindexed = batch.filter((item) => !ingredientIndex.has(item.id)).slice(0, detailLookupsLeft);
+            detailLookupsLeft -= unindexed.length;
+            await allSettledWithLimit(unindexed, DETAIL_LOOKUP_CONCURRENCY, (item) =>
+              client.getProductDetail(item.id, { signal: extra?.signal, sessionId: extra?.sessionId })
+            );
+
+            const hasIngredientData = batch.some(
+              (item) => (item.ingredientsPreview?.length ?? 0) > 0 || ingredientIndex.has(item.id)
+            );
+            if (candidates.length === 0 && !hasIngredientData) {
+              return ToolResponseBuilder.validation(
+                "Ingredient include/exclude filtering is not available for this environment (list results do not include ingredient previews). Use query/conditions filters instead.",
+                rateLimit,
+                {
+                  includeIngredients: params.includeIngredients,
+                  excludeIngredients: params.excludeIngredients,
+                  excludeProteinSources: params.excludeProteinSources,
+                  filter: params.filter,
+                }
+              );
+            }
+          }
+
+          candidates.push(...batch);
+          const passed = new Set(filterCandidates(batch));
+          batch.forEach((item, i) => {
+            if (passed.has(item)) matches.push({ item, upstreamIndex: batchOffset + i });
           });
+        }
 
-          items = items.filter((item) => {
-            // Include filter: product must match ALL include terms
-            const matchesInclude =
-              parsedIncludeTerms.length === 0 ||
-              parsedIncludeTerms.every(({ type, value, regex }) => matchIngredient(value, item, type, regex));
+        if (hasTermFilters) {
+          filterNote =
+            'Ingredient filtering checks the full ingredient list where known (ingredientCheck: "full"); results marked "preview" were only checked against the top ingredients. Uses partial matching by default, which understands synonyms and plurals ("poultry" matches "deboned fowl"; "chicken" does not match "chicken fat"); use quotes for exact matching (e.g., "chicken meal").';
+        }
 
-            // Exclude filter: product must NOT match ANY exclude term
+        if (exclusionGroups.length > 0) {
+          appliedExclusions = exclusionGroups.map((group) => ({
+            group: group.id,
+            description: group.description,
+            excludedProducts: excludedCounts.get(group.id) ?? 0,
+          }));
+          filterNote ??=
+            'Protein-source exclusions check the full ingredient list where known (ingredientCheck: "full"); results marked "preview" were only checked against the top ingredients.';
+        }
+
+        // Step 4b: Generate suggestions for empty results
+        if (hasTermFilters && matches.length === 0) {
+          // Try with relaxed filters (partial matching only, ignore exact requirements,
+          // any include term is enough)
+          const relaxedIncludeTerms = includeTerms.map((term) => term.toLowerCase().replace(/^"(.+)"$/, "$1"));
+          const relaxedExcludeTerms = excludeTerms.map((term) => term.toLowerCase().replace(/^"(.+)"$/, "$1"));
+
+          const relaxedItems = candidates.filter((item) => {
+            const ingredients = ingredientIndex.get(item.id) ?? item.ingredientsPreview ?? [];
+            const relaxedMatch = (term: string, matches: IngredientMatcher) =>
+              item._searchText.includes(term) || ingredients.some((ingredient) => matches(term, ingredient));
+
+            const matchesInclude =
+              relaxedIncludeTerms.length === 0 ||
+              relaxedIncludeTerms.some((term) => relaxedMatch(term, ingredientMatches));
             const matchesExclude =
-              parsedExcludeTerms.length === 0 ||
-              !parsedExcludeTerms.some(({ type, value, regex }) => matchIngredient(value, item, type, regex));
+              relaxedExcludeTerms.length === 0 ||
+              !relaxedExcludeTerms.some((term) => relaxedMatch(term, ingredientMentions));
 
             return matchesInclude && matchesExclude;
           });
 
-          filterNote =
-            'Ingredient filtering uses ingredients preview with partial matching by default. Use quotes for exact matching (e.g., "chicken meal").';
-
-          // Step 4b: Generate suggestions for empty results
-          if (items.length === 0) {
-            // Try with relaxed filters (partial matching only, ignore exact requirements)
-            const relaxedItems = originalItems.filter((item) => {
-              const relaxedIncludeTerms = includeTerms.map((term) => term.toLowerCase().replace(/^"(.+)"$/, "$1"));
-              const relaxedExcludeTerms = excludeTerms.map((term) => term.toLowerCase().replace(/^"(.+)"$/, "$1"));
-
-              const matchesInclude =
-                relaxedIncludeTerms.length === 0 || relaxedIncludeTerms.some((term) => item._searchText.includes(term));
-              const matchesExclude =
-                relaxedExcludeTerms.length === 0 ||
-                !relaxedExcludeTerms.some((term) => item._searchText.includes(term));
-
-              return matchesInclude && matchesExclude;
-            });
-
-            if (relaxedItems.length > 0) {
-              suggestions = [
-                `No exact matches found. Try broadening your search or check ingredient spelling.`,
-                `Found ${relaxedItems.length} products with relaxed matching.`,
-              ];
-            }
+          if (relaxedItems.length > 0) {
+            suggestions = [
+              `No exact matches found. Try broadening your search or check ingredient spelling.`,
+              `Found ${relaxedItems.length} products with relaxed matching.`,
+            ];
           }
         }
 
-        // Step 5: Client-side sorting
-        if (params.sortBy) {
-          items = sortProducts(items, params.sortBy);
-        }
+        // Step 5: Client-side sorting. Unsorted cursors hold the upstream
+        // offset of their next result; sorted ones, the position in the order.
+        const remaining = matches.filter((match) => match.upstreamIndex >= start.offset);
+        const ordered = params.sortBy
+          ? sortProducts(remaining, params.sortBy, params.thenBy, (match) => match.item)
+          : remaining;
 
-        // Step 6: Client-side pagination (if we fetched a larger batch)
-        const total = items.length;
-        const slicedItems = needsClientSideProcessing ? items.slice(userCursor, userCursor + userLimit) : items;
-        const apiHasMore = validated.data.meta.hasMore;
-        const hasMore = needsClientSideProcessing
-          ? userCursor + userLimit < total
-          : (apiHasMore ?? response.meta.total > userCursor + userLimit);
-        const nextCursor = hasMore ? userCursor + slicedItems.length : userCursor;
-
-        // Step 7: Map to SearchResultItem shape
-        const searchItems: SearchResultItem[] = slicedItems.map((item) => ({
-          id: item.id,
-          name: item.name,
-          brand: item.brand,
-          form: item.form,
-          ingredientsPreview: item.ingredientsPreview || [],
-          detailUrl: item.detailUrl,
-        }));
-
-        const searchResult: SearchResult = {
-          items: searchItems,
-          total: needsClientSideProcessing ? total : response.meta.total,
-          hasMore,
-          cursor: nextCursor,
-          rateLimit,
-        };
+        // Step 6: Client-side pagination from the cursor position
+        const pageEnd = start.skip + userLimit;
+        const pageItems = ordered.slice(start.skip, pageEnd).map((match) => match.item);
+        // A full scan only covers what was scanned; a filtered scan can continue upstream
+        const hasMore = ordered.length > pageEnd || (!scanAll && !upstreamDone);
 
-        // Add filter note and suggestions if applicable
-        const resultWithMeta: SearchResult & { filterNote?: string; suggestions?: string[] } = { ...searchResult };
-        if (filterNote) resultWithMeta.filterNote = filterNote;
-        if (suggestions) resultWithMeta.suggestions = suggestions;
+        let next: SearchCursor | undefined;
+        if (params.sortBy) {
+          next = hasMore ? { query: fingerprint, offset: 0, skip: pageEnd, returned: pageEnd } : undefined;
+        } else if (ordered.length > pageEnd) {
+          next = {
+            query: fingerprint,
+            offset: ordered[pageEnd].upstreamIndex,
+            skip: 0,
+            returned: start.returned + pageItems.length,
+          };
+        } else if (hasMore) {
+          next = { query: fingerprint, offset: scanOffset, skip: 0, returned: start.returned + pageItems.length };
+        }
 
-        // Step 8: Run safeguard
-        assertNoAffiliateLinks(resultWithMeta);
+        // Totals are exact once the scan reached the end of the upstream results
+        const total = scanAll ? matches.length : start.returned + ordered.length - start.skip;
+        if (!upstreamDone && scanAll) {
+          filterNote = [
+            filterNote,
+            `Scanned the first ${candidates.length} products matching the query; sorting and facet counts cover only those. Narrow the search to cover all of them.`,
+          ]
+            .filter(Boolean)
+            .join(" ");
+        }
 
-        // Step 9: Return result
-        return createSuccessResponse(resultWithMeta, rateLimit);
+        return buildSearchResponse(
+          {
+            items: pageItems,
+            total,
+            totalIsLowerBound: !upstreamDone,
+            hasMore,
+            next,
+            filterNote,
+            suggestions,
+            didYouMean: suggestSpellings(upstreamTotal, pageItems),
+            appliedExclusions,
+            facets: params.includeFacets ? computeFacets(matches.map((match) => match.item)) : undefined,
+            ingredientCheck: hasIngredientFilters
+              ? (item) => (ingredientIndex.has(item.id) ? "full" : "preview")
+              : undefined,
+          },
+          rateLimit
+        );
       } catch (error) {
         // Log full error internally for debugging
         const message = error instanceof Error ? error.message : "Unknown error";
@@ -263,6 +504,11 @@ export function registerSearchTool(
           return ToolResponseBuilder.notFound("Product", "search query", rateLimit);
         }
 
+        // Circuit open: tell the agent to back off instead of waiting on a degraded API
+        if (error instanceof CircuitOpenError) {
+          return ToolResponseBuilder.upstreamUnavailable(error.retryAfterMs, rateLimit);
+        }
+
         // Return safe generic message to user
         return ToolResponseBuilder.internal(
           "An error occurred while searching products. Please try again later.",
@@ -274,6 +520,75 @@ export function registerSearchTool(
   );
 }
 
+/** One page of search results, before mapping to the response shape */
+interface SearchPage {
+  items: AgentProductItem[];
+  total: number;
+  /** More results may exist beyond `total` (the scan stopped before the end) */
+  totalIsLowerBound?: boolean;
+  hasMore: boolean;
+  /** Position of the next page, when there is one */
+  next?: SearchCursor;
+  filterNote?: string;
+  suggestions?: string[];
+  /** Close names and brands when the query found little */
+  didYouMean?: SpellingSuggestion[];
+  appliedExclusions?: AppliedExclusion[];
+  facets?: SearchFacets;
+  /** Set when ingredient filters ran */
+  ingredientCheck?: (item: AgentProductItem) => "full" | "preview";
+}
+
+function buildSearchResponse(page: SearchPage, rateLimit: RateLimitInfo): ToolResponse {
+  // Step 7: Map to SearchResultItem shape
+  const searchItems: SearchResultItem[] = page.items.map((item) => ({
+    id: item.id,
+    name: item.name,
+    brand: item.brand,
+    form: item.form,
+    lifeStages: normalizeLifeStages(item.lifeStageTags),
+    ingredientsPreview: item.ingredientsPreview || [],
+    detailUrl: item.detailUrl,
+    ...(page.ingredientCheck && { ingredientCheck: page.ingredientCheck(item) }),
+  }));
+
+  const searchResult: SearchResult = {
+    items: searchItems,
+    total: page.total,
+    hasMore: page.hasMore,
+    cursor: page.next ? encodeSearchCursor(page.next, config.cursorSecret) : null,
+    rateLimit,
+  };
+  if (page.totalIsLowerBound) searchResult.totalIsLowerBound = true;
+  if (page.facets) searchResult.facets = page.facets;
+
+  // Add filter note and suggestions if applicable
+  const resultWithMeta: SearchResult & {
+    filterNote?: string;
+    suggestions?: string[];
+    didYouMean?: SpellingSuggestion[];
+    appliedExclusions?: AppliedExclusion[];
+  } = { ...searchResult };
+  if (page.filterNote) resultWithMeta.filterNote = page.filterNote;
+  if (page.suggestions) resultWithMeta.suggestions = page.suggestions;
+  if (page.didYouMean) {
+    resultWithMeta.didYouMean = page.didYouMean;
+    resultWithMeta.suggestions = [
+      ...(resultWithMeta.suggestions ?? []),
+      ...page.didYouMean.map(
+        (candidate) => `Did you mean "${candidate.text}"? (${candidate.kind}, confidence ${candidate.confidence})`
+      ),
+    ];
+  }
+  if (page.appliedExclusions) resultWithMeta.appliedExclusions = page.appliedExclusions;
+
+  // Step 8: Run safeguard
+  assertNoAffiliateLinks(resultWithMeta);
+
+  // Step 9: Return result
+  return createSuccessResponse(resultWithMeta, rateLimit);
+}
+
 // Helper function to escape regex special characters
 function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
@@ -296,54 +611,66 @@ function parseMatchType(term: string): { type: "exact" | "partial"; value: strin
   return { type: "partial", value: term.toLowerCase() };
 }
 
-// Match ingredient against product fields
-// P1-053: Pre-compiled regex support for performance
-// P1-056: Added validation for safe ingredients with word boundary
-function matchIngredient(
-  ingredient: string,
-  product: AgentProductItem,
-  matchType: "exact" | "partial",
-  precompiledRegex?: RegExp
-): boolean {
-  const searchFields = [
-    product.name,
-    product.brand,
-    ...(product.conditionTags || []),
-    ...(product.ingredientsPreview || []),
-  ].map((f) => f.toLowerCase());
+type IngredientMatcher = (term: string, ingredient: string) => boolean;
+
+interface ParsedTerm {
+  type: "exact" | "partial";
+  value: string;
+  regex?: RegExp;
+  /** Vocabulary-aware matcher for partial terms */
+  partialMatch: IngredientMatcher;
+}
 
+// Match one lowercased product field (name, brand, tag) against a term
+// P1-056: Added validation for safe ingredients with word boundary
+function matchesField(field: string, ingredient: string, matchType: "exact" | "partial", regex?: RegExp): boolean {
   if (matchType === "exact") {
     // P1-056: Validate ingredient before using word boundary regex
     if (!isSafeIngredient(ingredient)) {
-      console.warn(
-        `[search-products] Ingredient contains unsafe characters, falling back to partial matching: ${ingredient}`
-      );
-      return searchFields.some((field) => field.includes(ingredient.toLowerCase()));
+      return field.includes(ingredient.toLowerCase());
     }
-
-    return searchFields.some((field) => {
-      // Use pre-compiled regex if available, otherwise create new one
-      const regex = precompiledRegex ?? new RegExp(`\\b${escapeRegex(ingredient)}\\b`, "i");
-      return regex.test(field);
-    });
+    // Use pre-compiled regex if available, otherwise create new one
+    return (regex ?? new RegExp(`\\b${escapeRegex(ingredient)}\\b`, "i")).test(field);
   }
   // Partial matching
-  return searchFields.some((field) => field.includes(ingredient));
+  return field.includes(ingredient);
 }
 
-function sortProducts<T extends AgentProductItem>(items: T[], sortBy: string): T[] {
-  return [...items].sort((a, b) => {
-    switch (sortBy) {
-      case "protein_desc":
-        return (b.nutrition?.protein ?? 0) - (a.nutrition?.protein ?? 0);
-      case "carbs_asc":
-        return (a.derivedMetrics?.carbEstimated ?? 999) - (b.derivedMetrics?.carbEstimated ?? 999);
-      case "fat_desc":
-        return (b.nutrition?.fat ?? 0) - (a.nutrition?.fat ?? 0);
-      case "moisture_desc":
-        return (b.nutrition?.moisture ?? 0) - (a.nutrition?.moisture ?? 0);
-      default:
-        return 0;
-    }
-  });
+// Match one label ingredient against a term. Partial matching goes through
+// the normalization vocabulary (synonyms, plurals, "chicken" ≠ "chicken fat");
+// quoted terms stay literal.
+function matchesIngredientField(
+  ingredient: string,
+  term: string,
+  matchType: "exact" | "partial",
+  regex?: RegExp,
+  partialMatch: IngredientMatcher = ingredientMatches
+): boolean {
+  return matchType === "exact"
+    ? matchesField(ingredient.toLowerCase(), term, matchType, regex)
+    : partialMatch(term, ingredient);
+}
+
+// Match ingredient against product fields
+// P1-053: Pre-compiled regex support for performance
+// `ingredients` defaults to the preview; pass the full list when it is known
+function matchIngredient(
+  ingredient: string,
+  product: AgentProductItem,
+  matchType: "exact" | "partial",
+  precompiledRegex?: RegExp,
+  ingredients: string[] = product.ingredientsPreview || [],
+  partialMatch: IngredientMatcher = ingredientMatches
+): boolean {
+  if (matchType === "exact" && !isSafeIngredient(ingredient)) {
+    console.warn(
+      `[search-products] Ingredient contains unsafe characters, falling back to partial matching: ${ingredient}`
+    );
+  }
+
+  const searchFields = [product.name, product.brand, ...(product.conditionTags || [])].map((f) => f.toLowerCase());
+  return (
+    searchFields.some((field) => matchesField(field, ingredient, matchType, precompiledRegex)) ||
+    ingredients.some((field) => matchesIngredientField(field, ingredient, matchType, precompiledRegex, partialMatch))
+  );
 }
@@ -0,0 +1,309 @@
+/**
+ * HTTP Transport for the MCP Server
+ *
+ * Hosts Streamable HTTP (/mcp) and legacy SSE (/sse + /messages) endpoints
+ * on a single node:http server. Every connection gets its own McpServer
+ * session with a unique session ID.
+ *
+ * Host and Origin headers are checked on every request (DNS rebinding
+ * protection), and sessions idle for longer than the timeout are closed.
+ */
+
+import { randomUUID } from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Endpoint paths
+const STREAMABLE_HTTP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+
+// Maximum accepted JSON-RPC request body (1MB)
+const MAX_REQUEST_BODY_BYTES = 1024 * 1024;
+
+const DEFAULT_ALLOWED_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60_000;
+// Upper bound on how often idle sessions are looked for
+const MAX_IDLE_SWEEP_INTERVAL_MS = 60_000;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Create a fresh McpServer bound to the given session ID */
+  createSessionServer: (sessionId: string) => McpServer;
+  /** Host header names (without port) to answer; "*" allows any. Defaults to loopback names */
+  allowedHosts?: string[];
+  /** Allowed Origin headers; when empty, an origin must be on an allowed host */
+  allowedOrigins?: string[];
+  /** Close sessions without a request for this long (default 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+  /** Called once a session has been closed, to release per-session state */
+  onSessionClosed?: (sessionId: string) => void;
+}
+
+export interface HttpServerHandle {
+  /** Bound port (useful when started with port 0) */
+  port: number;
+  /** Number of currently open MCP sessions */
+  readonly sessionCount: number;
+  /** Close every session and stop accepting connections */
+  close(): Promise<void>;
+}
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastActivityMs: number;
+}
+
+/**
+ * Request body over MAX_REQUEST_BODY_BYTES (answered with 413)
+ */
+class RequestBodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_REQUEST_BODY_BYTES} bytes`);
+    this.name = "RequestBodyTooLargeError";
+  }
+}
+
+/**
+ * Read and parse a JSON request body with a size limit
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > MAX_REQUEST_BODY_BYTES) {
+      throw new RequestBodyTooLargeError();
+    }
+    chunks.push(buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString("utf-8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Write a JSON-RPC error response (used before a transport takes over)
+ */
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
+
+function getHeader(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function hostnameOf(value: string): string | undefined {
+  try {
+    return new URL(value.includes("://") ? value : `http://${value}`).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Why a request fails DNS rebinding protection, or undefined when allowed.
+ * Requests without an Origin header (non-browser clients) pass the origin check.
+ */
+function rejectionReason(
+  req: http.IncomingMessage,
+  allowedHosts: string[],
+  allowedOrigins: string[]
+): string | undefined {
+  const anyHost = allowedHosts.includes("*");
+  const isAllowedHost = (hostname: string | undefined) =>
+    anyHost || (hostname !== undefined && allowedHosts.some((allowed) => allowed.toLowerCase() === hostname));
+
+  if (!isAllowedHost(hostnameOf(getHeader(req, "host") ?? ""))) {
+    return "Forbidden: Host not allowed";
+  }
+  const origin = getHeader(req, "origin");
+  if (origin !== undefined) {
+    const allowed = allowedOrigins.length > 0 ? allowedOrigins.includes(origin) : isAllowedHost(hostnameOf(origin));
+    if (!allowed) return "Forbidden: Origin not allowed";
+  }
+  return undefined;
+}
+
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  const allowedHosts = options.allowedHosts ?? DEFAULT_ALLOWED_HOSTS;
+  const allowedOrigins = options.allowedOrigins ?? [];
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(`[HTTP] Error closing session ${sessionId}:`, error);
+    }
+    options.onSessionClosed?.(sessionId);
+  };
+
+  const handleStreamableHttp = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const sessionId = getHeader(req, "mcp-session-id");
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    // Existing session: route to its transport
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      session.lastActivityMs = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // New session: only an initialize request may open one
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const newSessionId = randomUUID();
+    const server = options.createSessionServer(newSessionId);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => newSessionId,
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, lastActivityMs: Date.now() });
+      },
+    });
+
+    transport.onclose = () => {
+      void closeSession(newSessionId);
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // The handshake failed before a session was registered: nothing else
+      // will close this server
+      if (!sessions.has(newSessionId)) {
+        await server.close().catch((error) => console.error("[HTTP] Error closing failed session:", error));
+      }
+    }
+  };
+
+  const handleSseConnect = async (_req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+    const server = options.createSessionServer(sessionId);
+
+    sessions.set(sessionId, { server, transport, lastActivityMs: Date.now() });
+    res.on("close", () => {
+      void closeSession(sessionId);
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL
+  ): Promise<void> => {
+    const sessionId = url.searchParams.get("sessionId") ?? "";
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+
+    session.lastActivityMs = Date.now();
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  // Close sessions abandoned without a DELETE or disconnect
+  const idleSweep = setInterval(
+    () => {
+      const cutoff = Date.now() - idleTimeoutMs;
+      for (const [id, session] of sessions) {
+        if (session.lastActivityMs < cutoff) void closeSession(id);
+      }
+    },
+    Math.min(idleTimeoutMs, MAX_IDLE_SWEEP_INTERVAL_MS)
+  );
+  idleSweep.unref();
+
+  const httpServer = http.createServer((req, res) => {
+    const rejection = rejectionReason(req, allowedHosts, allowedOrigins);
+    if (rejection) {
+      sendJsonRpcError(res, 403, rejection);
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    let handler: Promise<void>;
+    if (url.pathname === STREAMABLE_HTTP_PATH) {
+      handler = handleStreamableHttp(req, res);
+    } else if (url.pathname === SSE_PATH && req.method === "GET") {
+      handler = handleSseConnect(req, res);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+      handler = handleSseMessage(req, res, url);
+    } else {
+      sendJsonRpcError(res, 404, "Not Found");
+      return;
+    }
+
+    handler.catch((error) => {
+      if (error instanceof RequestBodyTooLargeError) {
+        sendJsonRpcError(res, 413, error.message);
+        return;
+      }
+      console.error("[HTTP] Request handling error:", error);
+      const message = error instanceof SyntaxError ? "Parse error: invalid JSON" : "Internal server error";
+      sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, message);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+
+  return {
+    port: address.port,
+    get sessionCount() {
+      return sessions.size;
+    },
+    async close() {
+      clearInterval(idleSweep);
+      await Promise.all([...sessions.keys()].map((id) => closeSession(id)));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((err) => (err ? reject(err) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -9,11 +9,22 @@
 // Nutrition Types
 // ============================================
 
+/** Guaranteed analysis, percent as fed */
 export interface NutritionInfo {
   protein?: number;
   fat?: number;
   fiber?: number;
   moisture?: number;
+  ash?: number;
+  calcium?: number;
+  phosphorus?: number;
+  magnesium?: number;
+  sodium?: number;
+  taurine?: number;
+  /** Total omega-3 fatty acids */
+  omega3?: number;
+  /** Total omega-6 fatty acids */
+  omega6?: number;
 }
 
 // ============================================
@@ -25,6 +36,22 @@ export interface DerivedMetricsInfo {
   carbEstimated?: number;
 }
 
+// ============================================
+// Life Stage Types
+// ============================================
+
+/** Normalized life stage (raw API tags vary: "Adult Maintenance", "growth", "7+") */
+export type LifeStage = "kitten" | "adult" | "senior" | "all-life-stages";
+
+/** Whether a product suits a cat of a stated age */
+export interface LifeStageCheck {
+  catAgeMonths: number;
+  catLifeStage: Exclude<LifeStage, "all-life-stages">;
+  productLifeStages: LifeStage[];
+  verdict: "suitable" | "caution" | "unsuitable" | "unknown";
+  note: string;
+}
+
 // ============================================
 // Product Type (NO affiliate fields)
 // ============================================
@@ -37,6 +64,8 @@ export interface ProductInfo {
   imageUrl?: string;
   form?: "dry" | "wet";
   lifeStageTags?: string[];
+  /** Normalized from lifeStageTags */
+  lifeStages?: LifeStage[];
   conditionTags?: string[];
   ingredientsPreview?: string[]; // top 5 ingredients (list view)
   ingredientsFull?: string[]; // full ingredient list (detail view)
@@ -68,7 +97,7 @@ export interface ToolResponse {
 // ============================================
 
 /** Standardized error types for tool responses */
-export type ToolErrorType = "NOT_FOUND" | "RATE_LIMITED" | "VALIDATION" | "INTERNAL";
+export type ToolErrorType = "NOT_FOUND" | "RATE_LIMITED" | "VALIDATION" | "UPSTREAM_UNAVAILABLE" | "INTERNAL";
 
 /** Structured error information */
 export interface ToolError {
@@ -93,17 +122,113 @@ export interface SearchResultItem {
   name: string;
   brand: string;
   form?: "dry" | "wet";
+  /** Normalized life stages (empty when the product states none) */
+  lifeStages: LifeStage[];
   /** Top 3 ingredients for quick scan */
   ingredientsPreview: string[];
   /** Bowlly product page URL with ?src=agent tracking */
   detailUrl: string;
+  /** Set when ingredient filters ran: checked against the full list or only the preview */
+  ingredientCheck?: "full" | "preview";
+}
+
+/** A "did you mean" candidate for a query that found little */
+export interface SpellingSuggestion {
+  text: string;
+  kind: "brand" | "product";
+  /** Similarity to the query, 0-1 */
+  confidence: number;
+  /** Set for product suggestions */
+  productId?: string;
+}
+
+/** A protein-source exclusion rule applied by search_products */
+export interface AppliedExclusion {
+  group: string;
+  description: string;
+  /** Products removed by this rule among those scanned for this page */
+  excludedProducts: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/** Count of products in a nutrient range; usable as minProtein/maxCarbs bounds */
+export interface RangeFacetBucket {
+  label: string;
+  /** Inclusive lower bound (percent) */
+  min?: number;
+  /** Exclusive upper bound (percent) */
+  max?: number;
+  count: number;
+}
+
+/** Breakdown of the full filtered result set, not just the current page */
+export interface SearchFacets {
+  form: FacetCount[];
+  conditionTags: FacetCount[];
+  /** Normalized life stages */
+  lifeStage: FacetCount[];
+  brand: FacetCount[];
+  /** Crude protein ranges */
+  protein: RangeFacetBucket[];
+  /** Estimated carbohydrate ranges */
+  carbs: RangeFacetBucket[];
 }
 
 export interface SearchResult {
   items: SearchResultItem[];
   total: number;
+  /** Set when the scan stopped early and more matches may exist than `total` */
+  totalIsLowerBound?: boolean;
   hasMore: boolean;
-  cursor: number;
+  /** Opaque token for the next page; null on the last page */
+  cursor: string | null;
+  /** Present when requested with includeFacets */
+  facets?: SearchFacets;
+  rateLimit: RateLimitInfo;
+}
+
+// ============================================
+// Similar Products Tool Types
+// ============================================
+
+/** Per-component similarity, 0-1; components that could not be compared are omitted */
+export interface SimilarityScores {
+  /** Position-weighted ingredient overlap */
+  ingredients?: number;
+  /** Closeness of dry-matter protein, fat, fiber and carbs */
+  nutrition?: number;
+  form?: number;
+  conditions?: number;
+}
+
+export interface SimilarProductItem {
+  id: string;
+  name: string;
+  brand: string;
+  form?: "dry" | "wet";
+  detailUrl: string;
+  /** Overall similarity to the reference product, 0-1 */
+  similarity: number;
+  scores: SimilarityScores;
+  /** Why the product is similar, most important first */
+  reasons: string[];
+  /** Whether ingredients were compared using the full list or only the preview */
+  ingredientCheck: "full" | "preview";
+}
+
+export interface SimilarProductsResult {
+  product: { id: string; name: string; brand: string };
+  items: SimilarProductItem[];
+  /** Catalog products scored against the reference */
+  candidatesCompared: number;
+  /** Candidates removed by excludeSameBrand / excludeProteinSources */
+  excluded: { sameBrand: number; proteinSources: number };
+  /** Set when the catalog holds more products than were compared */
+  limitations: string[];
   rateLimit: RateLimitInfo;
 }
 
@@ -131,21 +256,54 @@ export interface CompareResult {
 // Nutrition Analysis Types
 // ============================================
 
+export type IngredientCategory = "animalProtein" | "plantProtein" | "grainStarch" | "additives" | "other";
+
 export interface IngredientClassification {
   name: string;
-  categories: ("animalProtein" | "plantProtein" | "grainStarch" | "additives" | "other")[];
+  /** Canonical vocabulary name, when the label spelling is recognized */
+  canonicalName?: string;
+  categories: IngredientCategory[];
+}
+
+export type NutrientProfileId = "aafco_adult" | "aafco_growth" | "fediaf_adult" | "fediaf_growth";
+
+export type ProfileNutrient =
+  | "protein"
+  | "fat"
+  | "calcium"
+  | "phosphorus"
+  | "magnesium"
+  | "sodium"
+  | "taurine"
+  | "linoleicAcid";
+
+/** One nutrient checked against a profile minimum */
+export interface NutrientCheck {
+  nutrient: ProfileNutrient;
+  verdict: "pass" | "fail" | "unknown";
+  /** Product value, percent of dry matter */
+  dmb?: number;
+  /** Product value, grams per 1000 kcal ME */
+  per1000Kcal?: number;
+  minimumDmb: number;
+  minimumPer1000Kcal: number;
+  note?: string;
+}
+
+export interface NutrientProfileReport {
+  profile: NutrientProfileId;
+  name: string;
+  lifeStage: "adult" | "growth";
+  /** "meets" only when every nutrient passes; unknown nutrients leave it undetermined */
+  verdict: "meets" | "fails" | "undetermined";
+  summary: { pass: number; fail: number; unknown: number };
+  checks: NutrientCheck[];
 }
 
 export interface NutritionAnalysisResult {
   productId: string;
   productName: string;
-  asFed: {
-    protein?: number;
-    fat?: number;
-    fiber?: number;
-    moisture?: number;
-    ash?: number;
-  };
+  asFed: NutritionInfo;
   carbohydrates: {
     asFed?: number;
     isEstimated: boolean;
@@ -158,6 +316,28 @@ export interface NutritionAnalysisResult {
     ash?: number;
     carbEstimated?: number;
   };
+  /** Calcium/phosphorus balance; phosphorus restriction matters for cats with kidney disease */
+  minerals: {
+    calciumPhosphorusRatio?: number;
+    phosphorusDmb?: number;
+    /** Grams per 1000 kcal, on the same energy basis as the adequacy checks */
+    phosphorusPer1000Kcal?: number;
+  };
+  /** Where the calories come from (metabolizable energy, modified Atwater factors) */
+  energy: {
+    /** Estimated from the guaranteed analysis, kcal/kg as fed */
+    estimatedKcalPerKg?: number;
+    /** Calorie content reported by the API, kcal/kg as fed */
+    reportedKcalPerKg?: number;
+    kcalPerCup?: number;
+    kcalPerCan?: number;
+    /** Percent of estimated calories from each macronutrient */
+    caloriesFrom?: { protein: number; fat: number; carbohydrate: number };
+    /** How far the estimate is from the reported value, percent of the reported value */
+    discrepancyPercent?: number;
+  };
+  /** Minimum-nutrient checks against AAFCO/FEDIAF profiles */
+  nutrientAdequacy: NutrientProfileReport[];
   ingredients: {
     totalCount: number;
     topIngredients: IngredientClassification[];
@@ -170,6 +350,97 @@ export interface NutritionAnalysisResult {
 export const NUTRITION_DISCLAIMER =
   "This analysis is for informational purposes only and is not veterinary advice. Consult a veterinarian for specific dietary recommendations.";
 
+// ============================================
+// Feeding Types
+// ============================================
+
+/** Daily energy requirement of a cat (RER × MER factor) */
+export interface EnergyRequirement {
+  lifeStage: Exclude<LifeStage, "all-life-stages">;
+  /** Resting energy requirement, 70 × kg^0.75 */
+  rerKcalPerDay: number;
+  merFactor: number;
+  /** Which factor was applied, e.g. "neutered adult" */
+  merBasis: string;
+  kcalPerDay: number;
+}
+
+/** Energy density of a product, kcal/kg as fed */
+export interface ProductEnergy {
+  kcalPerKg: number;
+  /** Reported by the API, or estimated with modified Atwater factors */
+  source: "reported" | "estimated";
+}
+
+export interface FeedingPlanResult {
+  productId: string;
+  productName: string;
+  form?: "dry" | "wet";
+  energyRequirement: EnergyRequirement;
+  /** Missing when the product's calorie content is unknown and cannot be estimated */
+  productEnergy?: ProductEnergy;
+  daily: {
+    grams?: number;
+    /** When the calories per can are known */
+    cans?: number;
+    /** When the calories per cup are known */
+    cups?: number;
+  };
+  meals: {
+    perDay: number;
+    gramsPerMeal?: number;
+  };
+  assumptions: string[];
+  limitations: string[];
+  disclaimer: string;
+}
+
+/** One food's share of a mixed feeding plan */
+export interface MixedFeedingPortion {
+  productId: string;
+  productName: string;
+  form?: "dry" | "wet";
+  /** Percent of daily calories from this food */
+  caloriePercent: number;
+  kcalPerDay: number;
+  gramsPerDay: number;
+  cansPerDay?: number;
+  cupsPerDay?: number;
+  productEnergy: ProductEnergy;
+}
+
+export interface MixedFeedingPlanResult {
+  energyRequirement: EnergyRequirement;
+  portions: MixedFeedingPortion[];
+  /** The day's food as a whole, weighted by grams fed; a value is omitted when any food lacks it */
+  blend: {
+    totalGramsPerDay: number;
+    asFed: {
+      protein?: number;
+      fat?: number;
+      fiber?: number;
+      moisture?: number;
+    };
+    carbohydrates: {
+      asFed?: number;
+      isEstimated: boolean;
+      dmb?: number;
+    };
+    dmb: {
+      protein?: number;
+      fat?: number;
+      fiber?: number;
+      ash?: number;
+      carbEstimated?: number;
+    };
+    /** Percent of calories from each macronutrient (modified Atwater factors) */
+    caloriesFrom?: { protein: number; fat: number; carbohydrate: number };
+  };
+  assumptions: string[];
+  limitations: string[];
+  disclaimer: string;
+}
+
 // ============================================
 // Curation Types
 // ============================================
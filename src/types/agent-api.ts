@@ -29,6 +29,7 @@ export interface AgentProductItem {
     meatScore?: number;
     carbEstimated?: number;
   };
+  energyKcalPerKg?: number;
 }
 
 /**
@@ -0,0 +1,34 @@
+/**
+ * Concurrency Utilities
+ *
+ * Bounded fan-out for upstream calls made on behalf of a single tool call,
+ * so one request cannot open dozens of API connections at once.
+ */
+
+/**
+ * Like Promise.allSettled, but with at most `limit` tasks running at a time.
+ * Results are in input order.
+ */
+export async function allSettledWithLimit<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,179 @@
+/**
+ * Feeding Calculations
+ *
+ * Daily energy requirement of a cat: the resting energy requirement
+ * (RER = 70 × kg^0.75 kcal/day) times a life-stage and lifestyle factor,
+ * giving the maintenance energy requirement (MER). Factors are the commonly
+ * used WSAVA/AAHA starting points:
+ * - kitten under 4 months 3.0, 4-12 months 2.5
+ * - neutered adult 1.2, intact adult 1.4
+ * - inactive or obesity-prone adult 1.0, active adult 1.6
+ * - weight loss 0.8, weight gain 1.4
+ *
+ * For weight loss the RER is taken at the target (ideal) weight when one is
+ * given; at the current weight of an overweight cat it overestimates needs.
+ *
+ * Individual cats vary widely around these estimates, so results are a
+ * starting point to adjust by body condition.
+ */
+
+import { z } from "zod";
+
+import type { EnergyRequirement, ProductEnergy } from "../types.js";
+
+import { lifeStageForAge } from "./life-stage.js";
+import { calculateCarbEstimated, estimateEnergyKcalPerKg } from "./nutrition.js";
+
+export const ACTIVITY_LEVELS = ["low", "normal", "high"] as const;
+export const WEIGHT_GOALS = ["maintain", "lose", "gain"] as const;
+
+const YOUNG_KITTEN_UNTIL_MONTHS = 4;
+const SMALL_MEALS_UNTIL_MONTHS = 6;
+
+/** Cat profile parameters shared by the feeding tools */
+export const CatProfileSchema = z.object({
+  catWeightKg: z.number().min(0.5).max(15).describe("The cat's current body weight in kg"),
+  catAgeMonths: z.number().int().min(0).max(360).describe("The cat's age in months"),
+  neutered: z.boolean().describe("Whether the cat is spayed/neutered"),
+  activityLevel: z
+    .enum(ACTIVITY_LEVELS)
+    .optional()
+    .describe("low (indoor, sedentary or obesity-prone), normal (default) or high (active, outdoor)"),
+  weightGoal: z.enum(WEIGHT_GOALS).optional().describe("maintain (default), lose or gain weight"),
+  targetWeightKg: z
+    .number()
+    .min(0.5)
+    .max(15)
+    .optional()
+    .describe(
+      "Target (ideal) body weight in kg: below the current weight to lose, above it to gain; with weightGoal lose, energy is calculated for this weight"
+    ),
+});
+
+export type CatProfile = z.infer<typeof CatProfileSchema>;
+
+/**
+ * Resting energy requirement in kcal/day
+ */
+export function calculateRER(weightKg: number): number {
+  return 70 * weightKg ** 0.75;
+}
+
+/**
+ * Why a target weight contradicts the weight goal, or undefined when it fits:
+ * losing needs a lower target, gaining a higher one, maintaining the current weight
+ */
+export function targetWeightError(profile: CatProfile): string | undefined {
+  const { targetWeightKg, catWeightKg } = profile;
+  if (targetWeightKg === undefined) return undefined;
+
+  const goal = profile.weightGoal ?? "maintain";
+  if (goal === "lose" && targetWeightKg >= catWeightKg) {
+    return "targetWeightKg must be below catWeightKg when weightGoal is lose";
+  }
+  if (goal === "gain" && targetWeightKg <= catWeightKg) {
+    return "targetWeightKg must be above catWeightKg when weightGoal is gain";
+  }
+  if (goal === "maintain" && targetWeightKg !== catWeightKg) {
+    return "targetWeightKg differs from catWeightKg; set weightGoal to lose or gain";
+  }
+  return undefined;
+}
+
+// Weight the RER is calculated for: the target weight when losing weight
+function rerWeightKg(profile: CatProfile): number {
+  const losing = profile.weightGoal === "lose" && lifeStageForAge(profile.catAgeMonths) !== "kitten";
+  return losing && profile.targetWeightKg !== undefined ? profile.targetWeightKg : profile.catWeightKg;
+}
+
+function merFactor(profile: CatProfile): { factor: number; basis: string } {
+  if (lifeStageForAge(profile.catAgeMonths) === "kitten") {
+    return profile.catAgeMonths < YOUNG_KITTEN_UNTIL_MONTHS
+      ? { factor: 3.0, basis: "kitten under 4 months" }
+      : { factor: 2.5, basis: "kitten 4-12 months" };
+  }
+  if (profile.weightGoal === "lose") return { factor: 0.8, basis: "weight loss" };
+  if (profile.weightGoal === "gain") return { factor: 1.4, basis: "weight gain" };
+  if (profile.activityLevel === "low") return { factor: 1.0, basis: "inactive or obesity-prone adult" };
+  if (profile.activityLevel === "high") return { factor: 1.6, basis: "active adult" };
+  return profile.neutered ? { factor: 1.2, basis: "neutered adult" } : { factor: 1.4, basis: "intact adult" };
+}
+
+/**
+ * Daily energy requirement (RER × MER factor) for a cat profile.
+ * Growing kittens get growth factors whatever the activity level or weight goal.
+ */
+export function calculateEnergyRequirement(profile: CatProfile): EnergyRequirement {
+  const rer = calculateRER(rerWeightKg(profile));
+  const { factor, basis } = merFactor(profile);
+  return {
+    lifeStage: lifeStageForAge(profile.catAgeMonths),
+    rerKcalPerDay: Math.round(rer),
+    merFactor: factor,
+    merBasis: basis,
+    kcalPerDay: Math.round(rer * factor),
+  };
+}
+
+/**
+ * How an energy requirement was derived (assumptions) and its caveats
+ * (limitations), in the wording shared by the feeding tools
+ */
+export function describeEnergyRequirement(
+  profile: CatProfile,
+  requirement: EnergyRequirement
+): { assumptions: string[]; limitations: string[] } {
+  const assumptions = [
+    `Resting energy requirement 70 × ${rerWeightKg(profile)} kg^0.75 = ${requirement.rerKcalPerDay} kcal/day`,
+    `Energy factor ${requirement.merFactor} (${requirement.merBasis}) gives ${requirement.kcalPerDay} kcal/day`,
+  ];
+
+  const limitations = [
+    "Energy needs of individual cats vary widely; adjust the amount by body condition and weight checks every 2-4 weeks",
+  ];
+  if (requirement.lifeStage === "kitten" && (profile.weightGoal ?? "maintain") !== "maintain") {
+    limitations.push("Weight goals are not applied to growing kittens; consult a veterinarian");
+  }
+  if (profile.weightGoal === "lose" && requirement.lifeStage !== "kitten") {
+    limitations.push(
+      "Weight loss plans should be supervised by a veterinarian; cats must not lose more than 1-2% of body weight per week"
+    );
+    if (profile.targetWeightKg === undefined) {
+      limitations.push(
+        "Weight loss energy was calculated from the current weight; give targetWeightKg (ideal weight) for a lower, more accurate target"
+      );
+    }
+  }
+  if (profile.weightGoal === "gain" && profile.targetWeightKg !== undefined && requirement.lifeStage !== "kitten") {
+    limitations.push("Weight gain energy was calculated from the current weight; targetWeightKg only sets the direction");
+  }
+
+  return { assumptions, limitations };
+}
+
+/**
+ * Suggested meals per day: young kittens eat little and often
+ */
+export function defaultMealsPerDay(ageMonths: number): number {
+  if (ageMonths < SMALL_MEALS_UNTIL_MONTHS) return 4;
+  return lifeStageForAge(ageMonths) === "kitten" ? 3 : 2;
+}
+
+/**
+ * A product's energy density: the reported calorie content, else a modified
+ * Atwater estimate from the guaranteed analysis
+ * @returns undefined when neither is available
+ */
+export function productEnergy(product: {
+  form?: "dry" | "wet";
+  nutrition?: { protein?: number; fat?: number; fiber?: number; moisture?: number; ash?: number };
+  energyKcalPerKg?: number;
+}): ProductEnergy | undefined {
+  if (product.energyKcalPerKg) {
+    return { kcalPerKg: product.energyKcalPerKg, source: "reported" };
+  }
+  const nutrition = product.nutrition ?? {};
+  const carb = calculateCarbEstimated(nutrition, { form: product.form });
+  const estimated = estimateEnergyKcalPerKg(nutrition, carb.value);
+  return estimated ? { kcalPerKg: estimated, source: "estimated" } : undefined;
+}
@@ -0,0 +1,100 @@
+/**
+ * Life Stage Utilities
+ *
+ * Normalizes the API's free-form life stage tags ("Adult Maintenance",
+ * "growth", "7+") to kitten / adult / senior / all-life-stages, and checks
+ * whether a product suits a cat of a given age.
+ *
+ * Age bands follow the AAHA/AAFP feline life stage guidelines: kitten
+ * under 1 year, senior from 11 years. Foods labelled for "all life stages"
+ * meet growth requirements and suit every age.
+ */
+
+import type { LifeStage, LifeStageCheck } from "../types.js";
+
+export const LIFE_STAGES = ["kitten", "adult", "senior", "all-life-stages"] as const;
+
+const KITTEN_UNTIL_MONTHS = 12;
+const SENIOR_FROM_MONTHS = 11 * 12;
+// Many senior formulas are labelled 7+; they are fine for mature adults
+const MATURE_FROM_MONTHS = 7 * 12;
+
+const TAG_ALIASES: Array<[RegExp, LifeStage]> = [
+  [/\ball life stages?\b|\ball ages\b/, "all-life-stages"],
+  [/\bkittens?\b|\bgrowth\b|\bgestation\b|\blactation\b|\breproduction\b/, "kitten"],
+  [/\bseniors?\b|\bmature\b|\baging\b|\b(7|11)\s?\+/, "senior"],
+  [/\badults?\b|\bmaintenance\b/, "adult"],
+];
+
+/**
+ * Map a raw life stage tag to every life stage it names ("Kitten/Adult" →
+ * kitten and adult); empty if unrecognized
+ */
+export function normalizeLifeStageTag(tag: string): LifeStage[] {
+  const text = tag.toLowerCase().replace(/[-_/&]+/g, " ");
+  return TAG_ALIASES.filter(([pattern]) => pattern.test(text)).map(([, stage]) => stage);
+}
+
+/**
+ * Normalized, de-duplicated life stages for a product's tags
+ */
+export function normalizeLifeStages(tags: string[] | undefined): LifeStage[] {
+  const stages = new Set<LifeStage>();
+  for (const tag of tags ?? []) {
+    for (const stage of normalizeLifeStageTag(tag)) stages.add(stage);
+  }
+  return LIFE_STAGES.filter((stage) => stages.has(stage));
+}
+
+/**
+ * Whether a product with these life stages is formulated for `stage`.
+ * All-life-stages foods suit every stage; a search for "all-life-stages"
+ * only matches foods labelled that way.
+ */
+export function suitsLifeStage(stages: LifeStage[], stage: LifeStage): boolean {
+  return stages.includes(stage) || (stage !== "all-life-stages" && stages.includes("all-life-stages"));
+}
+
+export function lifeStageForAge(ageMonths: number): Exclude<LifeStage, "all-life-stages"> {
+  if (ageMonths < KITTEN_UNTIL_MONTHS) return "kitten";
+  return ageMonths >= SENIOR_FROM_MONTHS ? "senior" : "adult";
+}
+
+/**
+ * Check a product's life stages against a cat's age
+ */
+export function checkLifeStage(tags: string[] | undefined, catAgeMonths: number): LifeStageCheck {
+  const productLifeStages = normalizeLifeStages(tags);
+  const catLifeStage = lifeStageForAge(catAgeMonths);
+  const base = { catAgeMonths, catLifeStage, productLifeStages };
+
+  if (productLifeStages.length === 0) {
+    return { ...base, verdict: "unknown", note: "The product does not state a life stage." };
+  }
+  if (suitsLifeStage(productLifeStages, catLifeStage)) {
+    return { ...base, verdict: "suitable", note: `Formulated for ${catLifeStage} cats.` };
+  }
+
+  if (catLifeStage === "kitten") {
+    return {
+      ...base,
+      verdict: "unsuitable",
+      note: "Kittens need a growth or all-life-stages food; this product is formulated for adult maintenance only.",
+    };
+  }
+  if (productLifeStages.includes("senior") && catAgeMonths >= MATURE_FROM_MONTHS) {
+    return { ...base, verdict: "suitable", note: "Senior formula; appropriate for mature cats (7+ years)." };
+  }
+  if (productLifeStages.includes("adult")) {
+    // Only reachable for seniors
+    return { ...base, verdict: "suitable", note: "Adult maintenance food; suitable for healthy senior cats." };
+  }
+  return {
+    ...base,
+    verdict: "caution",
+    note:
+      productLifeStages.includes("kitten")
+        ? "Kitten (growth) formula: more calorie-dense than an adult cat needs; watch for weight gain."
+        : "Senior formula for a younger adult cat; check with a veterinarian.",
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Nutrient Profiles
+ *
+ * Minimum nutrient levels for complete cat foods, from the AAFCO Cat Food
+ * Nutrient Profiles (adult maintenance; growth and reproduction) and the
+ * FEDIAF Nutritional Guidelines (adult at 100 kcal/kg^0.67 MER; early
+ * growth and reproduction). Each minimum is given both per 1000 kcal ME and
+ * as percent of dry matter (which assumes 4000 kcal/kg DM).
+ *
+ * A product is compared per 1000 kcal when its energy density is known,
+ * since DMB minimums understate needs for energy-dense foods, and on a
+ * dry-matter basis otherwise. Nutrients the label does not state are
+ * reported as unknown, never as passing.
+ */
+
+import type { NutrientCheck, NutrientProfileId, NutrientProfileReport, ProfileNutrient } from "../types.js";
+
+import { toDryMatterBasis, toPer1000Kcal } from "./nutrition.js";
+
+export const NUTRIENT_PROFILE_IDS = ["aafco_adult", "aafco_growth", "fediaf_adult", "fediaf_growth"] as const;
+
+export const PROFILE_NUTRIENTS = [
+  "protein",
+  "fat",
+  "calcium",
+  "phosphorus",
+  "magnesium",
+  "sodium",
+  "taurine",
+  "linoleicAcid",
+] as const;
+
+interface NutrientMinimum {
+  /** Percent of dry matter */
+  dmb: number;
+  /** Grams per 1000 kcal ME */
+  per1000Kcal: number;
+  /** Different minimum for wet (canned) food, e.g. taurine */
+  wet?: { dmb: number; per1000Kcal: number };
+}
+
+interface NutrientProfile {
+  name: string;
+  lifeStage: "adult" | "growth";
+  minimums: Record<ProfileNutrient, NutrientMinimum>;
+}
+
+const NUTRIENT_PROFILES: Record<NutrientProfileId, NutrientProfile> = {
+  aafco_adult: {
+    name: "AAFCO adult maintenance",
+    lifeStage: "adult",
+    minimums: {
+      protein: { dmb: 26, per1000Kcal: 65 },
+      fat: { dmb: 9, per1000Kcal: 22.5 },
+      calcium: { dmb: 0.6, per1000Kcal: 1.5 },
+      phosphorus: { dmb: 0.5, per1000Kcal: 1.25 },
+      magnesium: { dmb: 0.04, per1000Kcal: 0.1 },
+      sodium: { dmb: 0.2, per1000Kcal: 0.5 },
+      taurine: { dmb: 0.1, per1000Kcal: 0.25, wet: { dmb: 0.2, per1000Kcal: 0.5 } },
+      linoleicAcid: { dmb: 0.6, per1000Kcal: 1.4 },
+    },
+  },
+  aafco_growth: {
+    name: "AAFCO growth and reproduction",
+    lifeStage: "growth",
+    minimums: {
+      protein: { dmb: 30, per1000Kcal: 75 },
+      fat: { dmb: 9, per1000Kcal: 22.5 },
+      calcium: { dmb: 1.0, per1000Kcal: 2.5 },
+      phosphorus: { dmb: 0.8, per1000Kcal: 2.0 },
+      magnesium: { dmb: 0.08, per1000Kcal: 0.2 },
+      sodium: { dmb: 0.2, per1000Kcal: 0.5 },
+      taurine: { dmb: 0.1, per1000Kcal: 0.25, wet: { dmb: 0.2, per1000Kcal: 0.5 } },
+      linoleicAcid: { dmb: 0.6, per1000Kcal: 1.4 },
+    },
+  },
+  fediaf_adult: {
+    name: "FEDIAF adult",
+    lifeStage: "adult",
+    minimums: {
+      protein: { dmb: 25, per1000Kcal: 62.5 },
+      fat: { dmb: 9, per1000Kcal: 22.5 },
+      calcium: { dmb: 0.4, per1000Kcal: 1.0 },
+      phosphorus: { dmb: 0.26, per1000Kcal: 0.64 },
+      magnesium: { dmb: 0.04, per1000Kcal: 0.1 },
+      sodium: { dmb: 0.08, per1000Kcal: 0.19 },
+      taurine: { dmb: 0.1, per1000Kcal: 0.25, wet: { dmb: 0.2, per1000Kcal: 0.5 } },
+      linoleicAcid: { dmb: 0.5, per1000Kcal: 1.25 },
+    },
+  },
+  fediaf_growth: {
+    name: "FEDIAF early growth and reproduction",
+    lifeStage: "growth",
+    minimums: {
+      protein: { dmb: 30, per1000Kcal: 75 },
+      fat: { dmb: 9, per1000Kcal: 22.5 },
+      calcium: { dmb: 1.0, per1000Kcal: 2.5 },
+      phosphorus: { dmb: 0.84, per1000Kcal: 2.1 },
+      magnesium: { dmb: 0.05, per1000Kcal: 0.13 },
+      sodium: { dmb: 0.16, per1000Kcal: 0.4 },
+      taurine: { dmb: 0.1, per1000Kcal: 0.25, wet: { dmb: 0.2, per1000Kcal: 0.5 } },
+      linoleicAcid: { dmb: 0.55, per1000Kcal: 1.38 },
+    },
+  },
+};
+
+/** What a product is checked on; nutrient values are percent as fed */
+export interface AdequacyInput {
+  nutrients: Partial<Record<ProfileNutrient, number>>;
+  moisture?: number;
+  /** Energy density, kcal/kg as fed */
+  kcalPerKg?: number;
+  form?: "dry" | "wet";
+}
+
+function checkNutrient(nutrient: ProfileNutrient, minimum: NutrientMinimum, input: AdequacyInput): NutrientCheck {
+  const { dmb: minimumDmb, per1000Kcal: minimumPer1000Kcal } = (input.form === "wet" && minimum.wet) || minimum;
+  const base = { nutrient, minimumDmb, minimumPer1000Kcal };
+
+  const asFed = input.nutrients[nutrient];
+  if (asFed === undefined) {
+    return { ...base, verdict: "unknown", note: "Not stated in the guaranteed analysis" };
+  }
+
+  const per1000Kcal = toPer1000Kcal(asFed, input.kcalPerKg);
+  const dmb = toDryMatterBasis(asFed, input.moisture, 2);
+
+  if (per1000Kcal !== undefined) {
+    return { ...base, dmb, per1000Kcal, verdict: per1000Kcal >= minimumPer1000Kcal ? "pass" : "fail" };
+  }
+  if (dmb !== undefined) {
+    return {
+      ...base,
+      dmb,
+      verdict: dmb >= minimumDmb ? "pass" : "fail",
+      note: "Energy density unknown; compared on a dry-matter basis",
+    };
+  }
+  return { ...base, verdict: "unknown", note: "Moisture and energy density unknown; cannot compare" };
+}
+
+/**
+ * Check a product against a nutrient profile. The profile is met only when
+ * every nutrient passes; any unknown nutrient leaves it undetermined.
+ */
+export function evaluateNutrientProfile(profileId: NutrientProfileId, input: AdequacyInput): NutrientProfileReport {
+  const profile = NUTRIENT_PROFILES[profileId];
+  const checks = PROFILE_NUTRIENTS.map((nutrient) => checkNutrient(nutrient, profile.minimums[nutrient], input));
+
+  const count = (verdict: NutrientCheck["verdict"]) => checks.filter((check) => check.verdict === verdict).length;
+  const summary = { pass: count("pass"), fail: count("fail"), unknown: count("unknown") };
+
+  return {
+    profile: profileId,
+    name: profile.name,
+    lifeStage: profile.lifeStage,
+    verdict: summary.fail > 0 ? "fails" : summary.unknown > 0 ? "undetermined" : "meets",
+    summary,
+    checks,
+  };
+}
+
+/**
+ * Default profiles for a product: growth profiles when it claims to feed
+ * kittens (or all life stages), adult maintenance otherwise
+ */
+export function defaultNutrientProfiles(forGrowth: boolean): NutrientProfileId[] {
+  return forGrowth ? ["aafco_growth", "fediaf_growth"] : ["aafco_adult", "fediaf_adult"];
+}
@@ -57,3 +57,120 @@ export function calculateCarbEstimated(nutrition: Nutrition, options?: { form?:
     isEstimated: ashMissing,
   };
 }
+
+/**
+ * Calculate Dry Matter Basis (DMB) percentages
+ * Formula: DMB% = (AsFed% / (100 - Moisture%)) * 100
+ * Without moisture, as-fed values are returned unchanged.
+ */
+export function calculateDMB(nutrition: Nutrition, carbAsFed?: number): {
+  protein?: number;
+  fat?: number;
+  fiber?: number;
+  ash?: number;
+  carbEstimated?: number;
+} {
+  const { protein, fat, fiber, moisture, ash } = nutrition;
+
+  if (moisture === undefined || moisture >= 100) {
+    return {
+      protein,
+      fat,
+      fiber,
+      ash,
+      carbEstimated: carbAsFed,
+    };
+  }
+
+  const factor = 100 / (100 - moisture);
+
+  return {
+    protein: protein !== undefined ? Math.round(protein * factor * 10) / 10 : undefined,
+    fat: fat !== undefined ? Math.round(fat * factor * 10) / 10 : undefined,
+    fiber: fiber !== undefined ? Math.round(fiber * factor * 10) / 10 : undefined,
+    ash: ash !== undefined ? Math.round(ash * factor * 10) / 10 : undefined,
+    carbEstimated: carbAsFed !== undefined ? Math.round(carbAsFed * factor * 10) / 10 : undefined,
+  };
+}
+
+/**
+ * Convert an as-fed percentage to dry matter basis
+ * Formula: DMB% = AsFed% / (100 - Moisture%) * 100
+ * @param decimals - rounding; minerals need more than the default 1
+ * @returns undefined when the value or moisture is unknown
+ */
+export function toDryMatterBasis(
+  asFed: number | undefined,
+  moisture: number | undefined,
+  decimals = 1
+): number | undefined {
+  if (asFed === undefined || moisture === undefined || moisture >= 100) {
+    return undefined;
+  }
+  const factor = 10 ** decimals;
+  return Math.round(((asFed * 100) / (100 - moisture)) * factor) / factor;
+}
+
+/**
+ * Convert an as-fed percentage to grams per 1000 kcal
+ * Formula: g/1000 kcal = AsFed% * 10 (g/kg) / (kcal/kg / 1000)
+ * @returns undefined when the value or energy density is unknown
+ */
+export function toPer1000Kcal(
+  asFed: number | undefined,
+  kcalPerKg: number | undefined,
+  decimals = 2
+): number | undefined {
+  if (asFed === undefined || !kcalPerKg) {
+    return undefined;
+  }
+  const factor = 10 ** decimals;
+  return Math.round(((asFed * 10 * 1000) / kcalPerKg) * factor) / factor;
+}
+
+/** Modified Atwater factors (kcal per gram), used for pet foods */
+export const MODIFIED_ATWATER_KCAL_PER_G = { protein: 3.5, fat: 8.5, carbohydrate: 3.5 } as const;
+
+export interface MetabolizableEnergy {
+  /** kcal/kg as fed */
+  kcalPerKg: number;
+  /** Percent of calories from each macronutrient */
+  caloriesFrom: { protein: number; fat: number; carbohydrate: number };
+}
+
+/**
+ * Metabolizable energy (kcal/kg as fed) and its macronutrient distribution,
+ * from modified Atwater factors
+ * @returns undefined when protein, fat or carbohydrate is unknown
+ */
+export function calculateMetabolizableEnergy(
+  nutrition: Pick<Nutrition, "protein" | "fat">,
+  carbAsFed: number | undefined
+): MetabolizableEnergy | undefined {
+  const { protein, fat } = nutrition;
+  if (protein === undefined || fat === undefined || carbAsFed === undefined) {
+    return undefined;
+  }
+  const kcal = {
+    protein: protein * MODIFIED_ATWATER_KCAL_PER_G.protein,
+    fat: fat * MODIFIED_ATWATER_KCAL_PER_G.fat,
+    carbohydrate: carbAsFed * MODIFIED_ATWATER_KCAL_PER_G.carbohydrate,
+  };
+  const kcalPer100g = kcal.protein + kcal.fat + kcal.carbohydrate;
+  const share = (value: number) => (kcalPer100g === 0 ? 0 : Math.round((value / kcalPer100g) * 1000) / 10);
+  return {
+    kcalPerKg: Math.round(kcalPer100g * 10),
+    caloriesFrom: { protein: share(kcal.protein), fat: share(kcal.fat), carbohydrate: share(kcal.carbohydrate) },
+  };
+}
+
+/**
+ * Estimate metabolizable energy (kcal/kg as fed) with modified Atwater factors
+ * @returns undefined when protein, fat or carbohydrate is unknown
+ */
+export function estimateEnergyKcalPerKg(
+  nutrition: Pick<Nutrition, "protein" | "fat">,
+  carbAsFed: number | undefined
+): number | undefined {
+  return calculateMetabolizableEnergy(nutrition, carbAsFed)?.kcalPerKg;
+}